@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import TestPage from "@/pages/TestPage";
+import AnalyticsPage from "@/pages/AnalyticsPage";
 import { TestGraderProvider } from "@/context/TestGraderContext";
 
 function Router() {
@@ -12,6 +13,7 @@ function Router() {
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/test" component={TestPage} />
+      <Route path="/tests/:id/analytics" component={AnalyticsPage} />
       <Route component={NotFound} />
     </Switch>
   );
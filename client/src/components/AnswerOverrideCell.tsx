@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { AnswerOverride, Result } from '@/types';
+
+// Remember who is making changes so they don't have to type their name every time
+const CHANGED_BY_KEY = 'intellimark.changedBy';
+
+interface AnswerOverrideCellProps {
+  submissionId: number;
+  questionNumber: number;
+  studentAnswer: string;
+  overrides: AnswerOverride[]; // History for this question, oldest first
+  className?: string;
+  onOverridden: (result: Result) => void;
+}
+
+export function AnswerOverrideCell({
+  submissionId,
+  questionNumber,
+  studentAnswer,
+  overrides,
+  className,
+  onOverridden
+}: AnswerOverrideCellProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [answer, setAnswer] = useState(studentAnswer);
+  const [changedBy, setChangedBy] = useState(() => localStorage.getItem(CHANGED_BY_KEY) ?? '');
+  const [reason, setReason] = useState('');
+
+  // The value extracted from the paper, before anyone changed it
+  const originalAnswer = overrides.length > 0 ? overrides[0].previousAnswer : studentAnswer;
+
+  const overrideMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/submissions/${submissionId}/answers/${questionNumber}`, {
+        answer,
+        changedBy,
+        reason
+      });
+      return res.json() as Promise<{ override: AnswerOverride; result: Result | null }>;
+    },
+    onSuccess: ({ result }) => {
+      localStorage.setItem(CHANGED_BY_KEY, changedBy.trim());
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/overrides`] });
+      setOpen(false);
+      setReason('');
+      if (result) {
+        queryClient.invalidateQueries({ queryKey: [`/api/tests/${result.testId}/submissions`] });
+        onOverridden(result);
+      }
+      toast({
+        title: 'Answer updated',
+        description: result
+          ? `Question ${questionNumber} re-graded: ${result.pointsEarned}/${result.totalPoints} points`
+          : `Question ${questionNumber} saved; the paper is waiting for review`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error updating answer',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setAnswer(studentAnswer);
+    }
+    setOpen(nextOpen);
+  };
+
+  return (
+    <div className={`flex items-center gap-1 ${className ?? ''}`}>
+      <span>{studentAnswer || '—'}</span>
+      {overrides.length > 0 && (
+        <span
+          className="material-icons text-amber-500 text-base"
+          title={`Changed by hand; originally "${originalAnswer || 'blank'}"`}
+        >
+          history
+        </span>
+      )}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <button className="text-gray-400 hover:text-primary" title="Edit answer">
+            <span className="material-icons text-base">edit</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <h4 className="text-sm font-medium text-gray-900">Question {questionNumber}</h4>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor={`answer-${questionNumber}`} className="text-xs">Answer</Label>
+              <Input
+                id={`answer-${questionNumber}`}
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                className="h-8"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`changed-by-${questionNumber}`} className="text-xs">Your name</Label>
+              <Input
+                id={`changed-by-${questionNumber}`}
+                value={changedBy}
+                onChange={(e) => setChangedBy(e.target.value)}
+                className="h-8"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor={`reason-${questionNumber}`} className="text-xs">Reason (optional)</Label>
+            <Input
+              id={`reason-${questionNumber}`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Misread bubble"
+              className="h-8"
+            />
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={() => overrideMutation.mutate()}
+            disabled={overrideMutation.isPending || !changedBy.trim() || answer.trim() === studentAnswer}
+          >
+            {overrideMutation.isPending ? 'Saving...' : 'Save and Re-grade'}
+          </Button>
+
+          {/* Audit trail */}
+          <div className="border-t border-gray-200 pt-2">
+            <p className="text-xs font-medium text-gray-500 mb-1">History</p>
+            <ul className="space-y-1 text-xs text-gray-600">
+              <li>Extracted: <span className="font-medium">{originalAnswer || 'blank'}</span></li>
+              {overrides.map(override => (
+                <li key={override.id}>
+                  {override.changedBy} changed <span className="font-medium">{override.previousAnswer || 'blank'}</span>
+                  {' → '}
+                  <span className="font-medium">{override.newAnswer || 'blank'}</span>
+                  {' on '}{new Date(override.createdAt).toLocaleString()}
+                  {override.reason && <span className="block text-gray-400">{override.reason}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { AnswerRules } from '@/types';
+
+interface AnswerRulesFieldsProps {
+  value: AnswerRules;
+  onChange: (rules: AnswerRules) => void;
+}
+
+/**
+ * Turn the synonyms text box into groups: one group per line, answers separated by commas
+ * @param text Contents of the text box
+ * @returns Groups with at least two answers
+ */
+function parseSynonyms(text: string): string[][] {
+  return text
+    .split('\n')
+    .map(line => line.split(',').map(answer => answer.trim()).filter(Boolean))
+    .filter(group => group.length >= 2);
+}
+
+const RULE_SWITCHES: { key: 'ignoreCase' | 'ignoreWhitespace' | 'ignorePunctuation'; label: string; hint: string }[] = [
+  { key: 'ignoreCase', label: 'Ignore case', hint: '"paris" matches "Paris"' },
+  { key: 'ignoreWhitespace', label: 'Ignore spaces', hint: '"H 2 O" matches "H2O"' },
+  { key: 'ignorePunctuation', label: 'Ignore punctuation', hint: '"U.S.A." matches "USA"' }
+];
+
+export function AnswerRulesFields({ value, onChange }: AnswerRulesFieldsProps) {
+  const [synonymsText, setSynonymsText] = useState(() =>
+    value.synonyms.map(group => group.join(', ')).join('\n')
+  );
+
+  const handleSynonymsChange = (text: string) => {
+    setSynonymsText(text);
+    onChange({ ...value, synonyms: parseSynonyms(text) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Answer Matching</h4>
+        <p className="text-xs text-gray-500">
+          List alternative answers in the answer column as "B|D" or "either A or C".
+        </p>
+      </div>
+      {RULE_SWITCHES.map(rule => (
+        <div key={rule.key} className="flex items-center justify-between">
+          <Label htmlFor={`rule-${rule.key}`} className="text-sm text-gray-600">
+            {rule.label}
+            <span className="block text-xs text-gray-400">{rule.hint}</span>
+          </Label>
+          <Switch
+            id={`rule-${rule.key}`}
+            checked={value[rule.key]}
+            onCheckedChange={(checked) => onChange({ ...value, [rule.key]: checked })}
+          />
+        </div>
+      ))}
+      <div>
+        <Label htmlFor="rule-synonyms" className="text-sm text-gray-600">Synonyms</Label>
+        <Textarea
+          id="rule-synonyms"
+          value={synonymsText}
+          onChange={(e) => handleSynonymsChange(e.target.value)}
+          placeholder={'One group per line, e.g.\nH2O, water\nmitochondria, mitochondrion'}
+          rows={3}
+          className="text-sm"
+        />
+      </div>
+    </div>
+  );
+}
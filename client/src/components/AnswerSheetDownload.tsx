@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQuery } from '@tanstack/react-query';
+import { Class } from '@/types';
+
+interface AnswerSheetDownloadProps {
+  testId: number;
+}
+
+export function AnswerSheetDownload({ testId }: AnswerSheetDownloadProps) {
+  const [classId, setClassId] = useState<string>('blank');
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes']
+  });
+
+  // A plain link lets the browser handle the PDF download itself
+  const href = classId === 'blank'
+    ? `/api/tests/${testId}/answer-sheet`
+    : `/api/tests/${testId}/answer-sheet?classId=${classId}`;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5">
+      <h3 className="text-sm font-medium text-gray-700 mb-1">Printable Answer Sheet</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Bubble sheets for this test, readable by the local OMR engine. Print one per student to have names and IDs filled in.
+      </p>
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <Label htmlFor="answer-sheet-class" className="text-xs">Sheets for</Label>
+          <Select value={classId} onValueChange={setClassId}>
+            <SelectTrigger id="answer-sheet-class">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="blank">One blank sheet</SelectItem>
+              {classes.map((cls) => (
+                <SelectItem key={cls.id} value={cls.id.toString()}>
+                  Each student in {cls.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button asChild variant="outline">
+          <a href={href} download>
+            <span className="material-icons mr-1 text-sm">download</span>
+            Download PDF
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
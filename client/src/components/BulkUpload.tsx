@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { watchIngest } from '@/lib/jobs';
+import { BulkUploadGrouping, IngestProgress, IngestStatus, Test } from '@/types';
+
+interface BulkUploadProps {
+  test: Test;
+}
+
+const STATUS_LABELS: Record<IngestStatus, string> = {
+  splitting: 'Splitting file into pages',
+  routing: 'Filing pages under papers',
+  processing: 'Reading answers',
+  grading: 'Grading papers',
+  completed: 'Done',
+  failed: 'Failed'
+};
+
+/**
+ * How far along an upload is, counting each page once for filing and once for reading
+ * @param progress Upload snapshot
+ * @returns Percentage complete
+ */
+function ingestPercentage(progress: IngestProgress): number {
+  if (progress.status === 'completed' || progress.status === 'failed') return 100;
+  if (progress.totalPages === 0) return 0;
+  const filed = progress.routedPages + progress.triagedPages + progress.failedPages;
+  return Math.round(((filed + progress.processedPages) / (progress.totalPages * 2)) * 100);
+}
+
+export function BulkUpload({ test }: BulkUploadProps) {
+  const [grouping, setGrouping] = useState<BulkUploadGrouping>('markers');
+  const [pagesPerSubmission, setPagesPerSubmission] = useState('1');
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const isRunning = isUploading || (!!progress && progress.status !== 'completed' && progress.status !== 'failed');
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setProgress(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('grouping', grouping);
+      if (grouping === 'page_count') {
+        formData.append('pagesPerSubmission', pagesPerSubmission);
+      }
+
+      const res = await fetch(`/api/tests/${test.id}/bulk-upload`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.errors?.pagesPerSubmission?._errors?.[0] ?? data.errors?._errors?.[0] ?? data.message ?? res.statusText);
+      }
+      setProgress(data as IngestProgress);
+      setIsUploading(false);
+
+      const final = await watchIngest(data.id, setProgress);
+
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${test.id}/submissions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/review'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/triage'] });
+
+      if (final.status === 'failed') {
+        toast({
+          title: 'Bulk upload failed',
+          description: final.errors[final.errors.length - 1],
+          variant: 'destructive'
+        });
+      } else {
+        toast({
+          title: 'Bulk upload finished',
+          description: `${final.gradedSubmissions} paper${final.gradedSubmissions === 1 ? '' : 's'} graded, ${final.heldForReview} held for review, ${final.triagedPages} page${final.triagedPages === 1 ? '' : 's'} sent to triage.`
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Bulk upload failed',
+        description: error instanceof Error ? error.message : 'Could not upload the file.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Bulk Upload</h3>
+        <p className="text-xs text-gray-500">
+          Upload a multi-page PDF from a scanner, or a ZIP of JPEG/PNG scans, and every paper in it is filed and graded.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor="bulk-grouping" className="text-xs">Split into papers by</Label>
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as BulkUploadGrouping)}>
+            <SelectTrigger id="bulk-grouping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="markers">QR codes on the sheets</SelectItem>
+              <SelectItem value="page_count">Fixed pages per paper</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {grouping === 'page_count' && (
+          <div>
+            <Label htmlFor="bulk-pages" className="text-xs">Pages per paper</Label>
+            <Input
+              id="bulk-pages"
+              type="number"
+              min={1}
+              max={100}
+              value={pagesPerSubmission}
+              onChange={(e) => setPagesPerSubmission(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <input
+          type="file"
+          accept=".pdf,.zip,application/pdf,application/zip"
+          id="bulk-upload"
+          className="hidden"
+          onChange={handleFile}
+          disabled={isRunning}
+        />
+        <label htmlFor="bulk-upload">
+          <Button variant="outline" className="cursor-pointer" disabled={isRunning} asChild>
+            <span>
+              <span className="material-icons mr-1 text-sm">upload_file</span>
+              {isUploading ? 'Uploading...' : 'Upload PDF or ZIP'}
+            </span>
+          </Button>
+        </label>
+      </div>
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>{progress.fileName}: {STATUS_LABELS[progress.status]}</span>
+            <span>
+              {progress.status === 'splitting' ? `${progress.splitPages} pages split` : `${progress.totalPages} pages`}
+            </span>
+          </div>
+          <Progress value={ingestPercentage(progress)} className="h-2" />
+          <p className="text-xs text-gray-500">
+            {progress.routedPages} filed, {progress.triagedPages} sent to triage, {progress.failedPages} unreadable
+            {progress.jobId !== null && ` · ${progress.processedPages} read`}
+            {progress.submissionIds.length > 0 && ` · ${progress.gradedSubmissions} of ${progress.submissionIds.length} papers graded`}
+          </p>
+          {progress.errors.length > 0 && (
+            <ul className="text-xs text-red-600 list-disc pl-4 max-h-24 overflow-y-auto">
+              {progress.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
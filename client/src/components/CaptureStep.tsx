@@ -1,27 +1,42 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { SimpleWebcam } from '@/components/ui/simple-webcam';
 import { useTestGrader } from '@/context/TestGraderContext';
 import { useTestGraderActions } from '@/hooks/use-test-grader';
 import { useToast } from '@/hooks/use-toast';
 import { dataURLtoBlob } from '@/lib/utils';
+import { apiRequest } from '@/lib/queryClient';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { MarkSchemePreview } from './MarkSchemePreview';
+import { StudentPicker } from './StudentPicker';
+import { BulkUpload } from './BulkUpload';
 
 export default function CaptureStep() {
   const [isCapturing, setIsCapturing] = useState(true);
   const { toast } = useToast();
   const isMobile = useIsMobile();
-  const { capturedPages, currentTest, setStep, removeCapturedPage, markScheme } = useTestGrader();
-  const { captureImageMutation } = useTestGraderActions();
+  const { capturedPages, currentTest, currentSubmission, setStep, removeCapturedPage, markScheme } = useTestGrader();
+  const { captureImageMutation, startSubmissionMutation } = useTestGraderActions();
   const { clearCapturedPages } = useTestGrader();
 
+  // Every captured page belongs to a submission, so open one for this test if needed
+  useEffect(() => {
+    if (
+      currentTest?.id &&
+      currentSubmission?.testId !== currentTest.id &&
+      !startSubmissionMutation.isPending &&
+      !startSubmissionMutation.isError
+    ) {
+      startSubmissionMutation.mutate(currentTest.id);
+    }
+  }, [currentTest, currentSubmission, startSubmissionMutation]);
+
   // Handle image capture
   const handleCapture = useCallback((imageData: string) => {
-    if (!currentTest?.id) {
+    if (!currentTest?.id || !currentSubmission) {
       toast({
         title: 'Error',
-        description: 'No active test',
+        description: 'No active test or paper',
         variant: 'destructive'
       });
       return;
@@ -36,7 +51,8 @@ export default function CaptureStep() {
     captureImageMutation.mutate({
       imageData,
       pageNumber: capturedPages.length + 1,
-      testId: currentTest.id
+      testId: currentTest.id,
+      submissionId: currentSubmission.id
     }, {
       onSuccess: () => {
         // Success toast shown by the mutation already
@@ -49,12 +65,12 @@ export default function CaptureStep() {
         });
       }
     });
-  }, [captureImageMutation, capturedPages.length, currentTest, toast]);
+  }, [captureImageMutation, capturedPages.length, currentTest, currentSubmission, toast]);
 
   // Handle file upload from gallery
   const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
-    if (files.length === 0 || !currentTest?.id) return;
+    if (files.length === 0 || !currentTest?.id || !currentSubmission) return;
 
     toast({
       title: 'Loading images...',
@@ -68,7 +84,8 @@ export default function CaptureStep() {
         captureImageMutation.mutate({
           imageData,
           pageNumber: capturedPages.length + index + 1,
-          testId: currentTest.id!
+          testId: currentTest.id!,
+          submissionId: currentSubmission.id
         });
       };
 
@@ -85,7 +102,7 @@ export default function CaptureStep() {
 
     // Reset the input value so the same file can be selected again
     event.target.value = '';
-  }, [captureImageMutation, capturedPages.length, currentTest, toast]);
+  }, [captureImageMutation, capturedPages.length, currentTest, currentSubmission, toast]);
 
   // Handle delete image
   const handleDeleteImage = useCallback((pageNumber: number) => {
@@ -96,6 +113,13 @@ export default function CaptureStep() {
     if (confirm(`Are you sure you want to delete page ${pageNumber}?`)) {
       removeCapturedPage(pageNumber);
 
+      // Remove it server-side too so it isn't graded as part of the paper
+      if (page.id) {
+        apiRequest('DELETE', `/api/pages/${page.id}`).catch(error => {
+          console.error(`Error deleting page ${page.id}:`, error);
+        });
+      }
+
       toast({
         title: 'Page deleted',
         description: `Page ${pageNumber} has been removed.`,
@@ -139,6 +163,11 @@ export default function CaptureStep() {
         <MarkSchemePreview />
       </div>
 
+      {/* Student assignment for this paper */}
+      <div className="mb-5">
+        <StudentPicker />
+      </div>
+
       {/* Camera visibility toggle */}
       <div className="flex justify-end mb-3">
         <Button
@@ -173,7 +202,12 @@ export default function CaptureStep() {
       {/* Captured Images */}
       <div className="mb-5">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-sm font-medium text-gray-700">Captured Pages</h3>
+          <h3 className="text-sm font-medium text-gray-700">
+            Captured Pages
+            {currentSubmission && (
+              <span className="ml-2 text-xs font-normal text-gray-500">{currentSubmission.label}</span>
+            )}
+          </h3>
           <span className="text-xs text-gray-500">{capturedPages.length} pages</span>
         </div>
 
@@ -235,6 +269,13 @@ export default function CaptureStep() {
               className="ml-3 bg-red-100 hover:bg-red-200 text-red-600"
               onClick={() => {
                 if (confirm('Are you sure you want to delete all captured images?')) {
+                  capturedPages.forEach(page => {
+                    if (page.id) {
+                      apiRequest('DELETE', `/api/pages/${page.id}`).catch(error => {
+                        console.error(`Error deleting page ${page.id}:`, error);
+                      });
+                    }
+                  });
                   clearCapturedPages();
                   toast({
                     title: 'Images cleared',
@@ -250,6 +291,9 @@ export default function CaptureStep() {
         </div>
       </div>
 
+      {/* Whole-class scans: each paper gets its own submission, so this doesn't touch the pages above */}
+      {currentTest && <BulkUpload test={currentTest} />}
+
       <div className="flex justify-between">
         <Button
           onClick={handleBack}
@@ -261,7 +305,7 @@ export default function CaptureStep() {
         </Button>
         <Button
           onClick={handleNext}
-          disabled={capturedPages.length === 0 || captureImageMutation.isPending}
+          disabled={capturedPages.length === 0 || captureImageMutation.isPending || !currentSubmission}
           className="bg-primary hover:bg-primary-dark text-white"
         >
           Next
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTestGrader } from '@/context/TestGraderContext';
+import { CurveMethod, GradingScale, Test } from '@/types';
+
+interface GradingScaleSettingsProps {
+  test: Test;
+}
+
+// Boundaries are kept as typed until the scale is saved
+interface DraftBoundary {
+  grade: string;
+  minPercentage: string;
+}
+
+const DEFAULT_SCALE: GradingScale = {
+  boundaries: [],
+  curve: 'none',
+  targetMean: 75
+};
+
+// A common starting point teachers can adjust
+const PRESET_BOUNDARIES: DraftBoundary[] = [
+  { grade: 'A', minPercentage: '80' },
+  { grade: 'B', minPercentage: '70' },
+  { grade: 'C', minPercentage: '60' },
+  { grade: 'D', minPercentage: '50' },
+  { grade: 'F', minPercentage: '0' }
+];
+
+const CURVE_OPTIONS: { value: CurveMethod; label: string }[] = [
+  { value: 'none', label: 'No curve' },
+  { value: 'linear', label: 'Scale to a target mean' },
+  { value: 'square_root', label: 'Square root (10 × √score)' },
+  { value: 'top_score', label: 'Top score becomes 100%' }
+];
+
+export function GradingScaleSettings({ test }: GradingScaleSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { setCurrentTest } = useTestGrader();
+  const initial = { ...DEFAULT_SCALE, ...test.gradingScale };
+  const [curve, setCurve] = useState<CurveMethod>(initial.curve);
+  const [targetMean, setTargetMean] = useState(String(initial.targetMean));
+  const [boundaries, setBoundaries] = useState<DraftBoundary[]>(
+    initial.boundaries.map(boundary => ({ grade: boundary.grade, minPercentage: String(boundary.minPercentage) }))
+  );
+
+  const saveScaleMutation = useMutation({
+    mutationFn: async (scale: GradingScale) => {
+      const res = await apiRequest('PUT', `/api/tests/${test.id}/grading-scale`, scale);
+      return res.json() as Promise<{ test: Test; warning: string | null }>;
+    },
+    onSuccess: (data) => {
+      setCurrentTest(data.test);
+      queryClient.invalidateQueries({ queryKey: ['/api/tests'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${test.id}/submissions`] });
+      toast({
+        title: 'Grading scale saved',
+        description: data.warning
+          ? `${data.warning}. Scores were scaled as close to the target as they can go.`
+          : 'Scaled scores and letter grades were updated for every graded paper.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving grading scale',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const updateBoundary = (index: number, changes: Partial<DraftBoundary>) => {
+    setBoundaries(boundaries.map((boundary, i) => i === index ? { ...boundary, ...changes } : boundary));
+  };
+
+  const handleSave = () => {
+    const parsed = boundaries
+      .filter(boundary => boundary.grade.trim() !== '')
+      .map(boundary => ({ grade: boundary.grade.trim(), minPercentage: Number(boundary.minPercentage) }));
+    const invalid = parsed.find(boundary => isNaN(boundary.minPercentage) || boundary.minPercentage < 0 || boundary.minPercentage > 100);
+    if (invalid) {
+      toast({
+        title: `Grade ${invalid.grade} needs fixing`,
+        description: 'The minimum must be a percentage from 0 to 100.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    saveScaleMutation.mutate({
+      boundaries: parsed.sort((a, b) => b.minPercentage - a.minPercentage),
+      curve,
+      targetMean: Number(targetMean) || DEFAULT_SCALE.targetMean
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Grading Scale</h3>
+        <p className="text-xs text-gray-500">
+          Curve the percentages and turn them into letter grades. Raw scores are always kept.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="curve-method" className="text-xs">Curve</Label>
+          <Select value={curve} onValueChange={(value) => setCurve(value as CurveMethod)}>
+            <SelectTrigger id="curve-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURVE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {curve === 'linear' && (
+          <div>
+            <Label htmlFor="target-mean" className="text-xs">Target mean (%)</Label>
+            <Input
+              id="target-mean"
+              type="number"
+              min={1}
+              max={100}
+              value={targetMean}
+              onChange={(e) => setTargetMean(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <Label className="text-xs">Grade boundaries</Label>
+          {boundaries.length === 0 && (
+            <button
+              onClick={() => setBoundaries(PRESET_BOUNDARIES)}
+              className="text-xs text-primary hover:underline"
+            >
+              Use A–F
+            </button>
+          )}
+        </div>
+        {boundaries.length === 0 && (
+          <p className="text-xs text-gray-500">No letter grades. Add a boundary to start.</p>
+        )}
+        <div className="space-y-2">
+          {boundaries.map((boundary, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={boundary.grade}
+                onChange={(e) => updateBoundary(index, { grade: e.target.value })}
+                placeholder="Grade"
+                className="h-8 w-20"
+                aria-label="Grade"
+              />
+              <span className="text-sm text-gray-500">from</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={boundary.minPercentage}
+                onChange={(e) => updateBoundary(index, { minPercentage: e.target.value })}
+                className="h-8 w-20"
+                aria-label="Minimum percentage"
+              />
+              <span className="text-sm text-gray-500">%</span>
+              <button
+                onClick={() => setBoundaries(boundaries.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove grade"
+              >
+                <span className="material-icons text-base">delete</span>
+              </button>
+            </div>
+          ))}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2"
+          onClick={() => setBoundaries([...boundaries, { grade: '', minPercentage: '' }])}
+        >
+          <span className="material-icons text-base mr-1">add</span>
+          Add Grade
+        </Button>
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={saveScaleMutation.isPending}>
+          {saveScaleMutation.isPending ? 'Saving...' : 'Save Scale'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
 import { useTestGrader } from '@/context/TestGraderContext';
+import { TriageDialog } from './TriageDialog';
+import { ReviewQueueDialog } from './ReviewQueueDialog';
+import { ReviewQueueEntry, TriagePage } from '@/types';
 
 interface HeaderProps {
   onSettingsClick: () => void;
@@ -7,6 +12,16 @@ interface HeaderProps {
 
 export function Header({ onSettingsClick }: HeaderProps) {
   const { currentTest } = useTestGrader();
+  const [triageOpen, setTriageOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  
+  const { data: triagePages = [] } = useQuery<TriagePage[]>({
+    queryKey: ['/api/triage']
+  });
+  
+  const { data: reviewQueue = [] } = useQuery<ReviewQueueEntry[]>({
+    queryKey: ['/api/review']
+  });
   
   return (
     <header className="bg-white shadow-md">
@@ -20,13 +35,50 @@ export function Header({ onSettingsClick }: HeaderProps) {
             </span>
           )}
         </div>
-        <button 
-          onClick={onSettingsClick}
-          className="text-gray-600 hover:text-primary focus:outline-none"
-        >
-          <span className="material-icons">settings</span>
-        </button>
+        <div className="flex items-center gap-4">
+          {currentTest?.id && (
+            <Link
+              href={`/tests/${currentTest.id}/analytics`}
+              className="text-gray-600 hover:text-primary focus:outline-none"
+              title="Test analytics"
+            >
+              <span className="material-icons">insights</span>
+            </Link>
+          )}
+          {reviewQueue.length > 0 && (
+            <button
+              onClick={() => setReviewOpen(true)}
+              className="relative text-gray-600 hover:text-primary focus:outline-none"
+              title="Papers waiting for review"
+            >
+              <span className="material-icons">rate_review</span>
+              <span className="absolute -top-1 -right-2 bg-amber-500 text-white text-xs rounded-full px-1">
+                {reviewQueue.length}
+              </span>
+            </button>
+          )}
+          {triagePages.length > 0 && (
+            <button
+              onClick={() => setTriageOpen(true)}
+              className="relative text-gray-600 hover:text-primary focus:outline-none"
+              title="Pages waiting for triage"
+            >
+              <span className="material-icons">move_to_inbox</span>
+              <span className="absolute -top-1 -right-2 bg-red-500 text-white text-xs rounded-full px-1">
+                {triagePages.length}
+              </span>
+            </button>
+          )}
+          <button 
+            onClick={onSettingsClick}
+            className="text-gray-600 hover:text-primary focus:outline-none"
+          >
+            <span className="material-icons">settings</span>
+          </button>
+        </div>
       </div>
+      <TriageDialog open={triageOpen} onOpenChange={setTriageOpen} />
+      <ReviewQueueDialog open={reviewOpen} onOpenChange={setReviewOpen} />
     </header>
   );
 }
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQuery } from '@tanstack/react-query';
+import { LmsAdapterInfo, LmsExportPreview, Test } from '@/types';
+
+interface LmsExportProps {
+  test: Test;
+}
+
+type ScoreField = 'points' | 'percentage' | 'scaled';
+
+export function LmsExport({ test }: LmsExportProps) {
+  const [adapterId, setAdapterId] = useState('canvas');
+  const [assignmentName, setAssignmentName] = useState(test.name);
+  const [score, setScore] = useState<ScoreField>('points');
+  const [emailDomain, setEmailDomain] = useState('');
+
+  const { data: adapters = [] } = useQuery<LmsAdapterInfo[]>({
+    queryKey: ['/api/lms-adapters']
+  });
+  const adapter = adapters.find(item => item.id === adapterId);
+
+  const params = new URLSearchParams({ score });
+  if (assignmentName.trim()) params.set('assignmentName', assignmentName.trim());
+  if (adapter?.needsEmailDomain && emailDomain.trim()) params.set('emailDomain', emailDomain.trim());
+  const href = `/api/tests/${test.id}/lms-export/${adapterId}?${params.toString()}`;
+
+  // Check who the LMS will be able to match before the teacher downloads the file
+  const { data: preview, error } = useQuery<LmsExportPreview>({
+    queryKey: [`${href}&preview=true`],
+    enabled: !!adapter
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Export to LMS</h3>
+        <p className="text-xs text-gray-500">
+          {adapter?.description ?? 'A file your LMS gradebook can import as it is.'}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="lms-adapter" className="text-xs">LMS</Label>
+          <Select value={adapterId} onValueChange={setAdapterId}>
+            <SelectTrigger id="lms-adapter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {adapters.map(item => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="lms-assignment" className="text-xs">Assignment name</Label>
+          <Input
+            id="lms-assignment"
+            value={assignmentName}
+            onChange={(e) => setAssignmentName(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="lms-score" className="text-xs">Score to send</Label>
+          <Select value={score} onValueChange={(value) => setScore(value as ScoreField)}>
+            <SelectTrigger id="lms-score">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="points">Points</SelectItem>
+              <SelectItem value="percentage">Raw percentage</SelectItem>
+              <SelectItem value="scaled">Scaled percentage</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {adapter?.needsEmailDomain && (
+        <div className="md:w-1/3">
+          <Label htmlFor="lms-email-domain" className="text-xs">School email domain</Label>
+          <Input
+            id="lms-email-domain"
+            value={emailDomain}
+            onChange={(e) => setEmailDomain(e.target.value)}
+            placeholder="school.org"
+          />
+        </div>
+      )}
+      {adapter && (
+        <p className="text-xs text-gray-500">Students are matched by {adapter.identifier}.</p>
+      )}
+      {error && (
+        <p className="text-xs text-red-600">{error instanceof Error ? error.message : 'Could not check the export'}</p>
+      )}
+      {preview && preview.skipped.length > 0 && (
+        <p className="text-xs text-amber-600">
+          Left out because the LMS couldn't match them: {preview.skipped.join(', ')}
+        </p>
+      )}
+      <div className="flex items-center justify-end gap-3">
+        {preview && <span className="text-xs text-gray-500">{preview.exported} students</span>}
+        <Button asChild variant="outline" size="sm">
+          <a href={href} download>
+            <span className="material-icons mr-1 text-sm">download</span>
+            Download for {adapter?.name ?? 'LMS'}
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTestGrader } from '@/context/TestGraderContext';
+import { markSchemeRowSchema } from '@shared/schema';
+import { MarkSchemeEntry, QuestionType, Test } from '@/types';
+
+interface MarkSchemeEditorProps {
+  test: Test;
+}
+
+// One row of the grid; numbers are kept as typed until the key is saved
+interface DraftRow {
+  questionNumber: string;
+  questionType: QuestionType;
+  expectedAnswer: string;
+  tolerance: string;
+  points: string;
+  rubric: MarkSchemeEntry['rubric'];
+  counts: 'normal' | 'voided' | 'bonus';
+}
+
+const QUESTION_TYPE_OPTIONS: { value: QuestionType; label: string }[] = [
+  { value: 'single_choice', label: 'Single choice' },
+  { value: 'multi_select', label: 'Multi-select' },
+  { value: 'true_false', label: 'True/false' },
+  { value: 'numeric', label: 'Numeric' },
+  { value: 'short_text', label: 'Short text' },
+  { value: 'written', label: 'Written (rubric)' }
+];
+
+/**
+ * Turn stored mark scheme entries into editable rows
+ * @param markScheme Entries for the test
+ * @returns Rows in question order
+ */
+function toDraftRows(markScheme: MarkSchemeEntry[]): DraftRow[] {
+  return [...markScheme]
+    .sort((a, b) => a.questionNumber - b.questionNumber)
+    .map(entry => ({
+      questionNumber: String(entry.questionNumber),
+      questionType: entry.questionType ?? 'single_choice',
+      expectedAnswer: entry.expectedAnswer,
+      tolerance: entry.tolerance ? String(entry.tolerance) : '',
+      points: String(entry.points),
+      rubric: entry.rubric ?? null,
+      counts: entry.voided ? 'voided' : entry.bonus ? 'bonus' : 'normal'
+    }));
+}
+
+export function MarkSchemeEditor({ test }: MarkSchemeEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { markScheme, setMarkScheme, setCurrentTest } = useTestGrader();
+  const [rows, setRows] = useState<DraftRow[]>(() => toDraftRows(markScheme));
+  const [dirty, setDirty] = useState(false);
+
+  // Pick up mark schemes loaded from Excel or the server
+  useEffect(() => {
+    setRows(toDraftRows(markScheme));
+    setDirty(false);
+  }, [markScheme]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: unknown[]) => {
+      const res = await apiRequest('PUT', `/api/mark-scheme/${test.id}`, data);
+      return res.json() as Promise<{ entries: MarkSchemeEntry[]; test: Test }>;
+    },
+    onSuccess: (data) => {
+      setMarkScheme(data.entries);
+      setCurrentTest(data.test);
+      queryClient.invalidateQueries({ queryKey: [`/api/mark-scheme/${test.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/mark-scheme/${test.id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tests'] });
+      toast({
+        title: 'Mark scheme saved',
+        description: `${data.entries.length} questions, ${data.test.totalPoints} points in total.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving mark scheme',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const updateRow = (index: number, changes: Partial<DraftRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+    setDirty(true);
+  };
+
+  const addRow = () => {
+    const lastNumber = rows.reduce((max, row) => Math.max(max, parseInt(row.questionNumber) || 0), 0);
+    const previousType = rows.length > 0 ? rows[rows.length - 1].questionType : 'single_choice';
+    setRows([...rows, {
+      questionNumber: String(lastNumber + 1),
+      questionType: previousType,
+      expectedAnswer: '',
+      tolerance: '',
+      points: '1',
+      rubric: null,
+      counts: 'normal'
+    }]);
+    setDirty(true);
+  };
+
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = () => {
+    // Check every row before sending, so mistakes are reported against the question they're in
+    const data = [];
+    for (const row of rows) {
+      const isLetterKey = row.questionType === 'single_choice' || row.questionType === 'multi_select';
+      const result = markSchemeRowSchema.safeParse({
+        questionNumber: Number(row.questionNumber),
+        expectedAnswer: isLetterKey ? row.expectedAnswer.trim().toUpperCase() : row.expectedAnswer.trim(),
+        points: Number(row.points),
+        questionType: row.questionType,
+        tolerance: row.questionType === 'numeric' && row.tolerance.trim() ? Number(row.tolerance) : null,
+        rubric: row.questionType === 'written' ? row.rubric : null,
+        voided: row.counts === 'voided',
+        bonus: row.counts === 'bonus'
+      });
+      if (!result.success) {
+        toast({
+          title: `Question ${row.questionNumber || '?'} needs fixing`,
+          description: result.error.errors[0]?.message ?? 'Invalid question',
+          variant: 'destructive'
+        });
+        return;
+      }
+      data.push(result.data);
+    }
+    saveMutation.mutate(data);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden mb-5">
+      <div className="bg-gray-50 p-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Answer Key</h3>
+          <p className="text-xs text-gray-500">
+            Type or correct the key here. Separate alternative answers with "|".
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={addRow}>
+          <span className="material-icons text-base mr-1">add</span>
+          Add Question
+        </Button>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="px-3 py-2 w-20 text-xs font-medium text-gray-500 uppercase">Q #</TableHead>
+              <TableHead className="px-3 py-2 w-40 text-xs font-medium text-gray-500 uppercase">Type</TableHead>
+              <TableHead className="px-3 py-2 text-xs font-medium text-gray-500 uppercase">Expected Answer</TableHead>
+              <TableHead className="px-3 py-2 w-20 text-xs font-medium text-gray-500 uppercase">Points</TableHead>
+              <TableHead className="px-3 py-2 w-32 text-xs font-medium text-gray-500 uppercase">Counts</TableHead>
+              <TableHead className="px-3 py-2 w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length > 0 ? rows.map((row, index) => (
+              <TableRow key={index}>
+                <TableCell className="px-3 py-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={row.questionNumber}
+                    onChange={(e) => updateRow(index, { questionNumber: e.target.value })}
+                    className="h-8"
+                    aria-label="Question number"
+                  />
+                </TableCell>
+                <TableCell className="px-3 py-1">
+                  <Select
+                    value={row.questionType}
+                    onValueChange={(value) => updateRow(index, { questionType: value as QuestionType })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUESTION_TYPE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="px-3 py-1">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      value={row.expectedAnswer}
+                      onChange={(e) => updateRow(index, { expectedAnswer: e.target.value })}
+                      placeholder={row.questionType === 'written' ? 'Model answer' : 'e.g. B'}
+                      className="h-8"
+                      aria-label="Expected answer"
+                    />
+                    {row.questionType === 'numeric' && (
+                      <>
+                        <span className="text-sm text-gray-500">±</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={row.tolerance}
+                          onChange={(e) => updateRow(index, { tolerance: e.target.value })}
+                          className="h-8 w-20"
+                          aria-label="Tolerance"
+                        />
+                      </>
+                    )}
+                  </div>
+                  {row.questionType === 'written' && row.rubric && row.rubric.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Rubric: {row.rubric.map(criterion => `${criterion.description} (${criterion.points})`).join('; ')}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="px-3 py-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={row.points}
+                    onChange={(e) => updateRow(index, { points: e.target.value })}
+                    className="h-8"
+                    aria-label="Points"
+                  />
+                </TableCell>
+                <TableCell className="px-3 py-1">
+                  <Select
+                    value={row.counts}
+                    onValueChange={(value) => updateRow(index, { counts: value as DraftRow['counts'] })}
+                  >
+                    <SelectTrigger className="h-8" aria-label="How the question counts">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="normal">Normally</SelectItem>
+                      <SelectItem value="voided">Voided</SelectItem>
+                      <SelectItem value="bonus">As bonus</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="px-3 py-1">
+                  <button
+                    onClick={() => removeRow(index)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove question"
+                  >
+                    <span className="material-icons text-base">delete</span>
+                  </button>
+                </TableCell>
+              </TableRow>
+            )) : (
+              <TableRow>
+                <TableCell colSpan={6} className="px-4 py-3 text-sm text-gray-500 text-center">
+                  No questions yet. Upload a spreadsheet or add questions by hand.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="p-3 border-t border-gray-200 flex items-center justify-end gap-2">
+        {dirty && <span className="text-xs text-amber-600">Unsaved changes</span>}
+        <Button size="sm" onClick={handleSave} disabled={!dirty || saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : 'Save Answer Key'}
+        </Button>
+      </div>
+    </div>
+  );
+}
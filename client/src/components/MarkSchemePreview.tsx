@@ -1,9 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { Badge } from '@/components/ui/badge';
-import { MarkSchemeEntry } from '@/types';
+import { MarkSchemeEntry, QuestionType } from '@/types';
 import { useTestGrader } from '@/context/TestGraderContext';
 import { parseExcelWithColumnMap } from '@/lib/utils';
 
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multi_select: 'Multi-select',
+  true_false: 'True/false',
+  numeric: 'Numeric',
+  short_text: 'Short text',
+  written: 'Written (rubric)'
+};
+
 interface MarkSchemePreviewProps {
   markScheme?: MarkSchemeEntry[];
   className?: string;
@@ -158,6 +167,7 @@ export function MarkSchemePreview({
             <thead className="bg-gray-50">
               <tr>
                 <th className="px-2 py-1 text-left font-medium text-gray-500">Q#</th>
+                <th className="px-2 py-1 text-left font-medium text-gray-500">Type</th>
                 <th className="px-2 py-1 text-left font-medium text-gray-500">Answer</th>
                 <th className="px-2 py-1 text-right font-medium text-gray-500">Points</th>
               </tr>
@@ -166,7 +176,20 @@ export function MarkSchemePreview({
               {markScheme.map((entry) => (
                 <tr key={entry.questionNumber} className="hover:bg-gray-50">
                   <td className="px-2 py-1">{entry.questionNumber}</td>
-                  <td className="px-2 py-1 font-medium">{entry.expectedAnswer || '—'}</td>
+                  <td className="px-2 py-1 text-gray-500">{QUESTION_TYPE_LABELS[entry.questionType ?? 'single_choice']}</td>
+                  <td className="px-2 py-1 font-medium">
+                    {entry.expectedAnswer || '—'}
+                    {entry.tolerance ? ` ± ${entry.tolerance}` : ''}
+                    {entry.voided && <span className="ml-1 font-normal text-gray-400">(voided)</span>}
+                    {entry.bonus && <span className="ml-1 font-normal text-amber-600">(bonus)</span>}
+                    {entry.rubric && entry.rubric.length > 0 && (
+                      <ul className="font-normal text-gray-500">
+                        {entry.rubric.map((criterion, index) => (
+                          <li key={index}>{criterion.description} ({criterion.points})</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
                   <td className="px-2 py-1 text-right">{entry.points}</td>
                 </tr>
               ))}
@@ -16,6 +16,7 @@ import { FileInput } from '@/components/ui/file-input';
 import { useTestGrader } from '@/context/TestGraderContext';
 import { useTestGraderActions } from '@/hooks/use-test-grader';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { 
   Dialog,
   DialogContent,
@@ -34,8 +35,17 @@ import {
   SelectValue
 } from '@/components/ui/select';
 import { parseExcelForPreview, parseExcelWithColumnMap } from '@/lib/utils';
-import { ExcelColumnMap, markSchemeRowSchema } from '@shared/schema';
-import { MarkSchemeEntry } from '@/types';
+import { detectMarkSchemeFormat, IMPORTED_COLUMNS, MARK_SCHEME_FILE_ACCEPT } from '@/lib/mark-scheme-formats';
+import { ExcelColumnMap, markSchemeRowSchema, defaultAnswerRules } from '@shared/schema';
+import { AnswerRules, ColumnMappingProfile, MarkSchemeEntry, Test } from '@/types';
+import { AnswerRulesFields } from './AnswerRulesFields';
+import { AnswerSheetDownload } from './AnswerSheetDownload';
+import { ScoringPolicySettings } from './ScoringPolicySettings';
+import { GradingScaleSettings } from './GradingScaleSettings';
+import { MarkSchemeEditor } from './MarkSchemeEditor';
+import { RegradePanel } from './RegradePanel';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 
 export default function MarkSchemeStep() {
   // State hooks
@@ -48,6 +58,13 @@ export default function MarkSchemeStep() {
     expectedAnswerCol: 'none',
     pointsCol: 'none'
   });
+  const [answerRules, setAnswerRules] = useState<AnswerRules>(defaultAnswerRules);
+  // Sheets of an uploaded workbook, and the one the mark scheme is read from
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState<string | null>(null);
+  // Saved mapping profile for the file's headers, and the name to save the mapping under
+  const [matchedProfile, setMatchedProfile] = useState<ColumnMappingProfile | null>(null);
+  const [profileName, setProfileName] = useState('');
 
   // Initialize context column mapping and show create test dialog if needed
   useEffect(() => {
@@ -60,6 +77,7 @@ export default function MarkSchemeStep() {
 
   // Access hooks
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { 
     markScheme, 
     currentTest, 
@@ -71,7 +89,8 @@ export default function MarkSchemeStep() {
     setExcelPreviewData,
     setExcelColumns,
     setColumnMap,
-    setMarkScheme
+    setMarkScheme,
+    setCurrentTest
   } = useTestGrader();
   const { 
     uploadMarkSchemeMutation, 
@@ -87,6 +106,83 @@ export default function MarkSchemeStep() {
     }
   }, [testMarkScheme]);
 
+  // Look up the profile saved for a file's headers; if the lookup fails the columns are just mapped by hand
+  const findMappingProfile = useCallback(async (columns: string[]): Promise<ColumnMappingProfile | null> => {
+    try {
+      const response = await apiRequest('POST', '/api/column-mapping-profiles/match', { columns });
+      const { profile } = await response.json() as { profile: ColumnMappingProfile | null };
+      return profile;
+    } catch (error) {
+      console.warn("Could not look up a column mapping profile:", error);
+      return null;
+    }
+  }, []);
+
+  // Read the mark scheme with a column mapping, show it and store it with the current test
+  // Returns the number of questions loaded, or null if the file couldn't be read with the mapping
+  const importMarkScheme = useCallback(async (
+    source: File,
+    mapping: ExcelColumnMap,
+    sheet: string | null
+  ): Promise<number | null> => {
+    if (!currentTest) return null;
+
+    // Parse Excel with the column mapping and immediately use the parsed data
+    try {
+      const parsedData = await parseExcelWithColumnMap(source, mapping, sheet) as MarkSchemeEntry[];
+      console.log("Successfully parsed Excel data:", parsedData);
+
+      if (!parsedData || parsedData.length === 0) {
+        throw new Error("No valid data was parsed from the Excel file.");
+      }
+
+      // Store the parsed data directly in the context 
+      // This skips the server roundtrip and potential issues
+      setMarkScheme(parsedData);
+
+      // Still send to server for storage, but don't depend on response for UI
+      try {
+        // Create a FormData object to send to the server
+        const formData = new FormData();
+        formData.append('file', source);
+        formData.append('testId', currentTest.id!.toString());
+        formData.append('markSchemeData', JSON.stringify(parsedData));
+        formData.append('answerRules', JSON.stringify(answerRules));
+
+        // Send the FormData to the server in the background
+        const response = await fetch('/api/mark-scheme', {
+          method: 'POST',
+          body: formData,
+        });
+
+        if (!response.ok) {
+          console.warn("Server storage failed, but we're still using the data:", await response.text());
+        } else {
+          // Use the stored entries so the editor can change them, and the test's new totals
+          const stored = await response.json() as { entries: MarkSchemeEntry[]; test?: Test };
+          setMarkScheme(stored.entries);
+          if (stored.test) {
+            setCurrentTest(stored.test);
+          }
+          queryClient.invalidateQueries({ queryKey: [`/api/mark-scheme/${currentTest.id}/versions`] });
+          console.log("Successfully stored mark scheme on server");
+        }
+      } catch (serverError) {
+        console.warn("Error storing on server, but we're still using the parsed data:", serverError);
+      }
+
+      return parsedData.length;
+    } catch (parseError) {
+      console.error("Error parsing Excel with column mapping:", parseError);
+      toast({
+        title: 'Parsing Error',
+        description: parseError instanceof Error ? parseError.message : String(parseError),
+        variant: 'destructive'
+      });
+      return null;
+    }
+  }, [answerRules, currentTest, setMarkScheme, setCurrentTest, queryClient, toast]);
+
   // Handle file change and parse Excel for preview
   const handleFileChange = useCallback(async (uploadedFile: File | null) => {
     setFile(uploadedFile);
@@ -95,25 +191,61 @@ export default function MarkSchemeStep() {
     if (uploadedFile) {
       try {
         setIsPreviewLoading(true);
-        const { data, columns } = await parseExcelForPreview(uploadedFile);
+        const { data, columns, sheetNames, sheetName } = await parseExcelForPreview(uploadedFile);
         setExcelPreviewData(data);
         setExcelColumns(columns);
+        setSheetNames(sheetNames);
+        setSheetName(sheetName);
         setIsPreviewLoading(false);
 
         // Open column mapping dialog if we have columns
         if (columns.length > 0) {
-          // Initialize empty column mapping - make sure it's completely empty
-          const emptyMapping: ExcelColumnMap = {
-            questionNumberCol: '',
-            expectedAnswerCol: '',
-            pointsCol: ''
-          };
+          // JSON and QTI files are read into known columns, so their mapping is filled in;
+          // spreadsheets start with an empty mapping for the user to choose
+          const format = detectMarkSchemeFormat(uploadedFile);
+          const initialMapping: ExcelColumnMap = format === 'json' || format === 'qti'
+            ? {
+              questionNumberCol: IMPORTED_COLUMNS.questionNumber,
+              expectedAnswerCol: IMPORTED_COLUMNS.expectedAnswer,
+              pointsCol: IMPORTED_COLUMNS.points,
+              alternativeAnswersCol: IMPORTED_COLUMNS.alternatives,
+              questionTypeCol: IMPORTED_COLUMNS.questionType,
+              rubricCol: IMPORTED_COLUMNS.rubric
+            }
+            : {
+              questionNumberCol: '',
+              expectedAnswerCol: '',
+              pointsCol: ''
+            };
 
           // Log the columns we found
-          console.log("Excel file column detection: Found columns:", columns);
-
-          // Set the empty mapping
-          setColumnMapping(emptyMapping);
+          console.log(`Mark scheme ${format} file column detection: Found columns:`, columns);
+
+          setColumnMapping(initialMapping);
+
+          // Spreadsheets with the same headers as a saved profile skip the mapping step
+          const profile = format === 'spreadsheet' || format === 'csv' ? await findMappingProfile(columns) : null;
+          setMatchedProfile(profile);
+          setProfileName(profile?.name ?? '');
+
+          if (profile) {
+            setColumnMapping(profile.columnMap);
+            setColumnMap(profile.columnMap);
+
+            const loaded = await importMarkScheme(uploadedFile, profile.columnMap, sheetName);
+            if (loaded !== null) {
+              toast({
+                title: 'Mark Scheme Loaded',
+                description: `${loaded} questions loaded using the saved "${profile.name}" column mapping.`,
+                action: (
+                  <ToastAction altText="Change the column mapping" onClick={() => setColumnMappingDialogOpen(true)}>
+                    Change
+                  </ToastAction>
+                )
+              });
+              return;
+            }
+          }
 
           setColumnMappingDialogOpen(true);
         }
@@ -126,7 +258,33 @@ export default function MarkSchemeStep() {
         });
       }
     }
-  }, [setExcelFile, setExcelPreviewData, setExcelColumns, toast]);
+  }, [setExcelFile, setExcelPreviewData, setExcelColumns, setColumnMap, findMappingProfile, importMarkScheme, toast]);
+
+  // Preview another sheet of the uploaded workbook; its columns need mapping afresh
+  const handleSheetChange = useCallback(async (name: string) => {
+    if (!file) return;
+
+    try {
+      setIsPreviewLoading(true);
+      const { data, columns, sheetName } = await parseExcelForPreview(file, name);
+      setExcelPreviewData(data);
+      setExcelColumns(columns);
+      setSheetName(sheetName);
+
+      const profile = await findMappingProfile(columns);
+      setMatchedProfile(profile);
+      setProfileName(profile?.name ?? '');
+      setColumnMapping(profile?.columnMap ?? { questionNumberCol: '', expectedAnswerCol: '', pointsCol: '' });
+    } catch (error) {
+      toast({
+        title: 'Excel Preview Error',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  }, [file, setExcelPreviewData, setExcelColumns, findMappingProfile, toast]);
 
   // Handle file error
   const handleFileError = useCallback((error: string) => {
@@ -147,11 +305,32 @@ export default function MarkSchemeStep() {
     let questionCol = '';
     let answerCol = '';
     let pointsCol = '';
+    let alternativesCol: string | undefined;
+    let typeCol: string | undefined;
+    let rubricCol: string | undefined;
 
     // Search for common patterns in column names
     for (const col of excelColumns) {
       const lowerCol = col.toLowerCase();
 
+      // Check for alternative answer columns before answer columns, which they would also match
+      if (lowerCol.includes('alternative') || lowerCol.includes('also accept') || lowerCol === 'accepted answers') {
+        alternativesCol = col;
+        continue;
+      }
+
+      // Check for rubric columns before answer columns ("model answer" is the answer column)
+      if (lowerCol.includes('rubric') || lowerCol === 'criteria' || lowerCol === 'marking criteria') {
+        rubricCol = col;
+        continue;
+      }
+
+      // Check for question type columns
+      if (lowerCol === 'type' || lowerCol === 'question type' || lowerCol === 'question_type' || lowerCol === 'kind') {
+        typeCol = col;
+        continue;
+      }
+
       // Check for question number columns
       if (
         lowerCol === 'question_number' ||
@@ -202,7 +381,10 @@ export default function MarkSchemeStep() {
     const mapping: ExcelColumnMap = {
       questionNumberCol: questionCol,
       expectedAnswerCol: answerCol,
-      pointsCol: pointsCol
+      pointsCol: pointsCol,
+      alternativeAnswersCol: alternativesCol,
+      questionTypeCol: typeCol,
+      rubricCol
     };
 
     console.log("Initialized column mapping with suggestions:", mapping);
@@ -220,6 +402,12 @@ export default function MarkSchemeStep() {
 
   // Handle column selection
   const handleColumnSelect = useCallback((field: keyof ExcelColumnMap, value: string) => {
+    // The alternative answers, question type and rubric columns are optional, so "_none" clears them
+    if (field === 'alternativeAnswersCol' || field === 'questionTypeCol' || field === 'rubricCol') {
+      setColumnMapping((prev) => ({ ...prev, [field]: value === '_none' ? undefined : value }));
+      return;
+    }
+
     // Skip the "_none" placeholder value
     if (value === "_none") return;
 
@@ -229,6 +417,51 @@ export default function MarkSchemeStep() {
     }));
   }, []);
 
+  // Profiles only apply to spreadsheets; JSON and QTI files are always read into the same columns
+  const fileFormat = file ? detectMarkSchemeFormat(file) : null;
+  const canSaveProfile = fileFormat === 'spreadsheet' || fileFormat === 'csv';
+
+  // Save the mapping as a profile for files with the same headers, replacing any saved for them before
+  const saveMappingProfile = useCallback(async (name: string, mapping: ExcelColumnMap) => {
+    try {
+      const response = await apiRequest('POST', '/api/column-mapping-profiles', {
+        name,
+        columns: excelColumns,
+        columnMap: mapping
+      });
+      setMatchedProfile(await response.json() as ColumnMappingProfile);
+      queryClient.invalidateQueries({ queryKey: ['/api/column-mapping-profiles'] });
+    } catch (error) {
+      toast({
+        title: 'Profile Not Saved',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  }, [excelColumns, queryClient, toast]);
+
+  // Delete the matched profile so files with these headers are mapped by hand again
+  const handleForgetProfile = useCallback(async () => {
+    if (!matchedProfile) return;
+
+    try {
+      await apiRequest('DELETE', `/api/column-mapping-profiles/${matchedProfile.id}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/column-mapping-profiles'] });
+      toast({
+        title: 'Profile Deleted',
+        description: `Files with these columns won't use the "${matchedProfile.name}" mapping any more.`
+      });
+      setMatchedProfile(null);
+      setProfileName('');
+    } catch (error) {
+      toast({
+        title: 'Profile Not Deleted',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    }
+  }, [matchedProfile, queryClient, toast]);
+
   // Handle column mapping confirmation
   const handleColumnMappingConfirm = useCallback(async () => {
     if (!columnMapping || !file) {
@@ -261,60 +494,24 @@ export default function MarkSchemeStep() {
       // Save the column mapping to global context
       setColumnMap(columnMapping);
 
+      // Remember the mapping for files with the same headers when the user named it
+      if (canSaveProfile && profileName.trim()) {
+        await saveMappingProfile(profileName.trim(), columnMapping);
+      }
+
       if (!currentTest) {
         setColumnMappingDialogOpen(false);
         setCreateTestDialogOpen(true);
         return;
       }
 
-      // Parse Excel with the column mapping and immediately use the parsed data
-      try {
-        const parsedData = await parseExcelWithColumnMap(file, columnMapping) as MarkSchemeEntry[];
-        console.log("Successfully parsed Excel data:", parsedData);
-
-        if (!parsedData || parsedData.length === 0) {
-          throw new Error("No valid data was parsed from the Excel file.");
-        }
-
-        // Store the parsed data directly in the context 
-        // This skips the server roundtrip and potential issues
-        setMarkScheme(parsedData);
-
-        // Still send to server for storage, but don't depend on response for UI
-        try {
-          // Create a FormData object to send to the server
-          const formData = new FormData();
-          formData.append('file', file);
-          formData.append('testId', currentTest.id!.toString());
-          formData.append('markSchemeData', JSON.stringify(parsedData));
-
-          // Send the FormData to the server in the background
-          const response = await fetch('/api/mark-scheme', {
-            method: 'POST',
-            body: formData,
-          });
-
-          if (!response.ok) {
-            console.warn("Server storage failed, but we're still using the data:", await response.text());
-          } else {
-            console.log("Successfully stored mark scheme on server");
-          }
-        } catch (serverError) {
-          console.warn("Error storing on server, but we're still using the parsed data:", serverError);
-        }
-
+      const loaded = await importMarkScheme(file, columnMapping, sheetName);
+      if (loaded !== null) {
         setColumnMappingDialogOpen(false);
 
         toast({
           title: 'Mark Scheme Loaded',
-          description: `${parsedData.length} questions loaded successfully.`,
-        });
-      } catch (parseError) {
-        console.error("Error parsing Excel with column mapping:", parseError);
-        toast({
-          title: 'Parsing Error',
-          description: parseError instanceof Error ? parseError.message : String(parseError),
-          variant: 'destructive'
+          description: `${loaded} questions loaded successfully.`,
         });
       }
     } catch (error) {
@@ -325,7 +522,7 @@ export default function MarkSchemeStep() {
         variant: 'destructive'
       });
     }
-  }, [columnMapping, file, currentTest, setColumnMap, setMarkScheme, toast]);
+  }, [columnMapping, file, sheetName, currentTest, canSaveProfile, profileName, setColumnMap, saveMappingProfile, importMarkScheme, toast]);
 
   // Handle create test dialog
   const handleCreateTest = useCallback(() => {
@@ -383,8 +580,9 @@ export default function MarkSchemeStep() {
     <div className="bg-white rounded-lg shadow-md p-5">
       <h2 className="text-lg font-semibold text-gray-800 mb-4">Upload Mark Scheme</h2>
       <p className="text-sm text-gray-600 mb-5">
-        Please upload an Excel spreadsheet containing your mark scheme with the following columns: 
-        Question Number, Expected Answer, and Question Points.
+        Please upload an Excel spreadsheet or CSV file containing your mark scheme with the following columns: 
+        Question Number, Expected Answer, and Question Points. A JSON answer key or a QTI 2.1 item bank export
+        works too. You can also type the key into the grid below.
       </p>
 
       {/* File Uploader */}
@@ -392,9 +590,9 @@ export default function MarkSchemeStep() {
         <FileInput
           onChange={handleFileChange}
           onError={handleFileError}
-          accept=".xlsx,.xls"
+          accept={MARK_SCHEME_FILE_ACCEPT}
           className="mb-6"
-          acceptText="Supported format: .xlsx"
+          acceptText="Supported formats: .xlsx, .xls, .csv, .json, QTI .xml or .zip"
         />
       )}
 
@@ -417,33 +615,7 @@ export default function MarkSchemeStep() {
               <h3 className="text-sm font-medium text-red-800 mb-1">Error parsing Excel file</h3>
               <p className="text-xs text-red-600">{excelParseError}</p>
             </div>
-          ) : markScheme.length > 0 ? (
-            <div className="border border-gray-200 rounded-lg overflow-hidden mb-5">
-              <div className="bg-gray-50 p-3 border-b border-gray-200">
-                <h3 className="text-sm font-medium text-gray-700">Preview</h3>
-              </div>
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Q #</TableHead>
-                      <TableHead className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected Answer</TableHead>
-                      <TableHead className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Points</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {markScheme.map((item) => (
-                      <TableRow key={item.questionNumber}>
-                        <TableCell className="px-4 py-2 text-sm text-gray-900">{item.questionNumber}</TableCell>
-                        <TableCell className="px-4 py-2 text-sm text-gray-900">{item.expectedAnswer}</TableCell>
-                        <TableCell className="px-4 py-2 text-sm text-gray-900">{item.points}</TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            </div>
-          ) : (
+          ) : markScheme.length === 0 && (
             <Button
               onClick={handleUploadMarkScheme}
               className="w-full"
@@ -462,6 +634,19 @@ export default function MarkSchemeStep() {
         </div>
       )}
 
+      {currentTest?.id && (
+        <MarkSchemeEditor key={currentTest.id} test={currentTest} />
+      )}
+
+      {currentTest?.id && markScheme.length > 0 && (
+        <>
+          <RegradePanel testId={currentTest.id} />
+          <ScoringPolicySettings key={currentTest.id} test={currentTest} />
+          <GradingScaleSettings key={`scale-${currentTest.id}`} test={currentTest} />
+          <AnswerSheetDownload testId={currentTest.id} />
+        </>
+      )}
+
       {columnMapping && (
         <div className="hidden mt-4 p-4 bg-gray-50 rounded-md mb-4">
           <h4 className="text-sm font-medium mb-2">Current Column Mapping:</h4>
@@ -544,6 +729,23 @@ export default function MarkSchemeStep() {
           </DialogHeader>
 
           <div className="py-4 space-y-6">
+            {/* Workbooks with several sheets: choose the one holding the mark scheme */}
+            {sheetNames.length > 1 && (
+              <div>
+                <Label htmlFor="sheet-select">Sheet</Label>
+                <Select value={sheetName ?? sheetNames[0]} onValueChange={handleSheetChange}>
+                  <SelectTrigger id="sheet-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sheetNames.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Preview table */}
             {isPreviewLoading ? (
               <div className="flex items-center justify-center p-6">
@@ -640,7 +842,100 @@ export default function MarkSchemeStep() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div>
+                <Label htmlFor="alternatives-column">Alternative Answers Column (optional)</Label>
+                <Select 
+                  onValueChange={(value) => handleColumnSelect('alternativeAnswersCol', value)}
+                  value={columnMapping?.alternativeAnswersCol || '_none'}
+                >
+                  <SelectTrigger id="alternatives-column">
+                    <SelectValue placeholder="No alternatives" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="_none">No alternatives</SelectItem>
+                    {excelColumns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="type-column">Question Type Column (optional)</Label>
+                <Select 
+                  onValueChange={(value) => handleColumnSelect('questionTypeCol', value)}
+                  value={columnMapping?.questionTypeCol || '_none'}
+                >
+                  <SelectTrigger id="type-column">
+                    <SelectValue placeholder="Guess from the answers" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="_none">Guess from the answers</SelectItem>
+                    {excelColumns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Single choice, multi-select, true/false, numeric, short text or written. Give numeric tolerances as "9.8 ± 0.1".
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="rubric-column">Rubric Column (optional)</Label>
+                <Select 
+                  onValueChange={(value) => handleColumnSelect('rubricCol', value)}
+                  value={columnMapping?.rubricCol || '_none'}
+                >
+                  <SelectTrigger id="rubric-column">
+                    <SelectValue placeholder="No rubric" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="_none">No rubric</SelectItem>
+                    {excelColumns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  For written answers, with the model answer in the answer column. List criteria as "Names the organelle (1); Explains its role (2)".
+                </p>
+              </div>
             </div>
+
+            {/* Saved profiles let files with the same headers skip this dialog */}
+            {canSaveProfile && (
+              <div className="border-t pt-4">
+                <Label htmlFor="profile-name">Save Mapping as Profile (optional)</Label>
+                <Input
+                  id="profile-name"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="e.g. Exam board biology papers"
+                />
+                <div className="flex items-center justify-between mt-1">
+                  <p className="text-xs text-gray-500">
+                    {matchedProfile
+                      ? `These columns match the saved "${matchedProfile.name}" profile; confirming updates it.`
+                      : 'Files with the same column headers will be mapped this way automatically.'}
+                  </p>
+                  {matchedProfile && (
+                    <Button variant="ghost" size="sm" onClick={handleForgetProfile}>
+                      Forget profile
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <AnswerRulesFields value={answerRules} onChange={setAnswerRules} />
           </div>
 
           <div className="hidden mt-4 p-4 bg-gray-50 rounded-md">
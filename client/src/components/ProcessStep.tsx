@@ -5,6 +5,8 @@ import { useTestGraderActions } from '@/hooks/use-test-grader';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { MarkSchemePreview } from './MarkSchemePreview';
+import { apiRequest } from '@/lib/queryClient';
+import { ReviewPanel } from './ReviewPanel';
 
 export default function ProcessStep() {
   const { 
@@ -13,10 +15,13 @@ export default function ProcessStep() {
     processingPage, 
     totalProcessingPages, 
     processingProgress,
+    processingJob,
+    currentSubmission,
     markScheme
   } = useTestGrader();
 
-  const { processImagesMutation } = useTestGraderActions();
+  const { processImagesMutation, showGradedResult } = useTestGraderActions();
+  const needsReview = processImagesMutation.data?.needsReview ?? false;
 
   // Auto-start processing when this step is loaded
   useEffect(() => {
@@ -25,15 +30,23 @@ export default function ProcessStep() {
     }
   }, [capturedPages.length, processingPage, processingProgress, processImagesMutation]);
 
+  // Cancel the server-side job; pages already being read are allowed to finish
+  const handleCancel = useCallback(async () => {
+    if (processingJob) {
+      await apiRequest('POST', `/api/jobs/${processingJob.job.id}/cancel`, {});
+    }
+  }, [processingJob]);
+
   // Handle back button
-  const handleBack = useCallback(() => {
+  const handleBack = useCallback(async () => {
     if (processImagesMutation.isPending) {
       if (!confirm('Processing is in progress. Going back will cancel it. Continue?')) {
         return;
       }
+      await handleCancel();
     }
     setStep('capture');
-  }, [setStep, processImagesMutation.isPending]);
+  }, [setStep, processImagesMutation.isPending, handleCancel]);
 
   // Handle next button
   const handleNext = useCallback(() => {
@@ -75,9 +88,50 @@ export default function ProcessStep() {
                 <Progress value={processingProgress} className="h-2" />
               </div>
               <p className="text-xs text-gray-500">
-                <span>{processingPage || 0}</span> of <span>{totalProcessingPages}</span> pages processed
+                <span>{processingJob?.job.completedItems ?? 0}</span> of <span>{totalProcessingPages}</span> pages processed
+                {processingJob && processingJob.job.failedItems > 0 && (
+                  <span className="text-red-500"> ({processingJob.job.failedItems} failed)</span>
+                )}
               </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-4"
+                onClick={handleCancel}
+                disabled={!processingJob}
+              >
+                Cancel
+              </Button>
             </>
+          ) : processImagesMutation.isError && processingJob && processingJob.job.status !== 'completed' ? (
+            <div className="text-center">
+              <span className="material-icons text-4xl text-red-400 mb-2">error_outline</span>
+              <h3 className="text-base font-medium text-gray-800 mb-1">
+                {processingJob.job.status === 'cancelled' ? 'Processing Cancelled' : 'Some Pages Failed'}
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {processingJob.job.completedItems} of {processingJob.job.totalItems} pages were processed.
+                {processImagesMutation.error instanceof Error && processingJob.job.status === 'failed' && (
+                  <span className="block text-xs text-red-500 mt-1">{processImagesMutation.error.message}</span>
+                )}
+              </p>
+              <Button onClick={() => processImagesMutation.mutate(processingJob.job.id)}>
+                Retry Remaining Pages
+              </Button>
+            </div>
+          ) : needsReview && currentSubmission ? (
+            <div className="w-full">
+              <div className="border border-amber-200 bg-amber-50 rounded-lg p-4 flex items-start mb-5">
+                <span className="material-icons text-amber-500 mr-3">rate_review</span>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-800 mb-1">Review Needed</h3>
+                  <p className="text-xs text-gray-600">
+                    Some answers were unclear. Check them against the page; the paper is graded once every item is confirmed.
+                  </p>
+                </div>
+              </div>
+              <ReviewPanel submissionId={currentSubmission.id} onGraded={showGradedResult} />
+            </div>
           ) : isProcessingComplete ? (
             <div className="w-full">
               <div className="border border-green-200 bg-green-50 rounded-lg p-4 flex items-start mb-5">
@@ -138,7 +192,7 @@ export default function ProcessStep() {
         </Button>
         <Button
           onClick={handleNext}
-          disabled={!isProcessingComplete || processImagesMutation.isPending}
+          disabled={!isProcessingComplete || needsReview || processImagesMutation.isPending}
           className="bg-primary hover:bg-primary-dark text-white"
         >
           View Results
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { MarkSchemeVersion, RegradeChange, RegradeReport } from '@/types';
+
+interface RegradePanelProps {
+  testId: number;
+}
+
+/**
+ * Describe how a submission's score moved
+ * @param change Score before and after re-grading
+ * @returns Signed points difference, or a note when there is no new score
+ */
+function describeChange(change: RegradeChange): string {
+  if (change.newPoints === null) {
+    return 'Needs review';
+  }
+  const difference = Math.round((change.newPoints - change.previousPoints) * 100) / 100;
+  return difference === 0 ? 'No change' : `${difference > 0 ? '+' : ''}${difference} pts`;
+}
+
+export function RegradePanel({ testId }: RegradePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [report, setReport] = useState<RegradeReport | null>(null);
+
+  const { data: versions = [] } = useQuery<MarkSchemeVersion[]>({
+    queryKey: [`/api/mark-scheme/${testId}/versions`]
+  });
+  const latest = versions[versions.length - 1];
+
+  const regradeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/tests/${testId}/regrade`);
+      return res.json() as Promise<RegradeReport>;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${testId}/submissions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/review'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error re-grading submissions',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5 flex items-center justify-between gap-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700">
+          {latest ? `Mark scheme version ${latest.version}` : 'Mark scheme not saved yet'}
+        </h3>
+        {latest && (
+          <p className="text-xs text-gray-500">
+            {latest.summary} on {new Date(latest.createdAt).toLocaleString()}
+            {versions.length > 1 && ` · ${versions.length - 1} earlier ${versions.length === 2 ? 'version' : 'versions'} kept`}
+          </p>
+        )}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => regradeMutation.mutate()}
+        disabled={!latest || regradeMutation.isPending}
+      >
+        <span className="material-icons text-base mr-1">refresh</span>
+        {regradeMutation.isPending ? 'Re-grading...' : 'Regrade All Submissions'}
+      </Button>
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Re-grading Results</DialogTitle>
+            <DialogDescription>
+              {report && (
+                <>
+                  {report.regraded} submissions re-graded against version {report.version ?? '—'}; {report.changed} changed score
+                  {report.heldForReview > 0 && `, ${report.heldForReview} now need review`}.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Student</TableHead>
+                  <TableHead className="text-xs text-right">Before</TableHead>
+                  <TableHead className="text-xs text-right">After</TableHead>
+                  <TableHead className="text-xs text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report && report.changes.length > 0 ? report.changes.map(change => {
+                  const difference = change.newPoints === null ? 0 : change.newPoints - change.previousPoints;
+                  return (
+                    <TableRow key={change.submissionId}>
+                      <TableCell className="text-sm">{change.studentName ?? change.label}</TableCell>
+                      <TableCell className="text-sm text-right">
+                        {change.previousPoints} ({change.previousPercentage}%)
+                        {change.previousVersion && <span className="block text-xs text-gray-400">v{change.previousVersion}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-right">
+                        {change.newPoints === null ? '—' : `${change.newPoints} (${change.newPercentage}%)`}
+                      </TableCell>
+                      <TableCell className={`text-sm text-right font-medium ${
+                        change.newPoints === null ? 'text-amber-600' : difference > 0 ? 'text-green-600' : difference < 0 ? 'text-red-600' : 'text-gray-500'
+                      }`}>
+                        {describeChange(change)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                }) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-sm text-gray-500 text-center">
+                      No graded submissions to re-grade yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => setReport(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,9 +14,31 @@ import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 import { MarkSchemePreview } from './MarkSchemePreview';
 import { useToast } from '@/hooks/use-toast';
+import { useTestGraderActions } from '@/hooks/use-test-grader';
+import { useQuery } from '@tanstack/react-query';
+import { AnswerOverride, Result, SubmissionWithResult } from '@/types';
+import { AnswerOverrideCell } from './AnswerOverrideCell';
+import { LmsExport } from './LmsExport';
 
 import { useEffect } from 'react';
 
+/**
+ * Describe a result's curved score and letter grade
+ * @param result Graded result
+ * @returns e.g. "Grade B, scaled 74.5%", or an empty string when the test has no scale set up
+ */
+function describeScaling(result: Result | null): string {
+  if (!result) return '';
+  const parts = [];
+  if (result.letterGrade) {
+    parts.push(`Grade ${result.letterGrade}`);
+  }
+  if (result.scaledPercentage != null && result.scaledPercentage !== result.scorePercentage) {
+    parts.push(`scaled ${result.scaledPercentage}%`);
+  }
+  return parts.join(', ');
+}
+
 export default function ResultsStep() {
   const [exportingPdf, setExportingPdf] = useState(false);
   const { toast } = useToast();
@@ -31,22 +53,42 @@ export default function ResultsStep() {
     setTestResult,
     setDetailedResults,
     currentTest,
-    setCurrentTest
+    currentSubmission,
+    setCurrentSubmission
   } = useTestGrader();
+  const { startSubmissionMutation } = useTestGraderActions();
+
+  // All papers graded so far for this test
+  const { data: submissions = [] } = useQuery<SubmissionWithResult[]>({
+    queryKey: [`/api/tests/${currentTest?.id}/submissions`],
+    enabled: !!currentTest?.id
+  });
+
+  // Answers changed by hand on this paper, oldest first
+  const { data: overrides = [] } = useQuery<AnswerOverride[]>({
+    queryKey: [`/api/submissions/${currentSubmission?.id}/overrides`],
+    enabled: !!currentSubmission?.id
+  });
+
+  // The student this paper belongs to, if one was assigned
+  const currentStudent = submissions.find(submission => submission.id === currentSubmission?.id)?.student ?? null;
+  const studentLabel = currentStudent
+    ? `${currentStudent.name}${currentStudent.studentNumber ? ` (${currentStudent.studentNumber})` : ''}`
+    : currentSubmission?.label ?? '';
 
   // Fetch fresh results when component mounts or test result changes
   useEffect(() => {
     const fetchFreshResults = async () => {
-      // If we don't have a test or the test result is null, we should reset detailed results
-      if (!currentTest?.id || !testResult) {
-        console.log('No currentTest or testResult, clearing detailed results');
+      // If we don't have a submission or the test result is null, we should reset detailed results
+      if (!currentSubmission || !testResult) {
+        console.log('No currentSubmission or testResult, clearing detailed results');
         setDetailedResults([]);
         return;
       }
 
       try {
-        console.log(`Fetching fresh detailed results for test ${currentTest.id}`);
-        const detailedRes = await fetch(`/api/results/${currentTest.id}/detailed`, {
+        console.log(`Fetching fresh detailed results for submission ${currentSubmission.id}`);
+        const detailedRes = await fetch(`/api/submissions/${currentSubmission.id}/detailed`, {
           credentials: 'include'
         });
 
@@ -70,7 +112,7 @@ export default function ResultsStep() {
     };
 
     fetchFreshResults();
-  }, [currentTest, testResult, setDetailedResults]);
+  }, [currentSubmission, testResult, setDetailedResults]);
 
   // Handle back button
   const handleBack = useCallback(() => {
@@ -95,11 +137,18 @@ export default function ResultsStep() {
 
       // Add title
       doc.setFontSize(18);
-      doc.text('Test Results', 105, 15, { align: 'center' });
+      doc.text(studentLabel ? `Test Results: ${studentLabel}` : 'Test Results', 105, 15, { align: 'center' });
 
       // Add summary
       doc.setFontSize(12);
-      doc.text(`Score: ${testResult?.scorePercentage}% (${testResult?.pointsEarned}/${testResult?.totalPoints} points)`, 105, 25, { align: 'center' });
+      if (currentTest?.name) {
+        doc.text(currentTest.name, 105, 22, { align: 'center' });
+      }
+      doc.text(`Score: ${testResult?.scorePercentage}% (${testResult?.pointsEarned}/${testResult?.totalPoints} points)`, 105, 29, { align: 'center' });
+      const scaling = describeScaling(testResult);
+      if (scaling) {
+        doc.text(scaling, 105, 36, { align: 'center' });
+      }
 
       // Add detailed results table
       const tableData = detailedResults.map(result => [
@@ -107,25 +156,26 @@ export default function ResultsStep() {
         result.studentAnswer,
         result.expectedAnswer,
         `${result.earnedPoints}/${result.points}`,
-        result.correct ? 'Correct' : 'Incorrect'
+        result.voided ? 'Voided' : result.rationale ?? `${result.correct ? 'Correct' : 'Incorrect'}${result.bonus ? ' (bonus)' : ''}`
       ]);
 
       (doc as any).autoTable({
         head: [['Q #', 'Student Answer', 'Expected Answer', 'Points', 'Status']],
         body: tableData,
-        startY: 35,
+        startY: scaling ? 43 : 37,
         theme: 'grid',
         headStyles: { fillColor: [37, 99, 235] }
       });
 
-      // Save the PDF
-      doc.save('test-results.pdf');
+      // Save the PDF, named after the student when we know who it is
+      const fileSuffix = studentLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      doc.save(fileSuffix ? `test-results-${fileSuffix}.pdf` : 'test-results.pdf');
     } catch (error) {
       console.error('Error generating PDF:', error);
     } finally {
       setExportingPdf(false);
     }
-  }, [testResult, detailedResults]);
+  }, [testResult, detailedResults, studentLabel, currentTest]);
 
   // Handle sharing results
   const handleShare = useCallback(async () => {
@@ -138,57 +188,24 @@ export default function ResultsStep() {
       const blob = await handleExportPDF();
 
       await navigator.share({
-        title: 'Test Results',
-        text: `Score: ${testResult?.scorePercentage}% (${testResult?.pointsEarned}/${testResult?.totalPoints} points)`,
+        title: studentLabel ? `Test Results: ${studentLabel}` : 'Test Results',
+        text: [
+          `Score: ${testResult?.scorePercentage}% (${testResult?.pointsEarned}/${testResult?.totalPoints} points)`,
+          describeScaling(testResult)
+        ].filter(Boolean).join('. '),
         // files: [new File([blob], 'test-results.pdf', { type: 'application/pdf' })]
       });
     } catch (error) {
       console.error('Error sharing results:', error);
     }
-  }, [testResult, handleExportPDF]);
+  }, [testResult, handleExportPDF, studentLabel]);
 
-  // Handle next paper button
+  // Handle next paper button: start a new submission against the same mark scheme
   const handleNextPaper = useCallback(async () => {
-    try {
-      // Create a new test with same parameters as current test
-      if (currentTest) {
-        // Get existing mark scheme
-        const markSchemeRes = await fetch(`/api/mark-scheme/${currentTest.id}`);
-        const markScheme = await markSchemeRes.json();
-        
-        // Create new test
-        const response = await fetch('/api/tests', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: currentTest.name,
-            totalQuestions: currentTest.totalQuestions,
-            totalPoints: currentTest.totalPoints
-          })
-        });
+    if (!currentTest?.id) return;
 
-        if (!response.ok) {
-          throw new Error('Failed to create new test');
-        }
-
-        const newTest = await response.json();
-        
-        // Copy mark scheme to new test
-        if (markScheme && markScheme.length > 0) {
-          const formData = new FormData();
-          formData.append('testId', newTest.id.toString());
-          formData.append('markSchemeData', JSON.stringify(markScheme));
-          
-          await fetch('/api/mark-scheme', {
-            method: 'POST',
-            body: formData
-          });
-        }
-        
-        setCurrentTest(newTest);
-      }
+    try {
+      await startSubmissionMutation.mutateAsync(currentTest.id);
 
       // Clear captured pages and reset processing state
       clearCapturedPages();
@@ -199,20 +216,28 @@ export default function ResultsStep() {
 
       toast({
         title: 'Ready for next paper',
-        description: 'New test created and previous results cleared.'
+        description: 'Previous results saved. Capture the next student\'s answer sheet.'
       });
 
       // Navigate to capture page
       setStep('capture');
     } catch (error) {
-      console.error('Error creating new test:', error);
+      console.error('Error starting next paper:', error);
       toast({
         title: 'Error',
         description: 'Failed to setup next paper. Please try again.',
         variant: 'destructive'
       });
     }
-  }, [currentTest, clearCapturedPages, setCurrentTest, setTestResult, setDetailedResults, setStep, toast]);
+  }, [currentTest, startSubmissionMutation, clearCapturedPages, setTestResult, setDetailedResults, setStep, toast]);
+
+  // Show a previously graded paper for this test
+  const handleSelectSubmission = useCallback((submission: SubmissionWithResult) => {
+    if (!submission.result) return;
+    const { result, ...rest } = submission;
+    setCurrentSubmission(rest);
+    setTestResult(result);
+  }, [setCurrentSubmission, setTestResult]);
 
   if (!testResult) {
     return (
@@ -239,7 +264,12 @@ export default function ResultsStep() {
   return (
     <div className="bg-white rounded-lg shadow-md p-5">
       <div className="flex justify-between items-start mb-4">
-        <h2 className="text-lg font-semibold text-gray-800">Student Results</h2>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">Student Results</h2>
+          {studentLabel && (
+            <p className="text-sm text-gray-600">{studentLabel}</p>
+          )}
+        </div>
         <Button 
           variant="ghost" 
           className="text-primary hover:text-primary-dark focus:outline-none"
@@ -259,7 +289,12 @@ export default function ResultsStep() {
       <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-5">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-base font-medium text-gray-800">Final Score</h3>
-          <span className="text-2xl font-bold text-primary">{testResult.scorePercentage}%</span>
+          <div className="text-right">
+            {testResult.letterGrade && (
+              <span className="text-2xl font-bold text-gray-800 mr-3">{testResult.letterGrade}</span>
+            )}
+            <span className="text-2xl font-bold text-primary">{testResult.scorePercentage}%</span>
+          </div>
         </div>
         <div className="flex items-center">
           <div className="flex-grow mr-3">
@@ -269,6 +304,12 @@ export default function ResultsStep() {
             <span>{testResult.pointsEarned}</span>/<span>{testResult.totalPoints}</span> pts
           </div>
         </div>
+        {testResult.scaledPercentage != null && testResult.scaledPercentage !== testResult.scorePercentage && (
+          <p className="text-xs text-gray-500 mt-2">Scaled to {testResult.scaledPercentage}% by the test's curve</p>
+        )}
+        {testResult.markSchemeVersion && (
+          <p className="text-xs text-gray-500 mt-2">Graded against mark scheme version {testResult.markSchemeVersion}</p>
+        )}
       </div>
 
       {/* Detailed Results */}
@@ -293,12 +334,33 @@ export default function ResultsStep() {
                   detailedResults.map((result) => (
                     <TableRow key={`row-${result.questionNumber}`}>
                       <TableCell className="px-4 py-3 text-sm text-gray-900">{result.questionNumber}</TableCell>
-                      <TableCell className={`px-4 py-3 text-sm ${result.correct ? 'text-green-600 font-medium' : 'text-gray-900'}`}>{result.studentAnswer}</TableCell>
+                      <TableCell className={`px-4 py-3 text-sm ${result.correct ? 'text-green-600 font-medium' : 'text-gray-900'}`}>
+                        {currentSubmission ? (
+                          <AnswerOverrideCell
+                            submissionId={currentSubmission.id}
+                            questionNumber={result.questionNumber}
+                            studentAnswer={result.studentAnswer}
+                            overrides={overrides.filter(override => override.questionNumber === result.questionNumber)}
+                            onOverridden={setTestResult}
+                          />
+                        ) : result.studentAnswer}
+                      </TableCell>
                       <TableCell className={`px-4 py-3 text-sm ${result.correct ? 'text-green-600 font-medium' : 'text-gray-900'}`}>{result.expectedAnswer}</TableCell>
-                      <TableCell className={`px-4 py-3 text-sm ${result.correct ? 'text-green-600 font-medium' : 'text-gray-900'}`}>{result.earnedPoints}/{result.points}</TableCell>
+                      <TableCell className={`px-4 py-3 text-sm ${result.correct ? 'text-green-600 font-medium' : 'text-gray-900'}`}>
+                        {result.earnedPoints}/{result.points}
+                        {result.bonus && <span className="ml-1 text-xs font-normal text-amber-600">bonus</span>}
+                        {/* Written answers explain the points the rubric awarded */}
+                        {result.rationale && (
+                          <p className="mt-1 max-w-xs text-xs font-normal text-gray-500">{result.rationale}</p>
+                        )}
+                      </TableCell>
                       <TableCell className="px-4 py-3">
-                        {result.correct ? (
+                        {result.voided ? (
+                          <span className="material-icons text-gray-400" title="Voided: not counted in the total">block</span>
+                        ) : result.correct ? (
                           <span className="material-icons text-green-600">check_circle</span>
+                        ) : result.earnedPoints > 0 ? (
+                          <span className="material-icons text-amber-500" title="Partial credit">remove_circle</span>
                         ) : (
                           <span className="material-icons text-error">cancel</span>
                         )}
@@ -318,6 +380,60 @@ export default function ResultsStep() {
         </div>
       </div>
 
+      {/* Graded Papers */}
+      {submissions.length > 1 && (
+        <div className="mb-5">
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <div className="bg-gray-50 p-3 border-b border-gray-200">
+              <h3 className="text-sm font-medium text-gray-700">Graded Papers</h3>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {submissions.filter(submission => submission.result).map((submission) => (
+                <li key={submission.id}>
+                  <button
+                    onClick={() => handleSelectSubmission(submission)}
+                    className={`w-full flex justify-between px-4 py-2 text-sm hover:bg-gray-50 ${submission.id === currentSubmission?.id ? 'font-medium text-primary' : 'text-gray-700'}`}
+                  >
+                    <span>{submission.student?.name ?? submission.label}</span>
+                    <span>
+                      {submission.result!.scorePercentage}%
+                      {submission.result!.letterGrade && ` · ${submission.result!.letterGrade}`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Class gradebook */}
+      {currentTest?.id && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-5 flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700">Class Gradebook</h3>
+            <p className="text-xs text-gray-500">Every graded paper for this test: answers, points per question, totals and grades.</p>
+          </div>
+          <div className="flex gap-2">
+            {/* Plain links let the browser handle the download itself */}
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/tests/${currentTest.id}/gradebook?format=csv`} download>
+                <span className="material-icons mr-1 text-sm">download</span>
+                CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href={`/api/tests/${currentTest.id}/gradebook?format=xlsx`} download>
+                <span className="material-icons mr-1 text-sm">download</span>
+                Excel
+              </a>
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {currentTest?.id && <LmsExport key={currentTest.id} test={currentTest} />}
+
       <div className="flex justify-between">
         <Button
           onClick={handleBack}
@@ -330,6 +446,7 @@ export default function ResultsStep() {
         <div className="flex space-x-3">
           <Button
             onClick={handleNextPaper}
+            disabled={startSubmissionMutation.isPending}
             variant="secondary"
             className="bg-gray-800 hover:bg-gray-900 text-white"
           >
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Result, ReviewItem, ReviewReason, SubmissionReview } from '@/types';
+
+interface ReviewPanelProps {
+  submissionId: number;
+  onGraded?: (result: Result) => void;
+}
+
+const REASON_LABELS: Record<ReviewReason, string> = {
+  low_confidence: 'Low confidence',
+  blank: 'Blank',
+  ambiguous: 'Several marks',
+  invalid_option: 'Not a valid answer'
+};
+
+export function ReviewPanel({ submissionId, onGraded }: ReviewPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedPageId, setSelectedPageId] = useState<number | null>(null);
+  const [corrections, setCorrections] = useState<Record<number, string>>({});
+
+  const { data: review } = useQuery<SubmissionReview>({
+    queryKey: [`/api/submissions/${submissionId}/review`]
+  });
+
+  const openItems = review?.reviewItems.filter(item => item.status === 'open') ?? [];
+  const pages = review?.pages ?? [];
+  const selectedPage = pages.find(page => page.id === selectedPageId) ?? pages[0];
+
+  // Start on the page holding the first open item
+  useEffect(() => {
+    if (selectedPageId === null && openItems.length > 0) {
+      setSelectedPageId(openItems.find(item => item.pageId !== null)?.pageId ?? null);
+    }
+  }, [openItems, selectedPageId]);
+
+  const resolveMutation = useMutation({
+    mutationFn: async (item: ReviewItem) => {
+      const res = await apiRequest('PATCH', `/api/review-items/${item.id}`, {
+        answer: item.questionNumber !== null ? (corrections[item.id] ?? item.extractedAnswer) : undefined
+      });
+      return res.json() as Promise<{ reviewItem: ReviewItem; result: Result | null }>;
+    },
+    onSuccess: ({ result }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/submissions/${submissionId}/review`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/review'] });
+      if (result) {
+        queryClient.invalidateQueries({ queryKey: [`/api/tests/${result.testId}/submissions`] });
+        onGraded?.(result);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving review',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  if (!review) {
+    return <p className="text-sm text-gray-500">Loading review...</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Page image */}
+      <div>
+        {pages.length > 1 && (
+          <div className="flex gap-2 mb-2">
+            {pages.map(page => (
+              <Button
+                key={page.id}
+                size="sm"
+                variant={page.id === selectedPage?.id ? 'default' : 'outline'}
+                onClick={() => setSelectedPageId(page.id!)}
+              >
+                Page {page.pageNumber}
+              </Button>
+            ))}
+          </div>
+        )}
+        {selectedPage ? (
+          <img
+            src={selectedPage.imageData.startsWith('data:') ? selectedPage.imageData : `data:image/jpeg;base64,${selectedPage.imageData}`}
+            alt={`Page ${selectedPage.pageNumber}`}
+            className="w-full rounded border border-gray-200"
+          />
+        ) : (
+          <p className="text-sm text-gray-500">No pages captured.</p>
+        )}
+      </div>
+
+      {/* Flagged answers */}
+      <div className="space-y-2">
+        {openItems.length === 0 ? (
+          <p className="text-sm text-gray-600">Everything on this paper has been reviewed.</p>
+        ) : (
+          openItems.map(item => (
+            <div
+              key={item.id}
+              className="border border-gray-200 rounded-lg p-3 flex items-center gap-3"
+              onClick={() => item.pageId !== null && setSelectedPageId(item.pageId)}
+            >
+              <div className="flex-1">
+                <div className="text-sm font-medium text-gray-800">
+                  {item.questionNumber !== null
+                    ? `Question ${item.questionNumber}`
+                    : `Page ${pages.find(page => page.id === item.pageId)?.pageNumber ?? ''}`}
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <Badge variant="outline">{REASON_LABELS[item.reason]}</Badge>
+                  {item.confidence !== null && (
+                    <span className="text-xs text-gray-500">{Math.round(item.confidence * 100)}% confident</span>
+                  )}
+                </div>
+              </div>
+              {item.questionNumber !== null && (
+                <Input
+                  className="w-20"
+                  value={corrections[item.id] ?? item.extractedAnswer}
+                  onChange={(e) => setCorrections({ ...corrections, [item.id]: e.target.value })}
+                  placeholder="Blank"
+                />
+              )}
+              <Button
+                size="sm"
+                onClick={() => resolveMutation.mutate(item)}
+                disabled={resolveMutation.isPending}
+              >
+                {item.questionNumber !== null ? 'Confirm' : 'Checked'}
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
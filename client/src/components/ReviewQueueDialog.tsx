@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useQuery } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { ReviewPanel } from './ReviewPanel';
+import { ReviewQueueEntry, Result } from '@/types';
+
+interface ReviewQueueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReviewQueueDialog({ open, onOpenChange }: ReviewQueueDialogProps) {
+  const { toast } = useToast();
+  const [submissionId, setSubmissionId] = useState<number | null>(null);
+
+  const { data: queue = [] } = useQuery<ReviewQueueEntry[]>({
+    queryKey: ['/api/review'],
+    enabled: open
+  });
+
+  const selected = queue.find(entry => entry.submission.id === submissionId);
+
+  const handleGraded = (result: Result) => {
+    toast({
+      title: 'Paper graded',
+      description: `Score: ${result.scorePercentage}% (${result.pointsEarned}/${result.totalPoints} points)`
+    });
+    setSubmissionId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Review Queue</DialogTitle>
+          <DialogDescription>
+            {selected
+              ? `${selected.student?.name ?? selected.submission.label} - ${selected.testName}`
+              : 'Papers held back from grading until their unclear answers are checked.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {submissionId !== null ? (
+          <div>
+            <Button variant="outline" size="sm" className="mb-3" onClick={() => setSubmissionId(null)}>
+              <span className="material-icons mr-1 text-sm">arrow_back</span>
+              All papers
+            </Button>
+            <ReviewPanel submissionId={submissionId} onGraded={handleGraded} />
+          </div>
+        ) : queue.length === 0 ? (
+          <p className="text-sm text-gray-600 py-4">Nothing is waiting for review.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {queue.map(entry => (
+              <button
+                key={entry.submission.id}
+                onClick={() => setSubmissionId(entry.submission.id)}
+                className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50"
+              >
+                <div>
+                  <div className="text-sm font-medium text-gray-800">
+                    {entry.student?.name ?? entry.submission.label}
+                  </div>
+                  <div className="text-xs text-gray-500">{entry.testName}</div>
+                </div>
+                <span className="text-xs text-amber-600">
+                  {entry.openItems} item{entry.openItems === 1 ? '' : 's'} to check
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
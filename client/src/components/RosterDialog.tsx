@@ -0,0 +1,167 @@
+import React, { useState, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileInput } from '@/components/ui/file-input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { parseRosterFile } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Class, Student } from '@/types';
+
+interface RosterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClassImported?: (classId: number) => void;
+}
+
+export function RosterDialog({ open, onOpenChange, onClassImported }: RosterDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedClassId, setSelectedClassId] = useState<string>('_new');
+  const [className, setClassName] = useState('');
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes'],
+    enabled: open
+  });
+
+  // Create the class if needed, then upload the parsed roster rows
+  const importRosterMutation = useMutation({
+    mutationFn: async () => {
+      if (!rosterFile) throw new Error('Please select a roster file.');
+
+      const rows = await parseRosterFile(rosterFile);
+
+      let classId = parseInt(selectedClassId);
+      if (selectedClassId === '_new') {
+        if (!className.trim()) throw new Error('Please enter a class name.');
+        const classRes = await apiRequest('POST', '/api/classes', { name: className.trim() });
+        classId = (await classRes.json() as Class).id;
+      }
+
+      const res = await apiRequest('POST', `/api/classes/${classId}/students`, { students: rows });
+      const data = await res.json() as { students: Student[]; skipped: number };
+      return { classId, ...data };
+    },
+    onSuccess: ({ classId, students, skipped }) => {
+      toast({
+        title: 'Roster imported',
+        description: `${students.length} students added${skipped > 0 ? `, ${skipped} already on the roster` : ''}.`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/classes'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/students`] });
+      onClassImported?.(classId);
+      setRosterFile(null);
+      setClassName('');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error importing roster',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleFileError = useCallback((error: string) => {
+    toast({
+      title: 'File Upload Error',
+      description: error,
+      variant: 'destructive'
+    });
+  }, [toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Class Roster</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with a student name column and, optionally, a student ID column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <div>
+            <Label htmlFor="roster-class">Class</Label>
+            <Select value={selectedClassId} onValueChange={setSelectedClassId}>
+              <SelectTrigger id="roster-class">
+                <SelectValue placeholder="Select class" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="_new">New class...</SelectItem>
+                {classes.map((c) => (
+                  <SelectItem key={c.id} value={c.id.toString()}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedClassId === '_new' && (
+            <div>
+              <Label htmlFor="roster-class-name">Class Name</Label>
+              <Input
+                id="roster-class-name"
+                value={className}
+                onChange={(e) => setClassName(e.target.value)}
+                placeholder="e.g., Year 10 Biology"
+              />
+            </div>
+          )}
+
+          {rosterFile ? (
+            <div className="flex items-center">
+              <span className="material-icons text-success mr-2">check_circle</span>
+              <span className="text-sm font-medium text-gray-700">{rosterFile.name}</span>
+              <button
+                onClick={() => setRosterFile(null)}
+                className="ml-auto text-red-500 hover:text-red-600"
+              >
+                <span className="material-icons">delete</span>
+              </button>
+            </div>
+          ) : (
+            <FileInput
+              onChange={setRosterFile}
+              onError={handleFileError}
+              accept=".csv,.xlsx,.xls"
+              acceptText="Supported formats: .csv, .xlsx"
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => importRosterMutation.mutate()}
+            disabled={!rosterFile || importRosterMutation.isPending}
+          >
+            {importRosterMutation.isPending ? 'Importing...' : 'Import Roster'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
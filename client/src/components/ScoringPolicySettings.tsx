@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useTestGrader } from '@/context/TestGraderContext';
+import { ScoringPolicy, Test } from '@/types';
+
+interface ScoringPolicySettingsProps {
+  test: Test;
+}
+
+const DEFAULT_POLICY: ScoringPolicy = {
+  wrongPenalty: 0,
+  blankHandling: 'zero',
+  floorAtZero: true,
+  partialCredit: 'none',
+  voidedCredit: 'none'
+};
+
+// Penalties most exams use, as a share of the question's points
+const PENALTY_OPTIONS = [
+  { value: '0', label: 'No penalty' },
+  { value: '0.25', label: '¼ of the points' },
+  { value: '0.3333', label: '⅓ of the points' },
+  { value: '0.5', label: '½ of the points' },
+  { value: '1', label: 'All of the points' }
+];
+
+export function ScoringPolicySettings({ test }: ScoringPolicySettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { setCurrentTest } = useTestGrader();
+  const [policy, setPolicy] = useState<ScoringPolicy>({ ...DEFAULT_POLICY, ...test.scoringPolicy });
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PUT', `/api/tests/${test.id}/scoring-policy`, policy);
+      return res.json() as Promise<Test>;
+    },
+    onSuccess: (data) => {
+      setCurrentTest(data);
+      queryClient.invalidateQueries({ queryKey: ['/api/tests'] });
+      toast({
+        title: 'Scoring policy saved',
+        description: 'Papers graded from now on will use the new policy.'
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error saving scoring policy',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-5 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Scoring Policy</h3>
+        <p className="text-xs text-gray-500">
+          How points are awarded for wrong, blank and partly right answers.
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="wrong-penalty" className="text-xs">Wrong answer</Label>
+          <Select
+            value={PENALTY_OPTIONS.find(option => Math.abs(parseFloat(option.value) - policy.wrongPenalty) < 0.001)?.value ?? '0'}
+            onValueChange={(value) => setPolicy({ ...policy, wrongPenalty: parseFloat(value) })}
+          >
+            <SelectTrigger id="wrong-penalty">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PENALTY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="blank-handling" className="text-xs">Blank answer</Label>
+          <Select
+            value={policy.blankHandling}
+            onValueChange={(value) => setPolicy({ ...policy, blankHandling: value as ScoringPolicy['blankHandling'] })}
+          >
+            <SelectTrigger id="blank-handling">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="zero">Scores zero</SelectItem>
+              <SelectItem value="penalize">Penalised like a wrong answer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="partial-credit" className="text-xs">Multi-select questions</Label>
+          <Select
+            value={policy.partialCredit}
+            onValueChange={(value) => setPolicy({ ...policy, partialCredit: value as ScoringPolicy['partialCredit'] })}
+          >
+            <SelectTrigger id="partial-credit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">All or nothing</SelectItem>
+              <SelectItem value="proportional">Credit per right option, none if any wrong</SelectItem>
+              <SelectItem value="right_minus_wrong">Right options minus wrong options</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <Label htmlFor="voided-credit" className="text-xs">Voided questions</Label>
+          <Select
+            value={policy.voidedCredit ?? 'none'}
+            onValueChange={(value) => setPolicy({ ...policy, voidedCredit: value as ScoringPolicy['voidedCredit'] })}
+          >
+            <SelectTrigger id="voided-credit">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No one gets credit</SelectItem>
+              <SelectItem value="full">Everyone gets its points, like a bonus</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="floor-at-zero" className="text-sm text-gray-600">
+          Never score below zero
+        </Label>
+        <Switch
+          id="floor-at-zero"
+          checked={policy.floorAtZero}
+          onCheckedChange={(checked) => setPolicy({ ...policy, floorAtZero: checked })}
+        />
+      </div>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => savePolicyMutation.mutate()} disabled={savePolicyMutation.isPending}>
+          {savePolicyMutation.isPending ? 'Saving...' : 'Save Policy'}
+        </Button>
+      </div>
+    </div>
+  );
+}
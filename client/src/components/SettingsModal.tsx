@@ -13,7 +13,14 @@ import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getOpenAISettings, updateOpenAISettings } from '@/lib/openai';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { getOpenAISettings, updateOpenAISettings, getRecognitionProviders } from '@/lib/openai';
 import { useTestGrader } from '@/context/TestGraderContext';
 
 interface SettingsModalProps {
@@ -32,6 +39,9 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
   const [confidenceThreshold, setConfidenceThreshold] = useState(21);
   const [temperature, setTemperature] = useState(0.1);
   const [topP, setTopP] = useState(1);
+  const [recognitionProvider, setRecognitionProvider] = useState('openai');
+  const [processingConcurrency, setProcessingConcurrency] = useState(2);
+  const [processingMaxAttempts, setProcessingMaxAttempts] = useState(3);
   
   // Query to get current settings
   const { data: settings, isLoading } = useQuery({
@@ -39,6 +49,14 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     queryFn: getOpenAISettings
   });
   
+  // Query to get the recognition providers the server offers
+  const { data: providers = [] } = useQuery({
+    queryKey: ['/api/recognition-providers'],
+    queryFn: getRecognitionProviders,
+    enabled: open
+  });
+  const selectedProvider = providers.find(p => p.id === recognitionProvider);
+  
   // Update local state when settings data changes
   useEffect(() => {
     if (settings) {
@@ -47,6 +65,9 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       setConfidenceThreshold(settings.confidenceThreshold);
       if (settings.temperature !== undefined) setTemperature(settings.temperature);
       if (settings.topP !== undefined) setTopP(settings.topP);
+      if (settings.recognitionProvider) setRecognitionProvider(settings.recognitionProvider);
+      if (settings.processingConcurrency) setProcessingConcurrency(settings.processingConcurrency);
+      if (settings.processingMaxAttempts) setProcessingMaxAttempts(settings.processingMaxAttempts);
     }
   }, [settings]);
   
@@ -77,7 +98,10 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       enhancedRecognition,
       confidenceThreshold,
       temperature,
-      topP
+      topP,
+      recognitionProvider,
+      processingConcurrency,
+      processingMaxAttempts
     });
   };
   
@@ -115,6 +139,29 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
             />
           </div>
           
+          <div className="mb-5">
+            <Label htmlFor="recognition-provider" className="text-sm font-medium text-gray-700 mb-2 block">
+              Recognition Provider
+            </Label>
+            <Select value={recognitionProvider} onValueChange={setRecognitionProvider}>
+              <SelectTrigger id="recognition-provider">
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}{provider.available ? '' : ' (unavailable)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedProvider && (
+              <p className={`text-xs mt-1 ${selectedProvider.available ? 'text-gray-500' : 'text-red-600'}`}>
+                {selectedProvider.available ? selectedProvider.description : selectedProvider.reason}
+              </p>
+            )}
+          </div>
+          
           <div className="mb-5">
             <h3 className="text-sm font-medium text-gray-700 mb-2">AI Model Settings</h3>
             
@@ -173,6 +220,35 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
             </div>
           </div>
           
+          <div className="mb-5">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Batch Processing</h3>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="processing-concurrency">Pages processed at once ({processingConcurrency})</Label>
+                <Slider
+                  id="processing-concurrency"
+                  min={1}
+                  max={8}
+                  step={1}
+                  value={[processingConcurrency]}
+                  onValueChange={(value) => setProcessingConcurrency(value[0])}
+                />
+              </div>
+              <div>
+                <Label htmlFor="processing-max-attempts">Attempts per page ({processingMaxAttempts})</Label>
+                <Slider
+                  id="processing-max-attempts"
+                  min={1}
+                  max={5}
+                  step={1}
+                  value={[processingMaxAttempts]}
+                  onValueChange={(value) => setProcessingMaxAttempts(value[0])}
+                />
+                <p className="text-xs text-gray-500 mt-1">Failed pages are retried automatically before being reported</p>
+              </div>
+            </div>
+          </div>
+          
           <div className="mb-5">
             <h3 className="text-sm font-medium text-gray-700 mb-2">Storage</h3>
             <div className="flex justify-between items-center">
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useTestGrader } from '@/context/TestGraderContext';
+import { useToast } from '@/hooks/use-toast';
+import { RosterDialog } from './RosterDialog';
+import { Class, Student, Submission } from '@/types';
+
+export function StudentPicker() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { currentSubmission, setCurrentSubmission } = useTestGrader();
+  const [classId, setClassId] = useState<number | null>(null);
+  const [rosterDialogOpen, setRosterDialogOpen] = useState(false);
+
+  const { data: classes = [] } = useQuery<Class[]>({
+    queryKey: ['/api/classes']
+  });
+
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: [`/api/classes/${classId}/students`],
+    enabled: classId !== null
+  });
+
+  // Default to the first class so the common single-class case needs no extra click
+  useEffect(() => {
+    if (classId === null && classes.length > 0) {
+      setClassId(classes[0].id);
+    }
+  }, [classId, classes]);
+
+  // Attach the selected student to the paper being captured
+  const assignStudentMutation = useMutation({
+    mutationFn: async (studentId: number | null) => {
+      if (!currentSubmission) throw new Error('No active paper');
+      const res = await apiRequest('PATCH', `/api/submissions/${currentSubmission.id}`, { studentId });
+      return res.json() as Promise<Submission>;
+    },
+    onSuccess: (data) => {
+      setCurrentSubmission(data);
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${data.testId}/submissions`] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error assigning student',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">Student</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRosterDialogOpen(true)}
+          className="text-xs"
+        >
+          <span className="material-icons mr-1 text-sm">group_add</span>
+          Import Roster
+        </Button>
+      </div>
+
+      {classes.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          No class rosters yet. Import a roster to assign papers to students.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="picker-class" className="text-xs">Class</Label>
+            <Select
+              value={classId?.toString() ?? ''}
+              onValueChange={(value) => setClassId(parseInt(value))}
+            >
+              <SelectTrigger id="picker-class">
+                <SelectValue placeholder="Select class" />
+              </SelectTrigger>
+              <SelectContent>
+                {classes.map((c) => (
+                  <SelectItem key={c.id} value={c.id.toString()}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="picker-student" className="text-xs">Student</Label>
+            <Select
+              value={currentSubmission?.studentId?.toString() ?? '_none'}
+              onValueChange={(value) => assignStudentMutation.mutate(value === '_none' ? null : parseInt(value))}
+              disabled={!currentSubmission || assignStudentMutation.isPending}
+            >
+              <SelectTrigger id="picker-student">
+                <SelectValue placeholder="Select student" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="_none">Unassigned</SelectItem>
+                {students.map((student) => (
+                  <SelectItem key={student.id} value={student.id.toString()}>
+                    {student.name}{student.studentNumber ? ` (${student.studentNumber})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      <RosterDialog
+        open={rosterDialogOpen}
+        onOpenChange={setRosterDialogOpen}
+        onClassImported={setClassId}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { SubmissionWithResult, Test, TriagePage } from '@/types';
+
+interface TriageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TriageDialog({ open, onOpenChange }: TriageDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [testId, setTestId] = useState<string>('');
+  const [submissionId, setSubmissionId] = useState<string>('_new');
+  const [pageNumber, setPageNumber] = useState('1');
+
+  const { data: triagePages = [] } = useQuery<TriagePage[]>({
+    queryKey: ['/api/triage'],
+    enabled: open
+  });
+
+  const { data: tests = [] } = useQuery<Test[]>({
+    queryKey: ['/api/tests'],
+    enabled: open
+  });
+
+  const { data: submissions = [] } = useQuery<SubmissionWithResult[]>({
+    queryKey: [`/api/tests/${testId}/submissions`],
+    enabled: open && testId !== ''
+  });
+
+  // Work through the queue oldest first
+  const current = triagePages[0];
+
+  // Pre-fill whatever the server managed to read from the page
+  useEffect(() => {
+    if (!current) return;
+    setTestId(current.testId ? current.testId.toString() : '');
+    setPageNumber((current.pageNumber ?? 1).toString());
+    setSubmissionId('_new');
+  }, [current?.id]);
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      if (!current) throw new Error('Nothing to assign');
+      if (!testId) throw new Error('Please select a test.');
+      const res = await apiRequest('POST', `/api/triage/${current.id}/assign`, {
+        testId: parseInt(testId),
+        pageNumber: parseInt(pageNumber) || 1,
+        submissionId: submissionId === '_new' ? null : parseInt(submissionId)
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Page assigned',
+        description: `Page ${pageNumber} has been added to the paper.`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/triage'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${testId}/submissions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${testId}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error assigning page',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      if (!current) throw new Error('Nothing to discard');
+      await apiRequest('DELETE', `/api/triage/${current.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/triage'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error discarding page',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Page Triage</DialogTitle>
+          <DialogDescription>
+            {current
+              ? `${triagePages.length} page${triagePages.length === 1 ? '' : 's'} could not be routed automatically.`
+              : 'All captured pages have been routed.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && (
+          <div className="py-4 space-y-4">
+            <div className="flex gap-4">
+              {current.imageData && (
+                <img
+                  src={current.imageData.startsWith('data:') ? current.imageData : `data:image/jpeg;base64,${current.imageData}`}
+                  alt="Unrouted page"
+                  className="w-32 h-44 object-cover rounded border border-gray-200"
+                />
+              )}
+              <div className="text-sm text-gray-600 space-y-1">
+                <p className="font-medium text-gray-800">{current.reason}</p>
+                {current.studentNumber && <p>Student ID read: {current.studentNumber}</p>}
+                <p>Captured {new Date(current.createdAt).toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="triage-test">Test</Label>
+              <Select value={testId} onValueChange={(value) => { setTestId(value); setSubmissionId('_new'); }}>
+                <SelectTrigger id="triage-test">
+                  <SelectValue placeholder="Select test" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tests.map((test) => (
+                    <SelectItem key={test.id} value={test.id!.toString()}>
+                      {test.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <Label htmlFor="triage-paper">Paper</Label>
+                <Select value={submissionId} onValueChange={setSubmissionId} disabled={!testId}>
+                  <SelectTrigger id="triage-paper">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="_new">New paper</SelectItem>
+                    {submissions.map((submission) => (
+                      <SelectItem key={submission.id} value={submission.id.toString()}>
+                        {submission.student?.name ?? submission.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-24">
+                <Label htmlFor="triage-page">Page</Label>
+                <Input
+                  id="triage-page"
+                  type="number"
+                  min={1}
+                  value={pageNumber}
+                  onChange={(e) => setPageNumber(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {current ? (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => discardMutation.mutate()}
+                disabled={discardMutation.isPending}
+              >
+                Discard
+              </Button>
+              <Button
+                onClick={() => assignMutation.mutate()}
+                disabled={!testId || assignMutation.isPending}
+              >
+                {assignMutation.isPending ? 'Assigning...' : 'Assign Page'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { MarkSchemeEntry, Page, Test, TestGraderStep, Result, DetailedResultItem } from '@/types';
+import { MarkSchemeEntry, Page, Test, Submission, TestGraderStep, Result, DetailedResultItem, JobProgress } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { ExcelPreviewRow, ExcelColumnMap } from '@shared/schema';
 
@@ -7,6 +7,7 @@ interface TestGraderContextType {
   // State
   currentStep: TestGraderStep;
   currentTest: Test | null;
+  currentSubmission: Submission | null;
   markScheme: MarkSchemeEntry[];
   capturedPages: Page[];
   testResult: Result | null;
@@ -14,6 +15,7 @@ interface TestGraderContextType {
   processingPage: number | null;
   totalProcessingPages: number;
   processingProgress: number;
+  processingJob: JobProgress | null;
   
   // Excel column mapping state
   excelFile: File | null;
@@ -25,6 +27,7 @@ interface TestGraderContextType {
   // Actions
   setStep: (step: TestGraderStep) => void;
   setCurrentTest: (test: Test | null) => void;
+  setCurrentSubmission: (submission: Submission | null) => void;
   setMarkScheme: (markScheme: MarkSchemeEntry[]) => void;
   addCapturedPage: (page: Page) => void;
   removeCapturedPage: (pageNumber: number) => void;
@@ -34,6 +37,7 @@ interface TestGraderContextType {
   startProcessing: (totalPages: number) => void;
   updateProcessingStatus: (pageNumber: number, progress: number) => void;
   finishProcessing: () => void;
+  setProcessingJob: (job: JobProgress | null) => void;
   resetTestGrader: () => void;
   
   // Excel column mapping actions
@@ -52,6 +56,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
   // State for the grading process
   const [currentStep, setCurrentStep] = useState<TestGraderStep>('mark-scheme');
   const [currentTest, setCurrentTest] = useState<Test | null>(null);
+  const [currentSubmission, setCurrentSubmission] = useState<Submission | null>(null);
   const [markScheme, setMarkScheme] = useState<MarkSchemeEntry[]>([]);
   const [capturedPages, setCapturedPages] = useState<Page[]>([]);
   const [testResult, setTestResult] = useState<Result | null>(null);
@@ -61,6 +66,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
   const [processingPage, setProcessingPage] = useState<number | null>(null);
   const [totalProcessingPages, setTotalProcessingPages] = useState<number>(0);
   const [processingProgress, setProcessingProgress] = useState<number>(0);
+  const [processingJob, setProcessingJob] = useState<JobProgress | null>(null);
   
   // State for Excel column mapping
   const [excelFile, setExcelFile] = useState<File | null>(null);
@@ -98,6 +104,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     setProcessingPage(null);
     setProcessingProgress(0);
     setTotalProcessingPages(0);
+    setProcessingJob(null);
   }, []);
   
   // Start processing images
@@ -105,6 +112,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     setTotalProcessingPages(totalPages);
     setProcessingPage(1);
     setProcessingProgress(0);
+    setProcessingJob(null);
   }, []);
   
   // Update processing status
@@ -127,6 +135,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
   const resetTestGrader = useCallback(() => {
     setCurrentStep('mark-scheme');
     setCurrentTest(null);
+    setCurrentSubmission(null);
     setMarkScheme([]);
     setCapturedPages([]);
     setTestResult(null);
@@ -134,6 +143,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     setProcessingPage(null);
     setTotalProcessingPages(0);
     setProcessingProgress(0);
+    setProcessingJob(null);
     
     // Reset Excel column mapping state
     setExcelFile(null);
@@ -147,6 +157,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     // State
     currentStep,
     currentTest,
+    currentSubmission,
     markScheme,
     capturedPages,
     testResult,
@@ -154,6 +165,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     processingPage,
     totalProcessingPages,
     processingProgress,
+    processingJob,
     
     // Excel column mapping state
     excelFile,
@@ -165,6 +177,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     // Actions
     setStep,
     setCurrentTest,
+    setCurrentSubmission,
     setMarkScheme,
     addCapturedPage,
     removeCapturedPage,
@@ -174,6 +187,7 @@ export function TestGraderProvider({ children }: { children: ReactNode }) {
     startProcessing,
     updateProcessingStatus,
     finishProcessing,
+    setProcessingJob,
     resetTestGrader,
     
     // Excel column mapping actions
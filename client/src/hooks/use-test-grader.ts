@@ -3,14 +3,16 @@ import { useTestGrader } from '@/context/TestGraderContext';
 import { apiRequest } from '@/lib/queryClient';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
-import { Test, Page, Result, MarkSchemeEntry } from '@/types';
+import { Test, Page, PageUploadResponse, Result, Submission, Job, JobProgress, ReviewItem } from '@/types';
 import { parseExcelMarkScheme } from '@/lib/utils';
+import { watchJob } from '@/lib/jobs';
 
 export function useTestGraderActions() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const {
     setCurrentTest,
+    setCurrentSubmission,
     setMarkScheme,
     addCapturedPage,
     removeCapturedPage,
@@ -19,9 +21,11 @@ export function useTestGraderActions() {
     startProcessing,
     updateProcessingStatus,
     finishProcessing,
+    setProcessingJob,
     setStep,
     capturedPages,
-    currentTest
+    currentTest,
+    currentSubmission
   } = useTestGrader();
   
   const [excelParseError, setExcelParseError] = useState<string | null>(null);
@@ -91,11 +95,15 @@ export function useTestGraderActions() {
     },
     onSuccess: (data) => {
       setMarkScheme(data.entries);
+      if (data.test) {
+        setCurrentTest(data.test);
+      }
       toast({
         title: 'Mark scheme uploaded',
         description: `${data.entries.length} questions loaded successfully.`
       });
       queryClient.invalidateQueries({ queryKey: [`/api/mark-scheme/${currentTest?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/mark-scheme/${currentTest?.id}/versions`] });
       setStep('capture');
     },
     onError: (error) => {
@@ -107,31 +115,79 @@ export function useTestGraderActions() {
     }
   });
   
+  // Start a new submission (the next student's paper) for a test
+  const startSubmissionMutation = useMutation({
+    mutationFn: async (testId: number) => {
+      const res = await apiRequest('POST', `/api/tests/${testId}/submissions`, {});
+      return res.json() as Promise<Submission>;
+    },
+    onSuccess: (data) => {
+      setCurrentSubmission(data);
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${data.testId}/submissions`] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error starting paper',
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  });
+  
   // Capture an image
   const captureImageMutation = useMutation({
     mutationFn: async ({ 
       imageData, 
       pageNumber,
-      testId 
+      testId,
+      submissionId
     }: { 
       imageData: string, 
       pageNumber: number,
-      testId: number 
+      testId: number,
+      submissionId: number
     }) => {
       const res = await apiRequest('POST', '/api/pages', {
         imageData,
         pageNumber,
-        testId
+        testId,
+        submissionId
       });
-      return res.json() as Promise<Page>;
+      return res.json() as Promise<PageUploadResponse>;
     },
     onSuccess: (data) => {
+      if ('triaged' in data) {
+        toast({
+          title: 'Page sent to triage',
+          description: `${data.triagePage.reason}. Assign it from the triage queue.`,
+          variant: 'destructive'
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/triage'] });
+        return;
+      }
+      
+      // The sheet's QR code may have put the page on a different student's paper
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${data.testId}/submissions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/pages/${data.testId}`] });
+      if (data.testId !== currentTest?.id || data.submissionId !== currentSubmission?.id) {
+        toast({
+          title: 'Page routed to another paper',
+          description: `The sheet's code placed this page on paper ${data.submissionId} of test ${data.testId}.`
+        });
+        return;
+      }
+      
       addCapturedPage(data);
       toast({
         title: 'Image captured',
         description: `Page ${data.pageNumber} has been captured.`
       });
-      queryClient.invalidateQueries({ queryKey: [`/api/pages/${currentTest?.id}`] });
+      
+      // A student identified on the sheet is attached to the current paper
+      apiRequest('GET', `/api/submissions/${data.submissionId}`)
+        .then(res => res.json() as Promise<Submission>)
+        .then(setCurrentSubmission)
+        .catch(() => {});
     },
     onError: (error) => {
       toast({
@@ -142,87 +198,86 @@ export function useTestGraderActions() {
     }
   });
   
-  // Process images
+  // Show a graded submission's result: load its per-question breakdown and move to the results step
+  const showGradedResult = async (result: Result) => {
+    const detailedRes = await fetch(`/api/submissions/${result.submissionId}/detailed`, {
+      credentials: 'include'
+    });
+    const detailedResults = await detailedRes.json();
+    
+    setTestResult(result);
+    setDetailedResults(detailedResults);
+    
+    toast({
+      title: 'Processing complete',
+      description: `Score: ${result.scorePercentage}% (${result.pointsEarned}/${result.totalPoints} points)`
+    });
+    
+    setStep('results');
+    
+    queryClient.invalidateQueries({ queryKey: [`/api/tests/${result.testId}/submissions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/submissions/${result.submissionId}/detailed`] });
+  };
+  
+  // Process images on the server's job queue, following its progress over Server-Sent Events
+  // Pass the ID of a finished job to retry just its failed pages
   const processImagesMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (retryJobId: number | void) => {
       if (!currentTest) throw new Error('No active test');
+      if (!currentSubmission) throw new Error('No active paper');
       if (capturedPages.length === 0) throw new Error('No pages to process');
       
       startProcessing(capturedPages.length);
       
-      const results: Record<string, string> = {};
-      
-      // Process each page sequentially
-      for (let i = 0; i < capturedPages.length; i++) {
-        const page = capturedPages[i];
-        
-        // Update processing status
-        updateProcessingStatus(i + 1, (i / capturedPages.length) * 100);
-        
-        // Process the image
-        const res = await apiRequest('POST', `/api/pages/${page.id}/process`, {});
-        const data = await res.json();
-        
-        // Merge the extracted answers
-        Object.assign(results, data.extractedAnswers);
-        
-        // Update progress
-        updateProcessingStatus(i + 1, ((i + 1) / capturedPages.length) * 100);
+      let jobId: number;
+      if (retryJobId) {
+        const retryRes = await apiRequest('POST', `/api/jobs/${retryJobId}/retry`, {});
+        jobId = (await retryRes.json() as JobProgress).job.id;
+      } else {
+        const jobRes = await apiRequest('POST', '/api/jobs', { submissionId: currentSubmission.id });
+        jobId = (await jobRes.json() as Job).id;
       }
       
-      // Calculate the score
-      const markSchemeRes = await fetch(`/api/mark-scheme/${currentTest.id}`, {
-        credentials: 'include'
+      const { job, items } = await watchJob(jobId, (progress) => {
+        const { totalItems, completedItems, failedItems } = progress.job;
+        const done = completedItems + failedItems;
+        setProcessingJob(progress);
+        updateProcessingStatus(Math.min(done + 1, totalItems), totalItems > 0 ? (done / totalItems) * 100 : 0);
       });
-      const markScheme = await markSchemeRes.json() as MarkSchemeEntry[];
-      
-      let pointsEarned = 0;
-      let totalPoints = 0;
       
-      markScheme.forEach(entry => {
-        totalPoints += entry.points;
-        
-        const studentAnswer = results[entry.questionNumber.toString()];
-        if (studentAnswer && studentAnswer.toUpperCase() === entry.expectedAnswer.toUpperCase()) {
-          pointsEarned += entry.points;
-        }
-      });
-      
-      const scorePercentage = Math.round((pointsEarned / totalPoints) * 100);
-      
-      // Save the result
-      const resultRes = await apiRequest('POST', '/api/results', {
-        testId: currentTest.id,
-        studentAnswers: results,
-        pointsEarned,
-        totalPoints,
-        scorePercentage
-      });
-      
-      const result = await resultRes.json() as Result;
+      if (job.status === 'cancelled') {
+        throw new Error('Processing was cancelled.');
+      }
+      if (job.status === 'failed') {
+        const firstError = items.find(item => item.error)?.error;
+        throw new Error(`${job.failedItems} of ${job.totalItems} pages could not be processed${firstError ? `: ${firstError}` : '.'}`);
+      }
       
-      // Get detailed results
-      const detailedRes = await fetch(`/api/results/${currentTest.id}/detailed`, {
-        credentials: 'include'
-      });
-      const detailedResults = await detailedRes.json();
+      // Grade the submission; the server merges its page answers and scores them
+      const gradeRes = await apiRequest('POST', `/api/submissions/${currentSubmission.id}/grade`, {});
+      const graded = await gradeRes.json() as Result | { needsReview: true; reviewItems: ReviewItem[] };
       
-      return { result, detailedResults };
+      // Grading is held until a reviewer checks the flagged answers
+      if ('needsReview' in graded) {
+        return { needsReview: true as const, reviewItems: graded.reviewItems };
+      }
+      return { needsReview: false as const, result: graded };
     },
-    onSuccess: ({ result, detailedResults }) => {
-      setTestResult(result);
-      setDetailedResults(detailedResults);
-      finishProcessing();
+    onSuccess: async (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/tests/${currentTest?.id}/submissions`] });
       
-      toast({
-        title: 'Processing complete',
-        description: `Score: ${result.scorePercentage}% (${result.pointsEarned}/${result.totalPoints} points)`
-      });
-      
-      setStep('results');
+      if (data.needsReview) {
+        finishProcessing();
+        queryClient.invalidateQueries({ queryKey: ['/api/review'] });
+        toast({
+          title: 'Review needed',
+          description: `${data.reviewItems.length} answer${data.reviewItems.length === 1 ? '' : 's'} need checking before this paper is graded.`
+        });
+        return;
+      }
       
-      queryClient.invalidateQueries({ queryKey: [`/api/results/${currentTest?.id}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/results/${currentTest?.id}/detailed`] });
+      finishProcessing();
+      await showGradedResult(data.result);
     },
     onError: (error) => {
       toast({
@@ -249,8 +304,10 @@ export function useTestGraderActions() {
     // Mutations
     createTestMutation,
     uploadMarkSchemeMutation,
+    startSubmissionMutation,
     captureImageMutation,
     processImagesMutation,
+    showGradedResult,
     
     // Query data
     testDetails,
@@ -0,0 +1,61 @@
+import { IngestProgress, IngestStatus, JobProgress, JobStatus } from '@/types';
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+const FINISHED_INGEST_STATUSES: IngestStatus[] = ['completed', 'failed'];
+
+/**
+ * Follow a processing job's Server-Sent Events until it finishes
+ * @param jobId Job to watch
+ * @param onProgress Called with every snapshot the server sends
+ * @returns The final snapshot once the job is completed, failed or cancelled
+ */
+export function watchJob(jobId: number, onProgress: (progress: JobProgress) => void): Promise<JobProgress> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`, { withCredentials: true });
+    
+    source.onmessage = (event) => {
+      const progress = JSON.parse(event.data) as JobProgress;
+      onProgress(progress);
+      
+      if (FINISHED_STATUSES.includes(progress.job.status)) {
+        source.close();
+        resolve(progress);
+      }
+    };
+    
+    // EventSource reconnects by itself after a network blip; only give up once it stops trying
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the processing job'));
+      }
+    };
+  });
+}
+
+/**
+ * Follow a bulk upload's Server-Sent Events until it finishes
+ * @param ingestId Upload to watch
+ * @param onProgress Called with every snapshot the server sends
+ * @returns The final snapshot once the upload is completed or failed
+ */
+export function watchIngest(ingestId: number, onProgress: (progress: IngestProgress) => void): Promise<IngestProgress> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/ingests/${ingestId}/events`, { withCredentials: true });
+    
+    source.onmessage = (event) => {
+      const progress = JSON.parse(event.data) as IngestProgress;
+      onProgress(progress);
+      
+      if (FINISHED_INGEST_STATUSES.includes(progress.status)) {
+        source.close();
+        resolve(progress);
+      }
+    };
+    
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the upload'));
+      }
+    };
+  });
+}
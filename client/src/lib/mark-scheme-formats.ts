@@ -0,0 +1,304 @@
+import * as XLSX from 'xlsx';
+import { strFromU8, unzipSync } from 'fflate';
+import { z } from 'zod';
+import { questionTypes, rubricCriterionSchema } from '@shared/schema';
+
+// Every file type the mark scheme uploader reads
+export const MARK_SCHEME_FILE_ACCEPT = '.xlsx,.xls,.ods,.csv,.json,.xml,.zip';
+
+export type MarkSchemeSourceFormat = 'spreadsheet' | 'csv' | 'json' | 'qti';
+
+// Rows read from a mark scheme file, before columns are mapped
+export interface MarkSchemeSource {
+  format: MarkSchemeSourceFormat;
+  rows: Record<string, any>[];
+  sheetNames: string[]; // Sheets of a workbook; empty for other formats
+  sheetName: string | null; // The sheet the rows came from
+}
+
+// Column names given to JSON and QTI rows, chosen so column auto-detection maps them
+export const IMPORTED_COLUMNS = {
+  questionNumber: 'Question Number',
+  expectedAnswer: 'Expected Answer',
+  points: 'Points',
+  questionType: 'Question Type',
+  alternatives: 'Alternative Answers',
+  rubric: 'Rubric'
+} as const;
+
+/**
+ * The JSON mark scheme format
+ *
+ *   {
+ *     "questions": [
+ *       { "question": 1, "answer": "B", "points": 1 },
+ *       { "question": 2, "answer": "AC", "type": "multi_select", "points": 2 },
+ *       { "question": 3, "answer": "9.8", "type": "numeric", "tolerance": 0.1 },
+ *       { "question": 4, "answer": "mitochondria", "alternatives": ["mitochondrion"] },
+ *       { "question": 5, "answer": "Model answer...", "type": "written", "points": 3,
+ *         "rubric": [{ "description": "Names the organelle", "points": 1 }] }
+ *     ]
+ *   }
+ *
+ * A bare array of questions is accepted too. "type" takes the same values as the Type column of a
+ * spreadsheet; when it is left out it is worked out from the answer. "points" defaults to 1.
+ */
+const markSchemeJsonQuestionSchema = z.object({
+  question: z.union([z.number().int().positive(), z.string().regex(/^\d+$/)]),
+  answer: z.union([z.string(), z.number(), z.boolean()]),
+  points: z.number().nonnegative().optional(),
+  type: z.union([z.enum(questionTypes), z.string()]).optional(),
+  alternatives: z.array(z.union([z.string(), z.number()])).optional(),
+  tolerance: z.number().nonnegative().optional(),
+  rubric: z.array(rubricCriterionSchema).optional()
+});
+
+const markSchemeJsonSchema = z.union([
+  z.object({ questions: z.array(markSchemeJsonQuestionSchema).min(1) }),
+  z.array(markSchemeJsonQuestionSchema).min(1)
+]);
+
+/**
+ * Read a file's contents
+ * @param file File to read
+ * @returns The raw bytes
+ */
+function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(new Uint8Array(e.target?.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Work out a mark scheme file's format from its name
+ * @param file Uploaded file
+ * @returns The format its rows are read with
+ */
+export function detectMarkSchemeFormat(file: File): MarkSchemeSourceFormat {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'json') return 'json';
+  if (extension === 'xml' || extension === 'zip') return 'qti';
+  return 'spreadsheet';
+}
+
+/**
+ * Turn the JSON mark scheme format into rows with the imported column names
+ * @param text File contents
+ * @returns One row per question
+ */
+export function markSchemeJsonToRows(text: string): Record<string, any>[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = markSchemeJsonSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    throw new Error(`The JSON doesn't match the mark scheme format at ${issue.path.join('.') || 'the top level'}: ${issue.message}`);
+  }
+
+  const questions = Array.isArray(parsed.data) ? parsed.data : parsed.data.questions;
+  return questions.map(question => ({
+    [IMPORTED_COLUMNS.questionNumber]: Number(question.question),
+    [IMPORTED_COLUMNS.expectedAnswer]: question.tolerance !== undefined
+      ? `${question.answer} ± ${question.tolerance}`
+      : typeof question.answer === 'boolean' ? (question.answer ? 'T' : 'F') : String(question.answer),
+    [IMPORTED_COLUMNS.points]: question.points ?? 1,
+    [IMPORTED_COLUMNS.questionType]: question.type ?? '',
+    [IMPORTED_COLUMNS.alternatives]: (question.alternatives ?? []).join('|'),
+    [IMPORTED_COLUMNS.rubric]: (question.rubric ?? []).map(criterion => `${criterion.description} (${criterion.points})`).join('; ')
+  }));
+}
+
+/**
+ * Find descendants by local name, whatever namespace prefix the QTI file uses
+ * @param parent Element or document to search
+ * @param name Local element name, e.g. "choiceInteraction"
+ * @returns Matching elements in document order
+ */
+function elementsByName(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name));
+}
+
+/**
+ * Read the values inside a QTI container such as correctResponse or defaultValue
+ * @param container The container element
+ * @returns Trimmed text of each value element
+ */
+function qtiValues(container: Element | undefined): string[] {
+  return container ? elementsByName(container, 'value').map(value => (value.textContent ?? '').trim()) : [];
+}
+
+/**
+ * Turn one QTI 2.1 assessment item into mark scheme rows, one per response it declares
+ * @param item assessmentItem element
+ * @param firstQuestionNumber Question number to give the item's first response
+ * @returns Rows with the imported column names
+ */
+function qtiItemToRows(item: Element, firstQuestionNumber: number): Record<string, any>[] {
+  const rows: Record<string, any>[] = [];
+  const maxScore = elementsByName(item, 'outcomeDeclaration').find(outcome => outcome.getAttribute('identifier') === 'MAXSCORE');
+  const itemPoints = Number(qtiValues(maxScore ? elementsByName(maxScore, 'defaultValue')[0] : undefined)[0]);
+
+  for (const declaration of elementsByName(item, 'responseDeclaration')) {
+    const identifier = declaration.getAttribute('identifier');
+    const interaction = Array.from(item.getElementsByTagNameNS('*', '*'))
+      .find(element => element.localName.endsWith('Interaction') && element.getAttribute('responseIdentifier') === identifier);
+    const correct = qtiValues(elementsByName(declaration, 'correctResponse')[0]);
+    const mapping = elementsByName(declaration, 'mapping')[0];
+    const mappedCorrect = mapping
+      ? elementsByName(mapping, 'mapEntry')
+        .filter(entry => Number(entry.getAttribute('mappedValue')) > 0)
+        .map(entry => entry.getAttribute('mapKey') ?? '')
+        .filter(Boolean)
+      : [];
+    const upperBound = Number(mapping?.getAttribute('upperBound'));
+    const points = itemPoints > 0 ? itemPoints : upperBound > 0 ? upperBound : 1;
+
+    let questionType = '';
+    let expectedAnswer = correct[0] ?? '';
+    let alternatives: string[] = [];
+
+    if (interaction?.localName === 'choiceInteraction') {
+      // Option letters follow the order the choices are listed in
+      const choices = elementsByName(interaction, 'simpleChoice');
+      const letterFor = (choiceId: string) => {
+        const index = choices.findIndex(choice => choice.getAttribute('identifier') === choiceId);
+        return index >= 0 ? String.fromCharCode(65 + index) : '';
+      };
+      const choiceTexts = choices.map(choice => (choice.textContent ?? '').trim().toLowerCase());
+      const isTrueFalse = choices.length === 2 && choiceTexts.includes('true') && choiceTexts.includes('false');
+
+      if (declaration.getAttribute('cardinality') === 'multiple') {
+        questionType = 'multi_select';
+        expectedAnswer = correct.map(letterFor).sort().join('');
+      } else if (isTrueFalse) {
+        questionType = 'true_false';
+        const chosen = choices.find(choice => choice.getAttribute('identifier') === correct[0]);
+        expectedAnswer = (chosen?.textContent ?? '').trim().toLowerCase() === 'true' ? 'T' : 'F';
+      } else {
+        questionType = 'single_choice';
+        expectedAnswer = letterFor(correct[0] ?? '');
+      }
+    } else if (interaction?.localName === 'extendedTextInteraction') {
+      questionType = 'written';
+    } else {
+      const baseType = declaration.getAttribute('baseType');
+      questionType = baseType === 'float' || baseType === 'integer' ? 'numeric' : 'short_text';
+      alternatives = mappedCorrect.filter(answer => answer !== expectedAnswer);
+      if (!expectedAnswer && mappedCorrect.length > 0) {
+        expectedAnswer = mappedCorrect[0];
+        alternatives = mappedCorrect.slice(1);
+      }
+
+      // Response processing may compare numbers within an absolute tolerance
+      const equal = elementsByName(item, 'equal').find(element => element.getAttribute('toleranceMode') === 'absolute');
+      const tolerance = Number((equal?.getAttribute('tolerance') ?? '').trim().split(/\s+/)[0]);
+      if (questionType === 'numeric' && tolerance > 0) {
+        expectedAnswer = `${expectedAnswer} ± ${tolerance}`;
+      }
+    }
+
+    rows.push({
+      [IMPORTED_COLUMNS.questionNumber]: firstQuestionNumber + rows.length,
+      [IMPORTED_COLUMNS.expectedAnswer]: expectedAnswer,
+      [IMPORTED_COLUMNS.points]: points,
+      [IMPORTED_COLUMNS.questionType]: questionType,
+      [IMPORTED_COLUMNS.alternatives]: alternatives.join('|'),
+      [IMPORTED_COLUMNS.rubric]: ''
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Turn QTI 2.1 documents into mark scheme rows
+ * Items are numbered in the order they appear; a package's manifest decides the order of its files
+ * @param documents XML documents, in order
+ * @returns One row per response, with the imported column names
+ */
+export function qtiToRows(documents: string[]): Record<string, any>[] {
+  const parser = new DOMParser();
+  const rows: Record<string, any>[] = [];
+
+  for (const text of documents) {
+    const doc = parser.parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The QTI file is not well-formed XML.');
+    }
+    for (const item of elementsByName(doc, 'assessmentItem')) {
+      rows.push(...qtiItemToRows(item, rows.length + 1));
+    }
+  }
+
+  if (rows.length === 0) {
+    throw new Error('No QTI assessment items with answers were found in the file.');
+  }
+  return rows;
+}
+
+/**
+ * Pull the item files out of a QTI content package, in manifest order
+ * @param bytes The .zip package
+ * @returns Contents of each XML file that isn't the manifest
+ */
+function qtiPackageDocuments(bytes: Uint8Array): string[] {
+  const files = unzipSync(bytes);
+  const names = Object.keys(files).filter(name => name.toLowerCase().endsWith('.xml'));
+  const manifestName = names.find(name => name.toLowerCase().endsWith('imsmanifest.xml'));
+  let ordered = names.filter(name => name !== manifestName).sort();
+
+  if (manifestName) {
+    const manifest = new DOMParser().parseFromString(strFromU8(files[manifestName]), 'application/xml');
+    const base = manifestName.slice(0, manifestName.length - 'imsmanifest.xml'.length);
+    const listed = elementsByName(manifest, 'resource')
+      .map(resource => `${base}${resource.getAttribute('href') ?? ''}`)
+      .filter(name => ordered.includes(name));
+    ordered = [...listed, ...ordered.filter(name => !listed.includes(name))];
+  }
+
+  return ordered.map(name => strFromU8(files[name]));
+}
+
+/**
+ * Read the rows of a mark scheme file in any supported format
+ * @param file Spreadsheet, CSV, JSON, QTI XML or QTI package
+ * @param sheetName Workbook sheet to read; the first sheet when not given or not found
+ * @returns Rows keyed by column name, and the workbook's sheets
+ */
+export async function readMarkSchemeSource(file: File, sheetName?: string | null): Promise<MarkSchemeSource> {
+  const format = detectMarkSchemeFormat(file);
+  const bytes = await readFileBytes(file);
+
+  if (format === 'json') {
+    return { format, rows: markSchemeJsonToRows(strFromU8(bytes)), sheetNames: [], sheetName: null };
+  }
+
+  if (format === 'qti') {
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b; // "PK"
+    const documents = isZip ? qtiPackageDocuments(bytes) : [strFromU8(bytes)];
+    return { format, rows: qtiToRows(documents), sheetNames: [], sheetName: null };
+  }
+
+  // CSV is read as text so non-ASCII answers survive
+  const workbook = format === 'csv'
+    ? XLSX.read(strFromU8(bytes), { type: 'string' })
+    : XLSX.read(bytes, { type: 'array' });
+  const selected = sheetName && workbook.SheetNames.includes(sheetName) ? sheetName : workbook.SheetNames[0];
+  const rows = XLSX.utils.sheet_to_json(workbook.Sheets[selected], { defval: "" }) as Record<string, any>[];
+
+  return {
+    format,
+    rows,
+    sheetNames: format === 'spreadsheet' ? workbook.SheetNames : [],
+    sheetName: format === 'spreadsheet' ? selected : null
+  };
+}
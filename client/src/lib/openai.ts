@@ -1,4 +1,4 @@
-import { Settings } from "@/types";
+import { Settings, RecognitionProviderInfo } from "@/types";
 
 /**
  * Client-side interface to the server-side OpenAI API
@@ -63,3 +63,19 @@ export async function updateOpenAISettings(settings: Partial<Settings>): Promise
   
   return response.json();
 }
+
+/**
+ * Get the answer-recognition providers registered on the server
+ * @returns The providers and whether each can currently run
+ */
+export async function getRecognitionProviders(): Promise<RecognitionProviderInfo[]> {
+  const response = await fetch('/api/recognition-providers', {
+    credentials: 'include'
+  });
+  
+  if (!response.ok) {
+    throw new Error('Failed to get recognition providers');
+  }
+  
+  return response.json();
+}
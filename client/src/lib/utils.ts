@@ -2,7 +2,9 @@ import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import * as XLSX from 'xlsx';
 import { z } from 'zod';
-import { markSchemeRowSchema, ExcelPreviewRow, ExcelColumnMap } from '@shared/schema';
+import { markSchemeRowSchema, rosterRowSchema, ExcelPreviewRow, ExcelColumnMap, RosterRow, QuestionType } from '@shared/schema';
+import { inferQuestionType, parseQuestionType, parseRubric } from '@shared/answers';
+import { readMarkSchemeSource } from './mark-scheme-formats';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -63,210 +65,234 @@ export function isMobileDevice(): boolean {
 }
 
 /**
- * Parse an Excel file for preview before mapping columns
- * @param file Excel file to parse
- * @returns Preview of Excel data for column mapping
+ * Read a mark scheme file for preview before mapping columns
+ * @param file Spreadsheet, CSV, JSON or QTI file to read
+ * @param sheetName Workbook sheet to preview; the first sheet when not given
+ * @returns Preview rows for column mapping, and the workbook's sheets to choose from
  */
-export async function parseExcelForPreview(file: File): Promise<{
+export async function parseExcelForPreview(file: File, sheetName?: string | null): Promise<{
   data: ExcelPreviewRow[];
   columns: string[];
+  sheetNames: string[];
+  sheetName: string | null;
 }> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+  try {
+    const source = await readMarkSchemeSource(file, sheetName);
+    const jsonData = source.rows as ExcelPreviewRow[];
     
-    reader.onload = (e) => {
+    // Log the preview data for debugging
+    console.log(`Mark scheme preview data from ${source.format} file (first 5 rows):`, JSON.stringify(jsonData.slice(0, 5), null, 2));
+    
+    // Extract column headers
+    const columns = jsonData.length > 0 ? Object.keys(jsonData[0]) : [];
+    console.log("Detected columns:", columns);
+    
+    // Clean up the data before returning
+    const cleanData = jsonData.slice(0, 5).map(row => {
+      const cleanRow: ExcelPreviewRow = {};
+      
+      // Convert all values to strings for display consistency
+      Object.entries(row).forEach(([key, value]) => {
+        if (value === undefined || value === null) {
+          cleanRow[key] = "";
+        } else if (typeof value === 'object') {
+          cleanRow[key] = JSON.stringify(value);
+        } else {
+          cleanRow[key] = String(value);
+        }
+      });
+      
+      return cleanRow;
+    });
+    
+    return {
+      data: cleanData, // Return cleaned first 5 rows for preview
+      columns,
+      sheetNames: source.sheetNames,
+      sheetName: source.sheetName
+    };
+  } catch (error) {
+    console.error("Mark scheme preview error:", error);
+    throw new Error(`Failed to read mark scheme file for preview: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse a mark scheme file using column mapping
+ * Every format is read into rows first, so they all share the mapping and row validation
+ * @param file Spreadsheet, CSV, JSON or QTI file to parse
+ * @param columnMap Map of column names to fields
+ * @param sheetName Workbook sheet to read; the first sheet when not given
+ * @returns Parsed mark scheme data
+ */
+export async function parseExcelWithColumnMap(file: File, columnMap: ExcelColumnMap, sheetName?: string | null) {
+  // Validate column map first
+  if (!columnMap.questionNumberCol || !columnMap.expectedAnswerCol || !columnMap.pointsCol) {
+    console.error("Invalid column mapping", columnMap);
+    throw new Error("Column mapping is incomplete. Please select all required columns.");
+  }
+  
+  console.log("Using column mapping:", JSON.stringify(columnMap, null, 2));
+  
+  try {
+    const { rows: jsonData } = await readMarkSchemeSource(file, sheetName);
+    
+    if (!jsonData || !Array.isArray(jsonData) || jsonData.length === 0) {
+      throw new Error("No data found in the file or data format is invalid.");
+    }
+    
+    console.log("Raw Excel JSON data (first 3 rows):", JSON.stringify(jsonData.slice(0, 3), null, 2));
+    
+    // Check that the selected columns exist in the data
+    const firstRow = jsonData[0];
+    const columnsExist = [
+      columnMap.questionNumberCol in firstRow,
+      columnMap.expectedAnswerCol in firstRow,
+      columnMap.pointsCol in firstRow
+    ];
+    
+    if (!columnsExist[0] || !columnsExist[1] || !columnsExist[2]) {
+      console.error("One or more selected columns don't exist in the data:", {
+        questionNumberExists: columnsExist[0],
+        expectedAnswerExists: columnsExist[1],
+        pointsExists: columnsExist[2],
+        availableColumns: Object.keys(firstRow)
+      });
+      throw new Error(`One or more selected columns don't exist in the file. Available columns: ${Object.keys(firstRow).join(', ')}`);
+    }
+    
+    // Validate and normalize data using the column mapping
+    const markSchemeData = jsonData.map((row, index) => {
+      // Extract values directly from the row using the column mapping
+      let questionNumber = row[columnMap.questionNumberCol];
+      let expectedAnswer = row[columnMap.expectedAnswerCol];
+      let points = row[columnMap.pointsCol] || 1; // Default to 1 point if not specified
+      const typeCell = columnMap.questionTypeCol ? String(row[columnMap.questionTypeCol] ?? "").trim() : "";
+      let questionType: QuestionType | undefined = typeCell ? parseQuestionType(typeCell) : undefined;
+      let tolerance: number | null = null;
+      if (typeCell && !questionType) {
+        throw new Error(`Row ${index + 1} has an unknown question type "${typeCell}". Use single choice, multi-select, true/false, numeric, short text or written.`);
+      }
+      const rubricCell = columnMap.rubricCol ? String(row[columnMap.rubricCol] ?? "").trim() : "";
+      const rubric = rubricCell ? parseRubric(rubricCell) : null;
+      if (rubric && !questionType) {
+        // Only written answers are marked against a rubric
+        questionType = 'written';
+      }
+      const alternatives = columnMap.alternativeAnswersCol
+        ? String(row[columnMap.alternativeAnswersCol] ?? "").split(/[|,;]/).map(answer => answer.trim()).filter(Boolean)
+        : [];
+
+      console.log(`Row ${index + 1} raw values:`, {
+        questionNumber,
+        expectedAnswer,
+        points
+      });
+      
+      // Force conversion for question number
+      if (questionNumber === undefined || questionNumber === null) {
+        console.warn(`Warning: Row ${index + 1} has missing question number, using index + 1`);
+        questionNumber = index + 1;
+      }
+      
+      // Special handling for expected answer
+      if (expectedAnswer === undefined || expectedAnswer === null) {
+        console.warn(`Warning: Row ${index + 1} has undefined or null answer, using empty string`);
+        expectedAnswer = "";
+      } else if (expectedAnswer === "undefined" || String(expectedAnswer).toLowerCase() === "undefined") {
+        console.warn(`Warning: Row ${index + 1} has literal "undefined" string, using empty string`);
+        expectedAnswer = "";
+      } else if (expectedAnswer === "") {
+        console.log(`Row ${index + 1} has empty answer, that's ok for blank answers`);
+      } else {
+        // Normalize letter answers (including "b|d" alternatives) to uppercase for consistency
+        const answerStr = String(expectedAnswer).trim();
+        const withTolerance = answerStr.match(/^(.+?)\s*(?:±|\+\/-|\+-)\s*([\d.]+)$/);
+        if (withTolerance && (!questionType || questionType === 'numeric')) {
+          // "9.8 ± 0.1" is a numeric answer with a tolerance
+          expectedAnswer = withTolerance[1];
+          tolerance = parseFloat(withTolerance[2]);
+          questionType = 'numeric';
+        } else if (questionType !== 'short_text' && questionType !== 'written' && /^[A-Za-z](\s*\|\s*[A-Za-z])*$/.test(answerStr)) {
+          expectedAnswer = answerStr.toUpperCase();
+          console.log(`Normalized answer from "${answerStr}" to "${expectedAnswer}"`);
+        } else {
+          expectedAnswer = answerStr;
+        }
+      }
+      
+      // Accepted alternatives from their own column are kept as "B|D"
+      if (alternatives.length > 0) {
+        const accepted = [String(expectedAnswer).trim(), ...alternatives]
+          .filter(Boolean)
+          .map(answer => /^[A-Za-z]$/.test(answer) ? answer.toUpperCase() : answer);
+        expectedAnswer = Array.from(new Set(accepted)).join("|");
+      }
+      
+      // Force conversion for points
+      if (points === undefined || points === null || points === "") {
+        console.warn(`Warning: Row ${index + 1} has undefined points, using default 1`);
+        points = 1;
+      }
+      
+      // Create a validated object
       try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
+        // Convert types as needed before validation
+        const convertedData = {
+          questionNumber: typeof questionNumber === 'number' ? 
+            questionNumber : 
+            parseInt(String(questionNumber).replace(/\D/g, '') || `${index + 1}`), // Strip non-digits for better number parsing
+          expectedAnswer: String(expectedAnswer || ""), // Convert to string even if undefined
+          points: typeof points === 'number' ? 
+            points : 
+            (parseInt(String(points).replace(/\D/g, '') || "1") || 1), // Strip non-digits, default to 1
+          questionType: questionType ?? inferQuestionType(String(expectedAnswer || "")),
+          tolerance,
+          rubric
+        };
         
-        // Convert to JSON with default empty values
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: "" }) as ExcelPreviewRow[];
+        console.log(`Row ${index + 1} converted:`, convertedData);
         
-        // Log the preview data for debugging
-        console.log("Excel preview data (first 5 rows):", JSON.stringify(jsonData.slice(0, 5), null, 2));
-        
-        // Extract column headers
-        const columns = jsonData.length > 0 ? Object.keys(jsonData[0]) : [];
-        console.log("Detected columns:", columns);
-        
-        // Clean up the data before returning
-        const cleanData = jsonData.slice(0, 5).map(row => {
-          const cleanRow: ExcelPreviewRow = {};
-          
-          // Convert all values to strings for display consistency
-          Object.entries(row).forEach(([key, value]) => {
-            if (value === undefined || value === null) {
-              cleanRow[key] = "";
-            } else if (typeof value === 'object') {
-              cleanRow[key] = JSON.stringify(value);
-            } else {
-              cleanRow[key] = String(value);
-            }
-          });
-          
-          return cleanRow;
-        });
-        
-        resolve({
-          data: cleanData, // Return cleaned first 5 rows for preview
-          columns
-        });
+        return markSchemeRowSchema.parse(convertedData);
       } catch (error) {
-        console.error("Excel preview error:", error);
-        reject(new Error(`Failed to parse Excel file for preview: ${error instanceof Error ? error.message : String(error)}`));
+        console.error(`Row ${index + 1} validation error:`, error);
+        throw new Error(`Row ${index + 1} has invalid data: ${error instanceof Error ? error.message : String(error)}`);
       }
-    };
+    });
     
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
-    };
+    // Log the final processed data
+    console.log("Final processed mark scheme data (first 3 entries):", 
+      JSON.stringify(markSchemeData.slice(0, 3), null, 2));
     
-    reader.readAsArrayBuffer(file);
-  });
+    // Final validation: check if we got any data
+    if (!markSchemeData || markSchemeData.length === 0) {
+      throw new Error("No valid data could be parsed from the file.");
+    }
+    
+    return markSchemeData;
+  } catch (error) {
+    console.error("Failed to parse mark scheme file:", error);
+    throw new Error(`Failed to parse mark scheme file: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
 /**
- * Parse an Excel file containing a mark scheme using column mapping
- * @param file Excel file to parse
- * @param columnMap Map of column names to fields
- * @returns Parsed mark scheme data
+ * Read the rows of the first sheet of a CSV or Excel file
+ * @param file CSV or Excel file to read
+ * @returns Rows keyed by column header
  */
-export async function parseExcelWithColumnMap(file: File, columnMap: ExcelColumnMap) {
-  return new Promise<any[]>((resolve, reject) => {
+function readSheetRows(file: File): Promise<Record<string, any>[]> {
+  return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = (e) => {
       try {
-        // Validate column map first
-        if (!columnMap.questionNumberCol || !columnMap.expectedAnswerCol || !columnMap.pointsCol) {
-          console.error("Invalid column mapping", columnMap);
-          reject(new Error("Column mapping is incomplete. Please select all required columns."));
-          return;
-        }
-        
-        console.log("Using column mapping:", JSON.stringify(columnMap, null, 2));
-        
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
         const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to JSON with explicit header mapping
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: "" }) as Record<string, any>[];
-        
-        if (!jsonData || !Array.isArray(jsonData) || jsonData.length === 0) {
-          reject(new Error("No data found in Excel file or data format is invalid."));
-          return;
-        }
-        
-        console.log("Raw Excel JSON data (first 3 rows):", JSON.stringify(jsonData.slice(0, 3), null, 2));
-        
-        // Check that the selected columns exist in the data
-        const firstRow = jsonData[0];
-        const columnsExist = [
-          columnMap.questionNumberCol in firstRow,
-          columnMap.expectedAnswerCol in firstRow,
-          columnMap.pointsCol in firstRow
-        ];
-        
-        if (!columnsExist[0] || !columnsExist[1] || !columnsExist[2]) {
-          console.error("One or more selected columns don't exist in the data:", {
-            questionNumberExists: columnsExist[0],
-            expectedAnswerExists: columnsExist[1],
-            pointsExists: columnsExist[2],
-            availableColumns: Object.keys(firstRow)
-          });
-          reject(new Error(`One or more selected columns don't exist in the Excel file. Available columns: ${Object.keys(firstRow).join(', ')}`));
-          return;
-        }
-        
-        // Validate and normalize data using the column mapping
-        const markSchemeData = jsonData.map((row, index) => {
-          // Extract values directly from the row using the column mapping
-          let questionNumber = row[columnMap.questionNumberCol];
-          let expectedAnswer = row[columnMap.expectedAnswerCol];
-          let points = row[columnMap.pointsCol] || 1; // Default to 1 point if not specified
-
-          console.log(`Row ${index + 1} raw values:`, {
-            questionNumber,
-            expectedAnswer,
-            points
-          });
-          
-          // Force conversion for question number
-          if (questionNumber === undefined || questionNumber === null) {
-            console.warn(`Warning: Row ${index + 1} has missing question number, using index + 1`);
-            questionNumber = index + 1;
-          }
-          
-          // Special handling for expected answer
-          if (expectedAnswer === undefined || expectedAnswer === null) {
-            console.warn(`Warning: Row ${index + 1} has undefined or null answer, using empty string`);
-            expectedAnswer = "";
-          } else if (expectedAnswer === "undefined" || String(expectedAnswer).toLowerCase() === "undefined") {
-            console.warn(`Warning: Row ${index + 1} has literal "undefined" string, using empty string`);
-            expectedAnswer = "";
-          } else if (expectedAnswer === "") {
-            console.log(`Row ${index + 1} has empty answer, that's ok for blank answers`);
-          } else {
-            // Normalize letter answers to uppercase for consistency
-            const answerStr = String(expectedAnswer).trim();
-            if (/^[A-Za-z]$/.test(answerStr)) {
-              expectedAnswer = answerStr.toUpperCase();
-              console.log(`Normalized answer from "${answerStr}" to "${expectedAnswer}"`);
-            } else {
-              expectedAnswer = answerStr;
-            }
-          }
-          
-          // Force conversion for points
-          if (points === undefined || points === null || points === "") {
-            console.warn(`Warning: Row ${index + 1} has undefined points, using default 1`);
-            points = 1;
-          }
-          
-          // Create a validated object
-          try {
-            // Convert types as needed before validation
-            const convertedData = {
-              questionNumber: typeof questionNumber === 'number' ? 
-                questionNumber : 
-                parseInt(String(questionNumber).replace(/\D/g, '') || `${index + 1}`), // Strip non-digits for better number parsing
-              expectedAnswer: String(expectedAnswer || ""), // Convert to string even if undefined
-              points: typeof points === 'number' ? 
-                points : 
-                (parseInt(String(points).replace(/\D/g, '') || "1") || 1) // Strip non-digits, default to 1
-            };
-            
-            console.log(`Row ${index + 1} converted:`, convertedData);
-            
-            return markSchemeRowSchema.parse(convertedData);
-          } catch (error) {
-            console.error(`Row ${index + 1} validation error:`, error);
-            throw new Error(`Row ${index + 1} has invalid data: ${error instanceof Error ? error.message : String(error)}`);
-          }
-        });
-        
-        // Log the final processed data
-        console.log("Final processed mark scheme data (first 3 entries):", 
-          JSON.stringify(markSchemeData.slice(0, 3), null, 2));
-        
-        // Final validation: check if we got any data
-        if (!markSchemeData || markSchemeData.length === 0) {
-          reject(new Error("No valid data could be parsed from the Excel file."));
-          return;
-        }
-        
-        resolve(markSchemeData);
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        resolve(XLSX.utils.sheet_to_json(worksheet, { defval: "" }) as Record<string, any>[]);
       } catch (error) {
-        console.error("Failed to parse Excel file:", error);
-        reject(new Error(`Failed to parse Excel file: ${error instanceof Error ? error.message : String(error)}`));
+        reject(new Error(`Failed to read spreadsheet: ${error instanceof Error ? error.message : String(error)}`));
       }
     };
     
@@ -276,4 +302,45 @@ export async function parseExcelWithColumnMap(file: File, columnMap: ExcelColumn
     
     reader.readAsArrayBuffer(file);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a class roster from a CSV or Excel file
+ * @param file CSV or Excel file with a name column and an optional student ID column
+ * @returns Validated roster rows
+ */
+export async function parseRosterFile(file: File): Promise<RosterRow[]> {
+  const rows = await readSheetRows(file);
+  if (rows.length === 0) {
+    throw new Error("No students found in the roster file.");
+  }
+  
+  const columns = Object.keys(rows[0]);
+  const findColumn = (candidates: string[]) => 
+    columns.find(col => candidates.includes(col.trim().toLowerCase()));
+  
+  const nameCol = findColumn(['name', 'student name', 'student', 'full name', 'fullname']);
+  const firstNameCol = findColumn(['first name', 'firstname', 'given name', 'forename']);
+  const lastNameCol = findColumn(['last name', 'lastname', 'surname', 'family name']);
+  const idCol = findColumn(['id', 'student id', 'student_id', 'studentid', 'student number', 'student_number', 'number', 'candidate number']);
+  
+  if (!nameCol && !firstNameCol && !lastNameCol) {
+    throw new Error(`Could not find a student name column. Available columns: ${columns.join(', ')}`);
+  }
+  
+  return rows
+    .map(row => {
+      const name = nameCol 
+        ? String(row[nameCol]) 
+        : [firstNameCol && row[firstNameCol], lastNameCol && row[lastNameCol]].filter(Boolean).join(' ');
+      return { name, studentNumber: idCol ? String(row[idCol]) : '' };
+    })
+    .filter(row => row.name.trim() !== '')
+    .map((row, index) => {
+      const parsed = rosterRowSchema.safeParse(row);
+      if (!parsed.success) {
+        throw new Error(`Roster row ${index + 1} has invalid data: ${parsed.error.message}`);
+      }
+      return parsed.data;
+    });
+}
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Header } from '@/components/Header';
+import { SettingsModal } from '@/components/SettingsModal';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { QuestionStatistics, Test, TestAnalytics } from '@/types';
+
+interface AnalyticsPageProps {
+  params: { id: string };
+}
+
+const histogramConfig = {
+  count: { label: 'Papers', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const itemConfig = {
+  difficulty: { label: 'Difficulty (p)', color: 'hsl(217 91% 60%)' },
+  discrimination: { label: 'Discrimination', color: 'hsl(142 71% 45%)' }
+} satisfies ChartConfig;
+
+/**
+ * Format a statistic for display
+ * @param value Statistic, or null when there wasn't enough data
+ * @param digits Decimal places
+ * @returns The formatted value, or a dash
+ */
+function formatStatistic(value: number | null, digits = 2): string {
+  return value === null ? '—' : value.toFixed(digits);
+}
+
+/**
+ * Flag questions whose statistics suggest a problem with the question or its key
+ * @param question Statistics for the question
+ * @returns A short warning, or null if the question looks healthy
+ */
+function describeConcern(question: QuestionStatistics): string | null {
+  if (question.discrimination !== null && question.discrimination < 0) {
+    return 'Stronger students did worse: check the key';
+  }
+  if (question.difficulty !== null && question.difficulty < 0.2) {
+    return 'Very hard';
+  }
+  if (question.difficulty !== null && question.difficulty > 0.95) {
+    return 'Very easy';
+  }
+  if (question.discrimination !== null && question.discrimination < 0.2) {
+    return 'Weak discrimination';
+  }
+  return null;
+}
+
+export default function AnalyticsPage({ params }: AnalyticsPageProps) {
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const testId = parseInt(params.id);
+
+  const { data: test } = useQuery<Test>({
+    queryKey: [`/api/tests/${testId}`]
+  });
+  const { data: analytics, isLoading, error } = useQuery<TestAnalytics>({
+    queryKey: [`/api/tests/${testId}/analytics`]
+  });
+
+  const summary = analytics ? [
+    { label: 'Graded papers', value: String(analytics.submissions) },
+    { label: 'Mean', value: `${formatStatistic(analytics.mean, 1)} / ${analytics.totalPoints}` },
+    { label: 'Median', value: formatStatistic(analytics.median, 1) },
+    { label: 'Std. deviation', value: formatStatistic(analytics.standardDeviation, 1) },
+    { label: 'KR-20 reliability', value: formatStatistic(analytics.reliability) }
+  ] : [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header onSettingsClick={() => setSettingsOpen(true)} />
+
+      <main className="flex-grow p-4">
+        <div className="max-w-5xl mx-auto space-y-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-800">Test Analytics</h2>
+              {test && <p className="text-sm text-gray-500">{test.name}</p>}
+            </div>
+            <Link href="/" className="text-sm text-primary hover:underline flex items-center">
+              <span className="material-icons text-base mr-1">arrow_back</span>
+              Back to grading
+            </Link>
+          </div>
+
+          {isLoading && <p className="text-sm text-gray-500">Loading statistics...</p>}
+          {error && (
+            <p className="text-sm text-red-600">
+              {error instanceof Error ? error.message : 'Could not load statistics'}
+            </p>
+          )}
+
+          {analytics && analytics.submissions === 0 && (
+            <p className="text-sm text-gray-500">No graded papers yet. Statistics appear once papers have been graded.</p>
+          )}
+
+          {analytics && analytics.submissions > 0 && (
+            <>
+              {/* Test-level statistics */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {summary.map(item => (
+                  <div key={item.label} className="bg-white rounded-lg shadow-md p-4">
+                    <p className="text-xs text-gray-500">{item.label}</p>
+                    <p className="text-xl font-semibold text-gray-800">{item.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+                <div className="bg-white rounded-lg shadow-md p-5">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Score Distribution</h3>
+                  <ChartContainer config={histogramConfig} className="h-64 w-full">
+                    <BarChart data={analytics.histogram}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={10} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+
+                <div className="bg-white rounded-lg shadow-md p-5">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Questions</h3>
+                  <ChartContainer config={itemConfig} className="h-64 w-full">
+                    <BarChart data={analytics.questions.map(question => ({
+                      question: `Q${question.questionNumber}`,
+                      difficulty: question.difficulty ?? 0,
+                      discrimination: question.discrimination ?? 0
+                    }))}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="question" tickLine={false} axisLine={false} fontSize={10} />
+                      <YAxis domain={[-1, 1]} tickLine={false} axisLine={false} width={28} />
+                      <ReferenceLine y={0} stroke="#9ca3af" />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="difficulty" fill="var(--color-difficulty)" radius={2} />
+                      <Bar dataKey="discrimination" fill="var(--color-discrimination)" radius={2} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              </div>
+
+              {/* Item analysis */}
+              <div className="bg-white rounded-lg shadow-md overflow-hidden">
+                <div className="bg-gray-50 p-3 border-b border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-700">Item Analysis</h3>
+                  <p className="text-xs text-gray-500">
+                    Difficulty is the share of points earned. Discrimination is the point-biserial correlation with the rest of the test; below 0.2 is weak.
+                  </p>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Q #</TableHead>
+                        <TableHead className="text-xs">Key</TableHead>
+                        <TableHead className="text-xs text-right">Difficulty</TableHead>
+                        <TableHead className="text-xs text-right">Discrimination</TableHead>
+                        <TableHead className="text-xs">Answers Given</TableHead>
+                        <TableHead className="text-xs">Notes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.questions.map(question => {
+                        const concern = describeConcern(question);
+                        const distractors = Object.entries(question.distractors).sort(([a], [b]) =>
+                          a === 'blank' ? 1 : b === 'blank' ? -1 : a.localeCompare(b)
+                        );
+                        return (
+                          <TableRow key={question.questionNumber}>
+                            <TableCell className="text-sm">{question.questionNumber}</TableCell>
+                            <TableCell className="text-sm font-medium">{question.expectedAnswer || '—'}</TableCell>
+                            <TableCell className="text-sm text-right">{formatStatistic(question.difficulty)}</TableCell>
+                            <TableCell className="text-sm text-right">{formatStatistic(question.discrimination)}</TableCell>
+                            <TableCell className="text-sm">
+                              {distractors.length > 0 ? (
+                                <div className="flex flex-wrap gap-2">
+                                  {distractors.map(([answer, count]) => (
+                                    <span key={answer} className="text-xs bg-gray-100 rounded px-1.5 py-0.5">
+                                      {answer}: {count}
+                                    </span>
+                                  ))}
+                                </div>
+                              ) : '—'}
+                            </TableCell>
+                            <TableCell className="text-xs text-amber-600">{concern}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+
+      <SettingsModal open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </div>
+  );
+}
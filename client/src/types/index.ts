@@ -1,9 +1,54 @@
+export type QuestionType = 'single_choice' | 'multi_select' | 'true_false' | 'numeric' | 'short_text' | 'written';
+
+// One thing a written answer is marked on, and what it is worth
+export interface RubricCriterion {
+  description: string;
+  points: number;
+}
+
 export interface MarkSchemeEntry {
   id?: number;
   questionNumber: number;
   expectedAnswer: string;
   points: number;
   testId: number;
+  questionType?: QuestionType;
+  tolerance?: number | null; // Allowed difference either side of a numeric answer
+  rubric?: RubricCriterion[] | null; // Written questions; expectedAnswer holds the model answer
+  voided?: boolean; // Thrown out: left out of the total points
+  bonus?: boolean; // Left out of the total points but can add to what is earned
+}
+
+// When a student's answer counts as the same as an accepted answer
+export interface AnswerRules {
+  ignoreCase: boolean;
+  ignoreWhitespace: boolean;
+  ignorePunctuation: boolean;
+  synonyms: string[][]; // Groups of interchangeable answers
+}
+
+// How points are awarded and taken away when grading a test
+export interface ScoringPolicy {
+  wrongPenalty: number; // Fraction of a question's points taken off for a wrong answer
+  blankHandling: 'zero' | 'penalize';
+  floorAtZero: boolean;
+  partialCredit: 'none' | 'proportional' | 'right_minus_wrong'; // For multi-select answers
+  voidedCredit?: 'none' | 'full'; // What everyone earns on a voided question
+}
+
+// The lowest scaled percentage that earns a letter grade
+export interface GradeBoundary {
+  grade: string;
+  minPercentage: number;
+}
+
+export type CurveMethod = 'none' | 'linear' | 'square_root' | 'top_score';
+
+// Letter grades and the curve applied to raw percentages before they are assigned
+export interface GradingScale {
+  boundaries: GradeBoundary[];
+  curve: CurveMethod;
+  targetMean: number; // For the linear curve
 }
 
 export interface Test {
@@ -11,6 +56,35 @@ export interface Test {
   name: string;
   totalQuestions: number;
   totalPoints: number;
+  answerRules?: AnswerRules;
+  scoringPolicy?: ScoringPolicy;
+  gradingScale?: GradingScale;
+}
+
+export interface Class {
+  id: number;
+  name: string;
+}
+
+export interface Student {
+  id: number;
+  classId: number;
+  name: string;
+  studentNumber: string;
+}
+
+export interface Submission {
+  id: number;
+  testId: number;
+  studentId: number | null;
+  label: string;
+  status: 'pending' | 'needs_review' | 'graded';
+  createdAt: string;
+}
+
+export interface SubmissionWithResult extends Submission {
+  student: Student | null;
+  result: Result | null;
 }
 
 export interface Page {
@@ -18,17 +92,170 @@ export interface Page {
   imageData: string; // Base64 encoded image
   pageNumber: number;
   testId: number;
+  submissionId?: number | null;
   processed: boolean;
   extractedAnswers?: Record<string, string>;
 }
 
+// A captured page the server couldn't route, waiting for manual assignment
+export interface TriagePage {
+  id: number;
+  imageData?: string; // Omitted from upload responses
+  reason: string;
+  testId: number | null; // Whatever could be read from the page
+  pageNumber: number | null;
+  studentNumber: string | null;
+  createdAt: string;
+}
+
+// The server either stores an uploaded page or queues it for triage
+export type PageUploadResponse = Page | { triaged: true; triagePage: TriagePage };
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A background batch of pages being processed on the server
+export interface Job {
+  id: number;
+  testId: number;
+  submissionId: number | null;
+  status: JobStatus;
+  totalItems: number;
+  completedItems: number;
+  failedItems: number;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+export interface JobItem {
+  id: number;
+  jobId: number;
+  pageId: number;
+  status: JobStatus;
+  attempts: number;
+  error: string | null;
+}
+
+// A job snapshot as streamed from /api/jobs/:id/events
+export interface JobProgress {
+  job: Job;
+  items: JobItem[];
+}
+
+export type BulkUploadGrouping = 'markers' | 'page_count';
+
+export type IngestStatus = 'splitting' | 'routing' | 'processing' | 'grading' | 'completed' | 'failed';
+
+// A bulk PDF/ZIP upload's progress as streamed from /api/ingests/:id/events
+export interface IngestProgress {
+  id: number;
+  testId: number;
+  fileName: string;
+  status: IngestStatus;
+  splitPages: number;
+  totalPages: number;
+  routedPages: number;
+  triagedPages: number;
+  failedPages: number;
+  processedPages: number;
+  submissionIds: number[];
+  gradedSubmissions: number;
+  heldForReview: number;
+  jobId: number | null;
+  errors: string[];
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export type ReviewReason = 'low_confidence' | 'blank' | 'ambiguous' | 'invalid_option';
+
+// Part of an extraction held back from grading until a person checks it
+export interface ReviewItem {
+  id: number;
+  submissionId: number;
+  pageId: number | null;
+  questionNumber: number | null; // Null when the whole page is flagged
+  reason: ReviewReason;
+  extractedAnswer: string;
+  confidence: number | null;
+  status: 'open' | 'resolved' | 'superseded'; // Superseded: resolved before the page was read again
+  resolvedAnswer: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+// A submission held for review, as listed in the review queue
+export interface ReviewQueueEntry {
+  submission: Submission;
+  testName: string;
+  student: Student | null;
+  openItems: number;
+}
+
+// Everything the reviewer UI needs for one submission
+export interface SubmissionReview {
+  submission: Submission;
+  pages: Page[];
+  reviewItems: ReviewItem[];
+}
+
 export interface Result {
   id?: number;
   testId: number;
+  submissionId?: number | null;
   studentAnswers: Record<string, string>;
   pointsEarned: number;
   totalPoints: number;
   scorePercentage: number;
+  markSchemeVersion?: number | null; // Version of the mark scheme it was graded against
+  scaledPercentage?: number | null; // After the test's curve; scorePercentage is the raw score
+  letterGrade?: string | null;
+}
+
+// A saved version of a test's mark scheme
+export interface MarkSchemeVersion {
+  id: number;
+  testId: number;
+  version: number;
+  entries: MarkSchemeEntry[];
+  answerRules: AnswerRules | null; // Null on versions saved before rules were kept with them
+  scoringPolicy: ScoringPolicy | null;
+  summary: string;
+  createdAt: string;
+}
+
+// How one submission's score moved when its test was re-graded
+export interface RegradeChange {
+  submissionId: number;
+  label: string;
+  studentName: string | null;
+  status: 'graded' | 'needs_review';
+  previousPoints: number;
+  newPoints: number | null;
+  previousPercentage: number;
+  newPercentage: number | null;
+  previousVersion: number | null;
+  newVersion: number | null;
+}
+
+export interface RegradeReport {
+  testId: number;
+  version: number | null;
+  regraded: number;
+  changed: number;
+  heldForReview: number;
+  changes: RegradeChange[];
+}
+
+// A manual change to one student answer, kept as an audit trail
+export interface AnswerOverride {
+  id: number;
+  submissionId: number;
+  questionNumber: number;
+  previousAnswer: string;
+  newAnswer: string;
+  changedBy: string;
+  reason: string;
+  createdAt: string;
 }
 
 export interface DetailedResultItem {
@@ -38,6 +265,9 @@ export interface DetailedResultItem {
   points: number;
   earnedPoints: number;
   correct: boolean;
+  rationale?: string; // Why a written answer got its points
+  voided?: boolean;
+  bonus?: boolean;
 }
 
 export interface Settings {
@@ -47,12 +277,94 @@ export interface Settings {
   confidenceThreshold: number;
   temperature?: number;
   topP?: number;
+  recognitionProvider?: string;
+  processingConcurrency?: number;
+  processingMaxAttempts?: number;
+}
+
+export interface RecognitionProviderInfo {
+  id: string;
+  name: string;
+  description: string;
+  available: boolean;
+  reason?: string;
+}
+
+export interface QuestionRecognition {
+  confidence: number;
+  status: 'marked' | 'blank' | 'multiple';
 }
 
 export interface ExtractedAnswerResponse {
   page: Page;
   extractedAnswers: Record<string, string>;
   confidence: number;
+  questions?: Record<string, QuestionRecognition>;
 }
 
 export type TestGraderStep = 'mark-scheme' | 'capture' | 'process' | 'results';
+
+// Statistics for one question across every graded paper
+export interface QuestionStatistics {
+  questionNumber: number;
+  questionType: QuestionType;
+  expectedAnswer: string;
+  points: number;
+  responses: number;
+  difficulty: number | null; // Mean share of the points earned; higher is easier
+  discrimination: number | null; // Point-biserial correlation with the rest of the test
+  distractors: Record<string, number>;
+}
+
+export interface ScoreBin {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface TestAnalytics {
+  testId: number;
+  submissions: number;
+  totalPoints: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  reliability: number | null; // KR-20
+  histogram: ScoreBin[];
+  questions: QuestionStatistics[];
+}
+
+// A saved spreadsheet column mapping, applied to files with the same headers
+export interface ColumnMappingProfile {
+  id: number;
+  name: string;
+  headerSignature: string;
+  columns: string[]; // Headers of the file it was saved from
+  columnMap: {
+    questionNumberCol: string;
+    expectedAnswerCol: string;
+    pointsCol: string;
+    alternativeAnswersCol?: string;
+    questionTypeCol?: string;
+    rubricCol?: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An LMS gradebook format tests can be exported in
+export interface LmsAdapterInfo {
+  id: string;
+  name: string;
+  description: string;
+  identifier: string; // What the LMS matches students on
+  needsEmailDomain: boolean;
+}
+
+// Who an LMS export would include, before downloading it
+export interface LmsExportPreview {
+  exported: number;
+  skipped: string[]; // Students or papers the LMS couldn't match
+  identifier: string;
+}
@@ -0,0 +1,41 @@
+CREATE TABLE "mark_scheme_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"question_number" integer NOT NULL,
+	"expected_answer" text NOT NULL,
+	"points" integer NOT NULL,
+	"test_id" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"image_data" text NOT NULL,
+	"page_number" integer NOT NULL,
+	"test_id" integer NOT NULL,
+	"processed" boolean DEFAULT false,
+	"extracted_answers" jsonb DEFAULT '{}'::jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"test_id" integer NOT NULL,
+	"student_answers" jsonb NOT NULL,
+	"points_earned" integer NOT NULL,
+	"total_points" integer NOT NULL,
+	"score_percentage" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"answer_recognition_instructions" text DEFAULT '',
+	"enhanced_recognition" boolean DEFAULT true,
+	"confidence_threshold" integer DEFAULT 21,
+	"temperature" real DEFAULT 0.1,
+	"top_p" real DEFAULT 1
+);
+--> statement-breakpoint
+CREATE TABLE "tests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"total_questions" integer NOT NULL,
+	"total_points" integer NOT NULL
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "submissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"test_id" integer NOT NULL,
+	"label" text DEFAULT '' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pages" ADD COLUMN "submission_id" integer;--> statement-breakpoint
+ALTER TABLE "results" ADD COLUMN "submission_id" integer;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "classes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "students" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"class_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"student_number" text DEFAULT '' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "student_id" integer;
\ No newline at end of file
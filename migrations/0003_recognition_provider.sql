@@ -0,0 +1 @@
+ALTER TABLE "settings" ADD COLUMN "recognition_provider" text DEFAULT 'openai';
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "triage_pages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"image_data" text NOT NULL,
+	"reason" text NOT NULL,
+	"test_id" integer,
+	"page_number" integer,
+	"student_number" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
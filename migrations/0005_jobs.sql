@@ -0,0 +1,23 @@
+CREATE TABLE "job_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" integer NOT NULL,
+	"page_id" integer NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"test_id" integer NOT NULL,
+	"submission_id" integer,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"total_items" integer NOT NULL,
+	"completed_items" integer DEFAULT 0 NOT NULL,
+	"failed_items" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "processing_concurrency" integer DEFAULT 2;--> statement-breakpoint
+ALTER TABLE "settings" ADD COLUMN "processing_max_attempts" integer DEFAULT 3;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "review_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"page_id" integer,
+	"question_number" integer,
+	"reason" text NOT NULL,
+	"extracted_answer" text DEFAULT '' NOT NULL,
+	"confidence" real,
+	"status" text DEFAULT 'open' NOT NULL,
+	"resolved_answer" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp
+);
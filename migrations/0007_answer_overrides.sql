@@ -0,0 +1,10 @@
+CREATE TABLE "answer_overrides" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"question_number" integer NOT NULL,
+	"previous_answer" text DEFAULT '' NOT NULL,
+	"new_answer" text NOT NULL,
+	"changed_by" text NOT NULL,
+	"reason" text DEFAULT '' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
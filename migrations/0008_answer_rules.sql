@@ -0,0 +1 @@
+ALTER TABLE "tests" ADD COLUMN "answer_rules" jsonb DEFAULT '{"ignoreCase":true,"ignoreWhitespace":false,"ignorePunctuation":false,"synonyms":[]}'::jsonb NOT NULL;
\ No newline at end of file
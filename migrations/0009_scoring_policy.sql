@@ -0,0 +1,2 @@
+ALTER TABLE "results" ALTER COLUMN "points_earned" SET DATA TYPE real;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "scoring_policy" jsonb DEFAULT '{"wrongPenalty":0,"blankHandling":"zero","floorAtZero":true,"partialCredit":"none"}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "mark_scheme_entries" ADD COLUMN "question_type" text DEFAULT 'single_choice' NOT NULL;--> statement-breakpoint
+ALTER TABLE "mark_scheme_entries" ADD COLUMN "tolerance" real;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "rubric_grades" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"question_number" integer NOT NULL,
+	"answer" text NOT NULL,
+	"points_awarded" real NOT NULL,
+	"rationale" text NOT NULL,
+	"criteria" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"graded_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mark_scheme_entries" ADD COLUMN "rubric" jsonb;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "mark_scheme_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"test_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"entries" jsonb NOT NULL,
+	"summary" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "results" ADD COLUMN "mark_scheme_version" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "tests" ALTER COLUMN "scoring_policy" SET DEFAULT '{"wrongPenalty":0,"blankHandling":"zero","floorAtZero":true,"partialCredit":"none","voidedCredit":"none"}'::jsonb;--> statement-breakpoint
+ALTER TABLE "mark_scheme_entries" ADD COLUMN "voided" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "mark_scheme_entries" ADD COLUMN "bonus" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "results" ADD COLUMN "scaled_percentage" real;--> statement-breakpoint
+ALTER TABLE "results" ADD COLUMN "letter_grade" text;--> statement-breakpoint
+ALTER TABLE "tests" ADD COLUMN "grading_scale" jsonb DEFAULT '{"boundaries":[],"curve":"none","targetMean":75}'::jsonb NOT NULL;
\ No newline at end of file
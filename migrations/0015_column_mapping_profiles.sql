@@ -0,0 +1,10 @@
+CREATE TABLE "column_mapping_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"header_signature" text NOT NULL,
+	"columns" jsonb NOT NULL,
+	"column_map" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "column_mapping_profiles_header_signature_unique" UNIQUE("header_signature")
+);
@@ -0,0 +1 @@
+ALTER TABLE "results" ADD COLUMN "items" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "mark_scheme_versions" ADD COLUMN "answer_rules" jsonb;--> statement-breakpoint
+ALTER TABLE "mark_scheme_versions" ADD COLUMN "scoring_policy" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "mark_scheme_versions_test_id_version_unique" ON "mark_scheme_versions" USING btree ("test_id","version");
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { MarkSchemeEntry, QuestionType, ResultItem } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizeAnswer } from "./grading";
+
+// Statistics for one question across every graded paper
+export interface QuestionStatistics {
+  questionNumber: number;
+  questionType: QuestionType;
+  expectedAnswer: string;
+  points: number;
+  responses: number;
+  difficulty: number | null; // Mean share of the points earned (the p-value); higher is easier
+  discrimination: number | null; // Point-biserial correlation with the rest of the test
+  distractors: Record<string, number>; // How many students gave each answer, plus "blank"
+}
+
+// A bar of the score histogram
+export interface ScoreBin {
+  label: string; // e.g. "70-79%"
+  min: number;
+  max: number;
+  count: number;
+}
+
+// Psychometrics for a whole test
+export interface TestAnalytics {
+  testId: number;
+  submissions: number; // Graded papers included
+  totalPoints: number;
+  mean: number | null;
+  median: number | null;
+  standardDeviation: number | null;
+  reliability: number | null; // KR-20
+  histogram: ScoreBin[];
+  questions: QuestionStatistics[];
+}
+
+/**
+ * Round a statistic to three decimal places
+ * @param value Raw value
+ * @returns Rounded value
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Mean of a list of numbers
+ * @param values Numbers
+ * @returns The mean, or null for an empty list
+ */
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Population variance of a list of numbers
+ * @param values Numbers
+ * @returns The variance, or null for an empty list
+ */
+function variance(values: number[]): number | null {
+  const average = mean(values);
+  if (average === null) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+}
+
+/**
+ * Median of a list of numbers
+ * @param values Numbers
+ * @returns The median, or null for an empty list
+ */
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Pearson correlation between two equally long lists
+ * @param xs First variable
+ * @param ys Second variable
+ * @returns The correlation, or null when either variable doesn't vary
+ */
+function correlation(xs: number[], ys: number[]): number | null {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  if (meanX === null || meanY === null || xs.length < 2) {
+    return null;
+  }
+  let covariance = 0;
+  let sumSquaresX = 0;
+  let sumSquaresY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    sumSquaresX += (xs[i] - meanX) ** 2;
+    sumSquaresY += (ys[i] - meanY) ** 2;
+  }
+  if (sumSquaresX === 0 || sumSquaresY === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(sumSquaresX * sumSquaresY);
+}
+
+/**
+ * Count how often each answer was given to a question
+ * Multi-select answers count once for every option chosen
+ * @param entry Mark scheme entry for the question
+ * @param answers Every student's answer
+ * @returns Count per answer, with blanks under "blank"
+ */
+function countDistractors(entry: MarkSchemeEntry, answers: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const tally = (answer: string) => {
+    counts[answer] = (counts[answer] ?? 0) + 1;
+  };
+
+  for (const answer of answers) {
+    const normalized = normalizeAnswer(answer);
+    if (normalized === "") {
+      tally("blank");
+    } else if (entry.questionType === "multi_select") {
+      Array.from(new Set(normalized.replace(/[\s,]/g, "").split(""))).forEach(tally);
+    } else if (entry.questionType === "numeric" || entry.questionType === "short_text" || entry.questionType === "written") {
+      // Free answers rarely repeat exactly, so only right and wrong are told apart
+      continue;
+    } else {
+      tally(normalized);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Build a histogram of score percentages in ten-point bins
+ * @param percentages Each paper's score percentage
+ * @returns Ten bins from 0-9% to 90-100%; scores above 100% from bonus points go in the top bin
+ */
+function buildHistogram(percentages: number[]): ScoreBin[] {
+  const bins: ScoreBin[] = Array.from({ length: 10 }, (_, index) => ({
+    label: index === 9 ? "90-100%" : `${index * 10}-${index * 10 + 9}%`,
+    min: index * 10,
+    max: index === 9 ? 100 : index * 10 + 9,
+    count: 0
+  }));
+  for (const percentage of percentages) {
+    bins[Math.min(9, Math.max(0, Math.floor(percentage / 10)))].count++;
+  }
+  return bins;
+}
+
+/**
+ * Compute item analysis and summary statistics for a test from its graded submissions
+ * Each submission's latest result is used; voided questions are left out
+ * @param testId Test to analyse
+ * @returns Per-question and whole-test statistics; values are null where there is too little data
+ */
+export async function analyseTest(testId: number): Promise<TestAnalytics> {
+  const markScheme = (await storage.getMarkScheme(testId)).filter(entry => !entry.voided);
+  const papers: { pointsEarned: number; scorePercentage: number; items: Map<number, ResultItem> }[] = [];
+
+  for (const submission of await storage.getSubmissions(testId)) {
+    const result = await storage.getSubmissionResult(submission.id);
+    if (!result || submission.status !== "graded") {
+      continue;
+    }
+    const items = await storage.getSubmissionDetailedResults(submission.id);
+    papers.push({
+      pointsEarned: result.pointsEarned,
+      scorePercentage: result.scorePercentage,
+      items: new Map(items.map(item => [item.questionNumber, item]))
+    });
+  }
+
+  // Item scores as a share of the question's points, one row per paper
+  const itemScores = papers.map(paper => markScheme.map(entry => {
+    const item = paper.items.get(entry.questionNumber);
+    return item && entry.points > 0 ? Math.max(0, item.earnedPoints) / entry.points : 0;
+  }));
+  const rawTotals = itemScores.map(scores => scores.reduce((sum, score, index) => sum + score * markScheme[index].points, 0));
+
+  const questions: QuestionStatistics[] = markScheme.map((entry, index) => {
+    const scores = itemScores.map(row => row[index]);
+    // Correlate with the total minus this question, so an item isn't correlated with itself
+    const restTotals = rawTotals.map((total, paper) => total - scores[paper] * entry.points);
+    const difficulty = mean(scores);
+    const discrimination = correlation(scores, restTotals);
+
+    return {
+      questionNumber: entry.questionNumber,
+      questionType: entry.questionType,
+      expectedAnswer: entry.expectedAnswer,
+      points: entry.points,
+      responses: papers.length,
+      difficulty: difficulty === null ? null : round(difficulty),
+      discrimination: discrimination === null ? null : round(discrimination),
+      distractors: countDistractors(entry, papers.map(paper => paper.items.get(entry.questionNumber)?.studentAnswer ?? ""))
+    };
+  });
+
+  // KR-20 treats each question as right or wrong
+  const correctCounts = papers.map(paper => markScheme.filter(entry => paper.items.get(entry.questionNumber)?.correct).length);
+  const countVariance = variance(correctCounts);
+  const k = markScheme.length;
+  let reliability: number | null = null;
+  if (k > 1 && countVariance !== null && countVariance > 0) {
+    const sumPQ = markScheme.reduce((sum, entry) => {
+      const p = mean(papers.map(paper => paper.items.get(entry.questionNumber)?.correct ? 1 : 0)) ?? 0;
+      return sum + p * (1 - p);
+    }, 0);
+    reliability = round((k / (k - 1)) * (1 - sumPQ / countVariance));
+  }
+
+  const points = papers.map(paper => paper.pointsEarned);
+  const average = mean(points);
+  const middle = median(points);
+  const pointsVariance = variance(points);
+  const test = await storage.getTest(testId);
+
+  return {
+    testId,
+    submissions: papers.length,
+    totalPoints: test?.totalPoints ?? 0,
+    mean: average === null ? null : round(average),
+    median: middle === null ? null : round(middle),
+    standardDeviation: pointsVariance === null ? null : round(Math.sqrt(pointsVariance)),
+    reliability,
+    histogram: buildHistogram(papers.map(paper => paper.scorePercentage)),
+    questions
+  };
+}
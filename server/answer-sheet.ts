@@ -0,0 +1,200 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { MarkSchemeEntry, Student, Test } from "@shared/schema";
+import {
+  BUBBLE_RADIUS_MM,
+  PAGE_HEIGHT_MM,
+  PAGE_WIDTH_MM,
+  QR_CODE_MM,
+  REGISTRATION_MARKS_MM,
+  REGISTRATION_MARK_SIZE_MM,
+  TRUE_FALSE_LABELS,
+  encodeSheetCode,
+  getSheetLayout,
+  getSheetOptions,
+  getStudentIdLayout,
+} from "./omr";
+
+/**
+ * Draw a QR code as vector squares
+ * @param doc PDF document
+ * @param text Payload to encode
+ */
+function drawQrCode(doc: jsPDF, text: string): void {
+  const qr = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const size = qr.modules.size;
+  const moduleSize = QR_CODE_MM.size / size;
+  
+  doc.setFillColor(0, 0, 0);
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      if (qr.modules.get(row, col)) {
+        doc.rect(
+          QR_CODE_MM.x + col * moduleSize,
+          QR_CODE_MM.y + row * moduleSize,
+          moduleSize,
+          moduleSize,
+          "F"
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Draw the four corner registration marks the OMR engine aligns against
+ * @param doc PDF document
+ */
+function drawRegistrationMarks(doc: jsPDF): void {
+  doc.setFillColor(0, 0, 0);
+  for (const mark of Object.values(REGISTRATION_MARKS_MM)) {
+    doc.rect(
+      mark.x - REGISTRATION_MARK_SIZE_MM / 2,
+      mark.y - REGISTRATION_MARK_SIZE_MM / 2,
+      REGISTRATION_MARK_SIZE_MM,
+      REGISTRATION_MARK_SIZE_MM,
+      "F"
+    );
+  }
+}
+
+/**
+ * Draw a bubble with its label printed faintly inside
+ * @param doc PDF document
+ * @param x Centre x in mm
+ * @param y Centre y in mm
+ * @param label Option letter or digit
+ */
+function drawBubble(doc: jsPDF, x: number, y: number, label: string): void {
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.3);
+  doc.circle(x, y, BUBBLE_RADIUS_MM, "S");
+  
+  // Light grey so the printed label isn't mistaken for a pencil mark
+  doc.setTextColor(170, 170, 170);
+  doc.setFontSize(6);
+  doc.text(label, x, y + 0.8, { align: "center" });
+  doc.setTextColor(0, 0, 0);
+}
+
+/**
+ * Draw the student-ID grid: handwriting boxes above a column of 0-9 bubbles per digit
+ * @param doc PDF document
+ * @param student Student the sheet is printed for, if any
+ */
+function drawStudentIdGrid(doc: jsPDF, student?: Student): void {
+  const columns = getStudentIdLayout();
+  
+  doc.setFontSize(9);
+  doc.text("Student ID", columns[0].writeBox.x - 3, columns[0].writeBox.y - 5);
+  
+  const digits = student?.studentNumber.replace(/\D/g, "") ?? "";
+  for (const column of columns) {
+    doc.setLineWidth(0.2);
+    doc.rect(column.writeBox.x - 2.8, column.writeBox.y - 2.8, 5.6, 5.6, "S");
+    
+    // Pre-print the digits for a known student; the bubbles are still there for blank sheets
+    const digit = digits[column.position];
+    if (digit) {
+      doc.setFontSize(9);
+      doc.text(digit, column.writeBox.x, column.writeBox.y + 1.2, { align: "center" });
+    }
+    
+    for (const bubble of column.bubbles) {
+      drawBubble(doc, bubble.x, bubble.y, bubble.digit);
+    }
+  }
+}
+
+/**
+ * Generate a printable bubble answer sheet for a test
+ * @param test Test the sheet is for
+ * @param markScheme Mark scheme, used to decide the number of questions and options
+ * @param students Students to print personalised sheets for; one blank sheet when empty
+ * @returns PDF file contents
+ */
+export function generateAnswerSheetPdf(
+  test: Test,
+  markScheme: MarkSchemeEntry[],
+  students: Student[] = []
+): Buffer {
+  const totalQuestions = markScheme.length > 0
+    ? Math.max(...markScheme.map(entry => entry.questionNumber))
+    : test.totalQuestions;
+  
+  if (totalQuestions <= 0) {
+    throw new Error("Test has no questions; upload a mark scheme first");
+  }
+  
+  const options = getSheetOptions(markScheme);
+  const questionTypes = new Map(markScheme.map(entry => [entry.questionNumber, entry.questionType]));
+  const pageCount = getSheetLayout(totalQuestions, options, 1).pageCount;
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const recipients: Array<Student | undefined> = students.length > 0 ? students : [undefined];
+  
+  recipients.forEach((student, studentIndex) => {
+    for (let page = 1; page <= pageCount; page++) {
+      if (studentIndex > 0 || page > 1) {
+        doc.addPage();
+      }
+      
+      const layout = getSheetLayout(totalQuestions, options, page);
+      
+      drawRegistrationMarks(doc);
+      drawQrCode(doc, encodeSheetCode({ testId: test.id, page, studentId: student?.id }));
+      
+      // Header
+      doc.setTextColor(0, 0, 0);
+      doc.setFontSize(14);
+      doc.text(test.name, PAGE_WIDTH_MM / 2, 22, { align: "center" });
+      doc.setFontSize(8);
+      doc.text(`Answer sheet - page ${page} of ${pageCount}`, PAGE_WIDTH_MM / 2, 27, { align: "center" });
+      
+      doc.setFontSize(10);
+      doc.text("Name:", 90, 48);
+      doc.setLineWidth(0.2);
+      doc.line(102, 48, 152, 48);
+      if (student) {
+        doc.text(student.name, 104, 47);
+      }
+      
+      drawStudentIdGrid(doc, student);
+      
+      doc.setFontSize(7);
+      doc.text(
+        "Fill one bubble per question completely with a dark pen or pencil. Keep the corner squares visible when scanning.",
+        PAGE_WIDTH_MM / 2,
+        100,
+        { align: "center" }
+      );
+      
+      // Questions
+      for (const question of layout.questions) {
+        doc.setFontSize(9);
+        doc.setTextColor(0, 0, 0);
+        doc.text(`${question.questionNumber}.`, question.label.x, question.label.y + 1.2);
+        
+        const questionType = questionTypes.get(question.questionNumber);
+        if (questionType === "numeric" || questionType === "short_text" || questionType === "written") {
+          // Written answers can't be bubbled; they are read by a person from the review queue
+          doc.setFontSize(7);
+          doc.setTextColor(120, 120, 120);
+          doc.text("Written answer", question.bubbles[0].x - BUBBLE_RADIUS_MM, question.label.y + 1.2);
+          continue;
+        }
+        
+        // True/false uses the first two bubbles, read back as T and F
+        const bubbles = questionType === "true_false" ? question.bubbles.slice(0, 2) : question.bubbles;
+        bubbles.forEach((bubble, index) => {
+          const label = questionType === "true_false" ? TRUE_FALSE_LABELS[index] : bubble.option;
+          drawBubble(doc, bubble.x, bubble.y, label);
+        });
+      }
+      
+      doc.setFontSize(7);
+      doc.text(`Test ${test.id}`, PAGE_WIDTH_MM / 2, PAGE_HEIGHT_MM - 8, { align: "center" });
+    }
+  });
+  
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,60 @@
+import { ColumnMappingProfile, ExcelColumnMap } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Normalize a column header so small differences between exports don't matter
+ * @param header Header as read from the file
+ * @returns Lowercased header with whitespace collapsed
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Work out the signature that identifies files with the same headers
+ * Column order and blank header cells (read as "__EMPTY", "__EMPTY_1"...) are ignored
+ * @param columns Headers of the file
+ * @returns Signature to store on, or look up, a profile
+ */
+export function headerSignature(columns: string[]): string {
+  const headers = columns
+    .filter(column => !/^__EMPTY(_\d+)?$/.test(column))
+    .map(normalizeHeader)
+    .filter(Boolean);
+  return JSON.stringify(Array.from(new Set(headers)).sort());
+}
+
+/**
+ * Point a saved mapping at the headers of a new file, which may differ in case or spacing
+ * @param columnMap Mapping saved with the profile
+ * @param columns Headers of the new file
+ * @returns The mapping with each column named as it appears in the new file
+ */
+function alignColumnMap(columnMap: ExcelColumnMap, columns: string[]): ExcelColumnMap {
+  const align = (column: string | undefined) =>
+    column ? columns.find(candidate => normalizeHeader(candidate) === normalizeHeader(column)) ?? column : column;
+
+  return {
+    questionNumberCol: align(columnMap.questionNumberCol)!,
+    expectedAnswerCol: align(columnMap.expectedAnswerCol)!,
+    pointsCol: align(columnMap.pointsCol)!,
+    alternativeAnswersCol: align(columnMap.alternativeAnswersCol),
+    questionTypeCol: align(columnMap.questionTypeCol),
+    rubricCol: align(columnMap.rubricCol)
+  };
+}
+
+/**
+ * Find the saved profile for a file's headers
+ * @param columns Headers of the uploaded file
+ * @returns The profile with its mapping aligned to the file, or undefined if none was saved for these headers
+ */
+export async function findColumnMappingProfile(columns: string[]): Promise<ColumnMappingProfile | undefined> {
+  const profile = await storage.getColumnMappingProfileBySignature(headerSignature(columns));
+  if (!profile) {
+    return undefined;
+  }
+
+  console.log(`Column mapping profile "${profile.name}" matches the file's headers`);
+  return { ...profile, columnMap: alignColumnMap(profile.columnMap, columns) };
+}
@@ -0,0 +1,126 @@
+import { GradeBoundary, GradingScale, Result, defaultGradingScale } from "@shared/schema";
+import { storage } from "./storage";
+
+// The factor a linear curve scales every score by, and the mean that gets the cohort to
+export interface LinearCurve {
+  factor: number;
+  mean: number; // Below the target when the cap at 100% keeps it out of reach
+}
+
+/**
+ * Work out how much to scale a cohort's scores by so their mean lands on a target
+ * Scaled scores are capped at 100%, so papers near the top gain less than the factor suggests; the
+ * factor is searched for with the cap in place rather than taken as target / mean.
+ * @param percentages Raw score percentages, one per paper
+ * @param targetMean Mean the teacher asked for
+ * @returns The factor, and the mean it reaches
+ */
+export function linearCurve(percentages: number[], targetMean: number): LinearCurve {
+  const meanAt = (factor: number) =>
+    percentages.reduce((sum, percentage) => sum + Math.min(100, percentage * factor), 0) / (percentages.length || 1);
+
+  const lowest = Math.min(...percentages.filter(percentage => percentage > 0));
+  if (!isFinite(lowest)) {
+    // Nobody scored, and no factor changes that
+    return { factor: 1, mean: 0 };
+  }
+
+  // At this factor every paper that scored anything is at 100%, so no larger factor raises the mean
+  let high = 100 / lowest;
+  if (meanAt(high) <= targetMean) {
+    return { factor: high, mean: meanAt(high) };
+  }
+
+  let low = 0;
+  for (let i = 0; i < 50; i++) {
+    const middle = (low + high) / 2;
+    if (meanAt(middle) < targetMean) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return { factor: high, mean: meanAt(high) };
+}
+
+/**
+ * Apply a test's curve to a cohort's raw percentages
+ * Linear and top-score curves depend on the whole cohort, so every paper is scaled together
+ * @param percentages Raw score percentages, one per paper
+ * @param scale The test's grading scale
+ * @returns Scaled percentages in the same order, rounded to one decimal place
+ */
+export function curvePercentages(percentages: number[], scale: GradingScale): number[] {
+  let curve: (percentage: number) => number;
+
+  switch (scale.curve) {
+    case "linear": {
+      // Multiply every score by the same factor so the mean lands on the target, or as near as the cap allows
+      const { factor } = linearCurve(percentages, scale.targetMean);
+      curve = percentage => Math.min(100, percentage * factor);
+      break;
+    }
+    case "square_root":
+      curve = percentage => Math.min(100, Math.sqrt(Math.max(0, percentage)) * 10);
+      break;
+    case "top_score": {
+      // The best paper becomes 100% and everyone else moves up in proportion
+      const top = Math.max(0, ...percentages);
+      curve = percentage => top > 0 ? Math.min(100, percentage * 100 / top) : percentage;
+      break;
+    }
+    default:
+      curve = percentage => percentage;
+  }
+
+  return percentages.map(percentage => Math.round(Math.max(0, curve(percentage)) * 10) / 10);
+}
+
+/**
+ * Find the letter grade a scaled percentage earns
+ * @param percentage Scaled percentage
+ * @param boundaries The test's grade boundaries, in any order
+ * @returns The grade with the highest boundary the percentage reaches, or null if it reaches none
+ */
+export function letterGradeFor(percentage: number, boundaries: GradeBoundary[]): string | null {
+  const reached = [...boundaries]
+    .sort((a, b) => b.minPercentage - a.minPercentage)
+    .find(boundary => percentage >= boundary.minPercentage);
+  return reached?.grade ?? null;
+}
+
+/**
+ * Re-apply a test's curve and grade boundaries to its current results
+ * Only each submission's latest result is part of the cohort; earlier results keep the values
+ * they were given. The raw scorePercentage is never changed.
+ * @param testId Test whose results should be scaled
+ * @returns The updated results
+ */
+export async function applyGradingScale(testId: number): Promise<Result[]> {
+  const test = await storage.getTest(testId);
+  if (!test) {
+    return [];
+  }
+  const scale = { ...defaultGradingScale, ...test.gradingScale };
+
+  // Keep the latest result per submission; results graded without a submission each stand alone
+  const latest = new Map<string, Result>();
+  for (const result of await storage.getResults(testId)) {
+    latest.set(result.submissionId !== null ? `submission-${result.submissionId}` : `result-${result.id}`, result);
+  }
+  const cohort = Array.from(latest.values());
+  const scaled = curvePercentages(cohort.map(result => result.scorePercentage), scale);
+
+  const updated: Result[] = [];
+  for (let i = 0; i < cohort.length; i++) {
+    const letterGrade = letterGradeFor(scaled[i], scale.boundaries);
+    if (cohort[i].scaledPercentage === scaled[i] && cohort[i].letterGrade === letterGrade) {
+      updated.push(cohort[i]);
+      continue;
+    }
+    updated.push(await storage.updateResultScaling(cohort[i].id, scaled[i], letterGrade));
+  }
+
+  console.log(`Applied ${scale.curve} curve to ${cohort.length} results for test ${testId}`);
+  return updated;
+}
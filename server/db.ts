@@ -0,0 +1,17 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// The Neon driver talks to Postgres over WebSockets, which Node doesn't provide natively
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create a Drizzle database connected to the given Postgres URL
+ * @param connectionString Postgres connection string (usually DATABASE_URL)
+ * @returns Drizzle database instance bound to the shared schema
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
@@ -0,0 +1,179 @@
+import * as XLSX from "xlsx";
+import { MarkSchemeEntry, Test } from "@shared/schema";
+import { storage } from "./storage";
+
+// One graded paper in the gradebook
+export interface GradebookRow {
+  submissionId: number;
+  studentName: string;
+  studentNumber: string;
+  label: string;
+  answers: Record<string, string>; // Question number to the answer that was graded
+  points: Record<string, number>; // Question number to the points earned
+  pointsEarned: number;
+  totalPoints: number;
+  scorePercentage: number;
+  scaledPercentage: number | null;
+  letterGrade: string | null;
+  markSchemeVersion: number | null;
+}
+
+// Every graded paper for a test, one row per student
+export interface Gradebook {
+  test: Test;
+  markScheme: MarkSchemeEntry[];
+  rows: GradebookRow[];
+}
+
+export const gradebookFormats = ["csv", "xlsx"] as const;
+export type GradebookFormat = typeof gradebookFormats[number];
+
+/**
+ * Collect the latest result of every graded submission of a test
+ * @param testId Test to export
+ * @returns The gradebook, or undefined if the test doesn't exist
+ */
+export async function buildGradebook(testId: number): Promise<Gradebook | undefined> {
+  const test = await storage.getTest(testId);
+  if (!test) {
+    return undefined;
+  }
+
+  const markScheme = [...await storage.getMarkScheme(testId)].sort((a, b) => a.questionNumber - b.questionNumber);
+  const rows: GradebookRow[] = [];
+
+  for (const submission of await storage.getSubmissions(testId)) {
+    const result = await storage.getSubmissionResult(submission.id);
+    if (!result) {
+      continue;
+    }
+    const student = submission.studentId ? await storage.getStudent(submission.studentId) : undefined;
+    const items = await storage.getSubmissionDetailedResults(submission.id);
+
+    rows.push({
+      submissionId: submission.id,
+      studentName: student?.name ?? "",
+      studentNumber: student?.studentNumber ?? "",
+      label: submission.label,
+      answers: Object.fromEntries(items.map(item => [item.questionNumber.toString(), item.studentAnswer])),
+      points: Object.fromEntries(items.map(item => [item.questionNumber.toString(), item.earnedPoints])),
+      pointsEarned: result.pointsEarned,
+      totalPoints: result.totalPoints,
+      scorePercentage: result.scorePercentage,
+      scaledPercentage: result.scaledPercentage,
+      letterGrade: result.letterGrade,
+      markSchemeVersion: result.markSchemeVersion
+    });
+  }
+
+  // Named students in alphabetical order, then unassigned papers in the order they were captured
+  rows.sort((a, b) =>
+    (a.studentName === "") !== (b.studentName === "")
+      ? (a.studentName === "" ? 1 : -1)
+      : a.studentName.localeCompare(b.studentName) || a.submissionId - b.submissionId
+  );
+
+  return { test, markScheme, rows };
+}
+
+/**
+ * Columns identifying the student on every sheet
+ * @param row Gradebook row
+ * @returns Student name, student number and paper label
+ */
+function studentCells(row: GradebookRow): string[] {
+  return [row.studentName, row.studentNumber, row.label];
+}
+
+/**
+ * Lay out the full gradebook as a table: answers and points for every question, then the totals
+ * @param gradebook Gradebook to lay out
+ * @returns Header row followed by one row per student
+ */
+function gradebookTable(gradebook: Gradebook): (string | number)[][] {
+  const header = [
+    "Student", "Student Number", "Paper",
+    ...gradebook.markScheme.flatMap(entry => [`Q${entry.questionNumber} Answer`, `Q${entry.questionNumber} Points`]),
+    "Points", "Total Points", "Percentage", "Scaled Percentage", "Grade"
+  ];
+  const body = gradebook.rows.map(row => [
+    ...studentCells(row),
+    ...gradebook.markScheme.flatMap(entry => {
+      const key = entry.questionNumber.toString();
+      return [row.answers[key] ?? "", row.points[key] ?? 0];
+    }),
+    row.pointsEarned,
+    row.totalPoints,
+    row.scorePercentage,
+    row.scaledPercentage ?? "",
+    row.letterGrade ?? ""
+  ]);
+  return [header, ...body];
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or line break
+ * @param value Cell value
+ * @returns The escaped field
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write rows of cells as CSV text
+ * @param rows Header and body rows
+ * @returns CSV text with CRLF line endings, as spreadsheet tools expect
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Write a gradebook as CSV, one row per student
+ * @param gradebook Gradebook to write
+ * @returns CSV text
+ */
+export function gradebookToCsv(gradebook: Gradebook): string {
+  return toCsv(gradebookTable(gradebook));
+}
+
+/**
+ * Write a gradebook as an Excel workbook
+ * Sheets: a summary of totals and grades, the full gradebook, and the mark scheme it was graded against
+ * @param gradebook Gradebook to write
+ * @returns The .xlsx file
+ */
+export function gradebookToXlsx(gradebook: Gradebook): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  const summary = [
+    ["Student", "Student Number", "Paper", "Points", "Total Points", "Percentage", "Scaled Percentage", "Grade", "Mark Scheme Version"],
+    ...gradebook.rows.map(row => [
+      ...studentCells(row),
+      row.pointsEarned,
+      row.totalPoints,
+      row.scorePercentage,
+      row.scaledPercentage ?? "",
+      row.letterGrade ?? "",
+      row.markSchemeVersion ?? ""
+    ])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), "Summary");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(gradebookTable(gradebook)), "Gradebook");
+
+  const markScheme = [
+    ["Question", "Type", "Expected Answer", "Points", "Counts"],
+    ...gradebook.markScheme.map(entry => [
+      entry.questionNumber,
+      entry.questionType,
+      entry.expectedAnswer,
+      entry.points,
+      entry.voided ? "Voided" : entry.bonus ? "Bonus" : "Normally"
+    ])
+  ];
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(markScheme), "Mark Scheme");
+
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
@@ -0,0 +1,307 @@
+import {
+  MarkSchemeEntry,
+  QuestionType,
+  RubricGrade,
+  InsertResult,
+  ResultItem,
+  AnswerRules,
+  ScoringPolicy,
+  defaultAnswerRules,
+  defaultScoringPolicy
+} from "@shared/schema";
+import { normalizeTrueFalse, parseAcceptedAnswers, parseNumber } from "@shared/answers";
+
+// The per-test rules a grading run follows; missing rules fall back to the defaults
+export interface GradingRules {
+  answerRules?: AnswerRules;
+  scoringPolicy?: ScoringPolicy;
+}
+
+// Rubric scores for written answers, keyed by question number
+export type WrittenGrades = Record<string, { pointsAwarded: number; rationale: string }>;
+
+// The outcome of grading one set of student answers against a mark scheme
+export interface GradingOutcome {
+  result: InsertResult;
+  items: ResultItem[];
+}
+
+// ASCII punctuation plus curly quotes, dashes and ellipses
+const PUNCTUATION = /[!-\/:-@\[-`{-~\u2010-\u2027]/g;
+
+/**
+ * Normalize an answer for comparison
+ * @param answer Raw answer as extracted or entered
+ * @returns Trimmed, upper-cased answer
+ */
+export function normalizeAnswer(answer: string | null | undefined): string {
+  return String(answer ?? "").trim().toUpperCase();
+}
+
+/**
+ * Put an answer into the form used for comparison under a test's equivalence rules
+ * @param answer Raw answer as extracted, entered or written in the mark scheme
+ * @param rules Equivalence rules for the test
+ * @returns Comparable answer; synonyms are replaced by the first answer in their group
+ */
+export function canonicalizeAnswer(answer: string, rules: AnswerRules = defaultAnswerRules): string {
+  const prepare = (value: string) => {
+    let prepared = value.trim();
+    if (rules.ignoreCase) {
+      prepared = prepared.toUpperCase();
+    }
+    if (rules.ignorePunctuation) {
+      prepared = prepared.replace(PUNCTUATION, "");
+    }
+    return rules.ignoreWhitespace ? prepared.replace(/\s+/g, "") : prepared.replace(/\s+/g, " ").trim();
+  };
+  
+  const prepared = prepare(answer);
+  for (const group of rules.synonyms) {
+    const members = group.map(prepare);
+    if (members.includes(prepared)) {
+      return members[0];
+    }
+  }
+  return prepared;
+}
+
+/**
+ * Check whether a student's answer matches the expected answer
+ * @param studentAnswer Answer given by the student
+ * @param expectedAnswer Answer from the mark scheme, possibly listing alternatives
+ * @param rules Equivalence rules for the test
+ * @returns True if the answer is equivalent to any accepted answer
+ */
+export function answersMatch(
+  studentAnswer: string,
+  expectedAnswer: string,
+  rules: AnswerRules = defaultAnswerRules
+): boolean {
+  const answer = canonicalizeAnswer(studentAnswer, rules);
+  return parseAcceptedAnswers(expectedAnswer).some(accepted => canonicalizeAnswer(accepted, rules) === answer);
+}
+
+/**
+ * Check whether a student's answer matches a question's key the way its type calls for
+ * True/false accepts the usual spellings and numeric answers may be off by the entry's tolerance
+ * @param studentAnswer Answer given by the student
+ * @param entry Mark scheme entry for the question
+ * @param rules Equivalence rules for the test, used for choice and text answers
+ * @returns True if the answer is equivalent to any accepted answer
+ */
+export function answerMatchesEntry(
+  studentAnswer: string,
+  entry: Pick<MarkSchemeEntry, "expectedAnswer" | "questionType" | "tolerance">,
+  rules: AnswerRules = defaultAnswerRules
+): boolean {
+  const accepted = parseAcceptedAnswers(entry.expectedAnswer);
+  
+  switch (entry.questionType) {
+    case "true_false": {
+      const answer = normalizeTrueFalse(studentAnswer);
+      return answer !== null && accepted.some(key => normalizeTrueFalse(key) === answer);
+    }
+    case "numeric": {
+      const answer = parseNumber(studentAnswer);
+      const tolerance = entry.tolerance ?? 0;
+      return answer !== null && accepted.some(key => {
+        const expected = parseNumber(key);
+        return expected !== null && Math.abs(answer - expected) <= tolerance + 1e-9;
+      });
+    }
+    default:
+      return answersMatch(studentAnswer, String(entry.expectedAnswer || ""), rules);
+  }
+}
+
+/**
+ * Collect a submission's stored rubric grades for grading; the latest grade for a question wins
+ * @param grades Rubric grades in the order they were given
+ * @returns Points and rationale keyed by question number
+ */
+export function toWrittenGrades(grades: RubricGrade[]): WrittenGrades {
+  return grades.reduce<WrittenGrades>(
+    (acc, grade) => ({ ...acc, [grade.questionNumber.toString()]: { pointsAwarded: grade.pointsAwarded, rationale: grade.rationale } }),
+    {}
+  );
+}
+
+/**
+ * Tidy an answer a person typed in, the way answers of its type are stored
+ * Letter and true/false answers are upper-cased; numbers and text are only trimmed
+ * @param answer Answer as typed
+ * @param questionType Type of the question, if known
+ * @returns The answer to store
+ */
+export function normalizeEnteredAnswer(answer: string, questionType?: QuestionType): string {
+  const trimmed = answer.trim();
+  return questionType === "numeric" || questionType === "short_text" || questionType === "written"
+    ? trimmed
+    : trimmed.toUpperCase();
+}
+
+/**
+ * Round points to two decimal places so fractional credit stays readable
+ * @param points Raw points
+ * @returns Rounded points
+ */
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Work out the credit for a multi-select answer such as "ACD"
+ * The order the options were marked in doesn't matter
+ * @param studentAnswer Answer given by the student
+ * @param expectedAnswer Answer from the mark scheme, possibly listing alternatives
+ * @param formula Partial credit formula from the test's scoring policy
+ * @returns Share of the question's points earned, from 0 to 1, or null if this isn't a multi-select question
+ */
+export function scoreSelection(
+  studentAnswer: string,
+  expectedAnswer: string,
+  formula: ScoringPolicy["partialCredit"]
+): number | null {
+  const toOptions = (answer: string) => answer.toUpperCase().replace(/[\s,]/g, "");
+  const chosen = toOptions(studentAnswer);
+  const keys = parseAcceptedAnswers(expectedAnswer).map(toOptions).filter(key => /^[A-Z]+$/.test(key));
+  
+  if (keys.length === 0 || !/^[A-Z]*$/.test(chosen)) {
+    return null;
+  }
+  
+  const chosenOptions = new Set(chosen.split(""));
+  return Math.max(...keys.map(key => {
+    const expected = new Set(key.split(""));
+    const right = Array.from(chosenOptions).filter(option => expected.has(option)).length;
+    const wrong = chosenOptions.size - right;
+    
+    if (right === expected.size && wrong === 0) {
+      return 1;
+    }
+    switch (formula) {
+      case "proportional":
+        return wrong > 0 ? 0 : right / expected.size;
+      case "right_minus_wrong":
+        return Math.max(0, (right - wrong) / expected.size);
+      default:
+        return 0;
+    }
+  }));
+}
+
+/**
+ * Work out the points earned on one question under a scoring policy
+ * @param studentAnswer Answer given by the student
+ * @param entry Mark scheme entry for the question
+ * @param answerRules Equivalence rules for the test
+ * @param policy Scoring policy for the test
+ * @param writtenGrade Rubric score for a written question, if it has been scored
+ * @returns Points earned, which may be fractional or negative, and whether the answer was fully correct
+ */
+function scoreQuestion(
+  studentAnswer: string,
+  entry: MarkSchemeEntry,
+  answerRules: AnswerRules,
+  policy: ScoringPolicy,
+  writtenGrade?: WrittenGrades[string]
+): { earnedPoints: number; correct: boolean; rationale?: string } {
+  const expectedAnswer = String(entry.expectedAnswer || "").trim();
+  const penalty = policy.wrongPenalty > 0 ? roundPoints(-entry.points * policy.wrongPenalty) : 0;
+  
+  // Written answers earn whatever the rubric awarded rather than matching the model answer
+  if (entry.questionType === "written" && studentAnswer !== "") {
+    const earnedPoints = roundPoints(Math.min(entry.points, writtenGrade?.pointsAwarded ?? 0));
+    return {
+      earnedPoints,
+      correct: earnedPoints >= entry.points,
+      rationale: writtenGrade?.rationale ?? "Not scored against the rubric yet"
+    };
+  }
+  
+  if (answerMatchesEntry(studentAnswer, entry, answerRules)) {
+    return { earnedPoints: entry.points, correct: true };
+  }
+  
+  if (canonicalizeAnswer(studentAnswer, answerRules) === "") {
+    return { earnedPoints: policy.blankHandling === "penalize" ? penalty : 0, correct: false };
+  }
+  
+  // Only choice questions can be partly right
+  const isChoice = entry.questionType === "single_choice" || entry.questionType === "multi_select";
+  const credit = isChoice ? scoreSelection(studentAnswer, expectedAnswer, policy.partialCredit) : null;
+  if (credit !== null && credit > 0) {
+    return { earnedPoints: roundPoints(entry.points * credit), correct: credit === 1 };
+  }
+  return { earnedPoints: penalty, correct: false };
+}
+
+/**
+ * Check whether a question is part of what a test is out of
+ * Voided and bonus questions never are; whatever they earn comes on top of the total
+ * @param question Mark scheme entry or graded item
+ * @returns True if the question's points belong in the total
+ */
+export function countsTowardsTotal(question: { voided?: boolean; bonus?: boolean }): boolean {
+  return !question.voided && !question.bonus;
+}
+
+/**
+ * Grade a set of student answers against a mark scheme
+ * @param testId ID of the test being graded
+ * @param markScheme Mark scheme entries for the test
+ * @param studentAnswers Map of question number to the student's answer
+ * @param rules The test's answer rules and scoring policy; defaults for whatever is missing
+ * @param writtenGrades Rubric scores for written questions, from gradeWrittenAnswers
+ * @returns The result to store and the per-question breakdown
+ */
+export function gradeAnswers(
+  testId: number,
+  markScheme: MarkSchemeEntry[],
+  studentAnswers: Record<string, string>,
+  rules: GradingRules = {},
+  writtenGrades: WrittenGrades = {}
+): GradingOutcome {
+  const answerRules = rules.answerRules ?? defaultAnswerRules;
+  // Policies saved before a setting existed take its default
+  const policy = { ...defaultScoringPolicy, ...rules.scoringPolicy };
+  
+  const items: ResultItem[] = markScheme.map(entry => {
+    const studentAnswer = String(studentAnswers[entry.questionNumber.toString()] ?? "").trim();
+    const expectedAnswer = String(entry.expectedAnswer || "").trim();
+    const item = { questionNumber: entry.questionNumber, studentAnswer, expectedAnswer, points: entry.points };
+
+    // A voided question gives everyone the same credit, whatever they answered; full credit counts like a bonus
+    if (entry.voided) {
+      const fullCredit = policy.voidedCredit === "full";
+      return { ...item, earnedPoints: fullCredit ? entry.points : 0, correct: fullCredit, voided: true };
+    }
+
+    const score = scoreQuestion(studentAnswer, entry, answerRules, policy, writtenGrades[entry.questionNumber.toString()]);
+    if (entry.bonus) {
+      // A bonus question can only help
+      return { ...item, ...score, earnedPoints: Math.max(0, score.earnedPoints), bonus: true };
+    }
+    return { ...item, ...score };
+  });
+
+  const totalPoints = items
+    .filter(item => countsTowardsTotal(item))
+    .reduce((sum, item) => sum + item.points, 0);
+  const rawPoints = roundPoints(items.reduce((sum, item) => sum + item.earnedPoints, 0));
+  const pointsEarned = policy.floorAtZero ? Math.max(0, rawPoints) : rawPoints;
+  const scorePercentage = totalPoints > 0 ? Math.round((pointsEarned / totalPoints) * 100) : 0;
+
+  return {
+    result: {
+      testId,
+      studentAnswers,
+      pointsEarned,
+      totalPoints,
+      scorePercentage,
+      items
+    },
+    items
+  };
+}
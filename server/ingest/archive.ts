@@ -0,0 +1,84 @@
+import { unzip, Unzipped } from "fflate";
+import { extractPdfPages } from "./pdf";
+import { PageSplitListener, ScannedPage } from "./types";
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png"
+};
+
+/**
+ * Check that an archive entry is a file someone put there rather than folder or OS clutter
+ * @param name Path inside the archive
+ * @returns True for files worth looking at
+ */
+function isContentFile(name: string): boolean {
+  const baseName = name.split("/").pop() ?? "";
+  return baseName !== "" && !baseName.startsWith(".") && !name.startsWith("__MACOSX/") && baseName !== "Thumbs.db";
+}
+
+/**
+ * Decompress a ZIP file off the main thread
+ * @param bytes The .zip file
+ * @returns Every entry in the archive, by path
+ */
+function unzipArchive(bytes: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(bytes, (error, files) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(files);
+      }
+    });
+  });
+}
+
+/**
+ * Pull the page images out of a ZIP of scans
+ * Files are taken in natural name order (scan2 before scan10); PDFs inside the archive are rendered page by page
+ * @param bytes The .zip file
+ * @param onPage Called after each page is split off
+ * @returns One entry per page image, in order
+ */
+export async function extractArchivePages(bytes: Uint8Array, onPage?: PageSplitListener): Promise<ScannedPage[]> {
+  let files: Unzipped;
+  try {
+    files = await unzipArchive(bytes);
+  } catch (error) {
+    throw new Error(`The ZIP file could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const names = Object.keys(files)
+    .filter(isContentFile)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }));
+  const pages: ScannedPage[] = [];
+
+  for (const name of names) {
+    const extension = name.toLowerCase().split(".").pop() ?? "";
+    const data = Buffer.from(files[name]);
+
+    if (IMAGE_TYPES[extension]) {
+      pages.push({ source: name, imageData: `data:${IMAGE_TYPES[extension]};base64,${data.toString("base64")}`, error: null });
+      onPage?.();
+    } else if (extension === "pdf") {
+      try {
+        const pdfPages = await extractPdfPages(data, onPage);
+        pages.push(...pdfPages.map(page => ({ ...page, source: `${name} ${page.source}` })));
+      } catch (error) {
+        pages.push({ source: name, imageData: null, error: `Couldn't read ${name}: ${error instanceof Error ? error.message : String(error)}` });
+        onPage?.();
+      }
+    } else if (["tif", "tiff", "heic", "bmp", "gif"].includes(extension)) {
+      pages.push({ source: name, imageData: null, error: `Couldn't read ${name}: only JPEG and PNG images are supported` });
+      onPage?.();
+    }
+  }
+
+  if (pages.length === 0) {
+    throw new Error("The ZIP file has no JPEG, PNG or PDF scans in it");
+  }
+  console.log(`Found ${pages.length} pages in ZIP of ${names.length} files`);
+  return pages;
+}
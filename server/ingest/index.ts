@@ -0,0 +1,316 @@
+import { EventEmitter } from "events";
+import { BulkUploadOptions, MarkSchemeEntry, PageUpload, Submission } from "@shared/schema";
+import { storage } from "../storage";
+import { routePage } from "../page-routing";
+import { jobQueue, isJobFinished, JobProgress } from "../jobs";
+import { gradeSubmission } from "../submission-grading";
+import { extractPdfPages } from "./pdf";
+import { extractArchivePages } from "./archive";
+import { ScannedPage } from "./types";
+
+export * from "./types";
+
+export type IngestStatus = "splitting" | "routing" | "processing" | "grading" | "completed" | "failed";
+
+// A snapshot of a bulk upload's progress, as streamed to the client
+export interface IngestProgress {
+  id: number;
+  testId: number;
+  fileName: string;
+  status: IngestStatus;
+  splitPages: number; // Pages split off the file so far
+  totalPages: number; // Pages found in the file; 0 until it has been split
+  routedPages: number; // Filed under a paper
+  triagedPages: number; // Sent to the triage queue to be assigned by hand
+  failedPages: number; // Couldn't be extracted or stored
+  processedPages: number; // Finished by the processing job, successfully or not
+  submissionIds: number[]; // Papers that received pages
+  gradedSubmissions: number;
+  heldForReview: number;
+  jobId: number | null;
+  errors: string[];
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+/**
+ * Check whether a bulk upload has stopped
+ * @param ingest Progress snapshot
+ * @returns True once the upload completed or failed
+ */
+export function isIngestFinished(ingest: IngestProgress): boolean {
+  return ingest.status === "completed" || ingest.status === "failed";
+}
+
+/**
+ * Tell what kind of bulk upload a file is from its first bytes
+ * @param bytes Uploaded file
+ * @returns "pdf", "zip", or null for anything else
+ */
+export function detectBulkUploadFormat(bytes: Buffer): "pdf" | "zip" | null {
+  if (bytes.subarray(0, 1024).includes("%PDF-")) {
+    return "pdf";
+  }
+  // ZIP files start with "PK\x03\x04"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return "zip";
+  }
+  return null;
+}
+
+/**
+ * Splits bulk uploads of scanned answer sheets into pages, files them under papers, runs them through
+ * the job queue and grades the papers. Progress is kept in memory: an upload is only resumable for as
+ * long as the file it came from, which isn't kept after a restart.
+ */
+export class BulkIngest {
+  private events = new EventEmitter();
+  private ingests = new Map<number, IngestProgress>();
+  private nextId = 1;
+
+  constructor() {
+    // Every open progress stream adds a listener
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Start ingesting an uploaded PDF or ZIP in the background
+   * @param testId Test the scans are for
+   * @param fileName Name of the uploaded file
+   * @param bytes The file
+   * @param options How pages are grouped into papers
+   * @returns The upload's initial progress
+   */
+  start(testId: number, fileName: string, bytes: Buffer, options: BulkUploadOptions): IngestProgress {
+    const ingest: IngestProgress = {
+      id: this.nextId++,
+      testId,
+      fileName,
+      status: "splitting",
+      splitPages: 0,
+      totalPages: 0,
+      routedPages: 0,
+      triagedPages: 0,
+      failedPages: 0,
+      processedPages: 0,
+      submissionIds: [],
+      gradedSubmissions: 0,
+      heldForReview: 0,
+      jobId: null,
+      errors: [],
+      startedAt: new Date(),
+      finishedAt: null
+    };
+    this.ingests.set(ingest.id, ingest);
+
+    console.log(`Bulk upload ${ingest.id}: ${fileName} for test ${testId} (${options.grouping})`);
+    // Splitting a large file takes a while, so let the caller respond before it begins
+    setImmediate(() => {
+      void this.run(ingest, bytes, options);
+    });
+    return { ...ingest };
+  }
+
+  /**
+   * Get the current state of a bulk upload
+   * @param id Upload ID
+   * @returns A snapshot of its progress, or undefined if there's no such upload
+   */
+  getProgress(id: number): IngestProgress | undefined {
+    const ingest = this.ingests.get(id);
+    return ingest ? { ...ingest, submissionIds: [...ingest.submissionIds], errors: [...ingest.errors] } : undefined;
+  }
+
+  /**
+   * Listen for progress on a bulk upload
+   * @param id Upload ID
+   * @param listener Called with a fresh snapshot whenever the upload moves on
+   * @returns Function that removes the listener
+   */
+  subscribe(id: number, listener: (progress: IngestProgress) => void): () => void {
+    const event = `ingest:${id}`;
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  /**
+   * Split, file, process and grade an upload
+   * @param ingest The upload's progress, updated as it goes
+   * @param bytes The uploaded file
+   * @param options How pages are grouped into papers
+   */
+  private async run(ingest: IngestProgress, bytes: Buffer, options: BulkUploadOptions): Promise<void> {
+    try {
+      const onPage = () => {
+        ingest.splitPages++;
+        this.publish(ingest);
+      };
+      const pages = detectBulkUploadFormat(bytes) === "pdf"
+        ? await extractPdfPages(bytes, onPage)
+        : await extractArchivePages(bytes, onPage);
+      ingest.totalPages = pages.length;
+      ingest.status = "routing";
+      this.publish(ingest);
+
+      const pageIds = await this.routePages(ingest, pages, options);
+
+      if (pageIds.length > 0) {
+        const job = await this.processPages(ingest, pageIds);
+        if (job.job.status === "cancelled") {
+          throw new Error("Processing was cancelled; the pages were kept and can be processed from the job");
+        }
+
+        ingest.status = "grading";
+        this.publish(ingest);
+        await this.gradePapers(ingest, job);
+      }
+
+      ingest.status = "completed";
+      console.log(`Bulk upload ${ingest.id} completed: ${ingest.routedPages} pages filed, ${ingest.triagedPages} triaged, ${ingest.failedPages} failed`);
+    } catch (error) {
+      console.error(`Bulk upload ${ingest.id} failed:`, error);
+      ingest.status = "failed";
+      ingest.errors.push(error instanceof Error ? error.message : String(error));
+    } finally {
+      ingest.finishedAt = new Date();
+      this.publish(ingest);
+    }
+  }
+
+  /**
+   * File each page under its paper, or send it to triage
+   * Pages are routed like single uploads, so a sheet's QR code wins over the page-count grouping
+   * @param ingest The upload's progress
+   * @param pages Pages split from the file, in scan order
+   * @param options How pages are grouped into papers
+   * @returns IDs of the pages that were filed
+   */
+  private async routePages(ingest: IngestProgress, pages: ScannedPage[], options: BulkUploadOptions): Promise<number[]> {
+    const pageIds: number[] = [];
+    const fileStem = ingest.fileName.replace(/\.[^.]+$/, "") || "Scan";
+    let paper: Submission | null = null;
+
+    for (let index = 0; index < pages.length; index++) {
+      const scanned = pages[index];
+      try {
+        // With page-count grouping every run of pages is a new paper, even where a page couldn't be read
+        const size = options.pagesPerSubmission ?? 1;
+        if (options.grouping === "page_count" && index % size === 0) {
+          paper = await storage.createSubmission({ testId: ingest.testId, label: `${fileStem} #${index / size + 1}` });
+        }
+        if (!scanned.imageData) {
+          throw new Error(scanned.error ?? `Couldn't read ${scanned.source}`);
+        }
+
+        const upload: PageUpload = options.grouping === "page_count" && paper
+          ? { imageData: scanned.imageData, testId: ingest.testId, pageNumber: (index % size) + 1, submissionId: paper.id }
+          : { imageData: scanned.imageData, testId: ingest.testId };
+        const outcome = await routePage(upload);
+
+        if (outcome.status === "triaged") {
+          ingest.triagedPages++;
+        } else {
+          ingest.routedPages++;
+          pageIds.push(outcome.page.id);
+          if (outcome.submission && !ingest.submissionIds.includes(outcome.submission.id)) {
+            ingest.submissionIds.push(outcome.submission.id);
+          }
+        }
+      } catch (error) {
+        ingest.failedPages++;
+        ingest.errors.push(error instanceof Error ? error.message : String(error));
+      }
+      this.publish(ingest);
+    }
+
+    return pageIds;
+  }
+
+  /**
+   * Extract answers from the filed pages on the job queue and wait for it to finish
+   * @param ingest The upload's progress
+   * @param pageIds Pages to process
+   * @returns The finished job
+   */
+  private async processPages(ingest: IngestProgress, pageIds: number[]): Promise<JobProgress> {
+    ingest.status = "processing";
+    const paper = ingest.submissionIds.length === 1 ? ingest.submissionIds[0] : null;
+    const job = await jobQueue.enqueue(ingest.testId, paper, pageIds);
+    ingest.jobId = job.id;
+    this.publish(ingest);
+
+    return new Promise<JobProgress>((resolve, reject) => {
+      const onProgress = (progress: JobProgress) => {
+        ingest.processedPages = progress.job.completedItems + progress.job.failedItems;
+        this.publish(ingest);
+        if (isJobFinished(progress.job)) {
+          unsubscribe();
+          resolve(progress);
+        }
+      };
+      const unsubscribe = jobQueue.subscribe(job.id, onProgress);
+
+      // The job may already have finished before we started listening
+      jobQueue.getProgress(job.id).then(progress => {
+        if (progress && isJobFinished(progress.job)) {
+          onProgress(progress);
+        }
+      }).catch(error => {
+        unsubscribe();
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Grade every paper whose pages were all processed
+   * @param ingest The upload's progress
+   * @param job The finished processing job
+   */
+  private async gradePapers(ingest: IngestProgress, job: JobProgress): Promise<void> {
+    const failedPageIds = new Set(job.items.filter(item => item.status !== "completed").map(item => item.pageId));
+    const markSchemes = new Map<number, MarkSchemeEntry[]>();
+
+    for (const submissionId of ingest.submissionIds) {
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        continue;
+      }
+
+      const pages = await storage.getSubmissionPages(submission.id);
+      if (pages.some(page => failedPageIds.has(page.id))) {
+        ingest.errors.push(`${submission.label || `Paper ${submission.id}`} wasn't graded because some of its pages couldn't be processed`);
+        continue;
+      }
+
+      if (!markSchemes.has(submission.testId)) {
+        markSchemes.set(submission.testId, await storage.getMarkScheme(submission.testId));
+      }
+      const markScheme = markSchemes.get(submission.testId)!;
+      if (markScheme.length === 0) {
+        ingest.errors.push(`${submission.label || `Paper ${submission.id}`} wasn't graded because its test has no mark scheme`);
+        continue;
+      }
+
+      const outcome = await gradeSubmission(submission, markScheme);
+      if (outcome.status === "graded") {
+        ingest.gradedSubmissions++;
+      } else {
+        ingest.heldForReview++;
+      }
+      this.publish(ingest);
+    }
+  }
+
+  /**
+   * Notify an upload's listeners
+   * @param ingest The upload's progress
+   */
+  private publish(ingest: IngestProgress): void {
+    this.events.emit(`ingest:${ingest.id}`, this.getProgress(ingest.id));
+  }
+}
+
+export const bulkIngest = new BulkIngest();
@@ -0,0 +1,89 @@
+import { createRequire } from "module";
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { PageSplitListener, ScannedPage } from "./types";
+
+// Pages are rendered at a resolution that keeps handwriting and bubbles legible without making
+// every page image several megabytes; oversized pages are scaled down to fit MAX_PAGE_SIZE
+const RENDER_DPI = 150;
+const MAX_PAGE_SIZE = 2500;
+const JPEG_QUALITY = 90;
+
+// pdf.js loads its image decoders (JBIG2, JPEG 2000), fonts and character maps from files shipped
+// in the package, which it needs as directory paths when running under Node
+const pdfjsDir = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+const pdfjsAssets = {
+  wasmUrl: path.join(pdfjsDir, "wasm") + path.sep,
+  standardFontDataUrl: path.join(pdfjsDir, "standard_fonts") + path.sep,
+  cMapUrl: path.join(pdfjsDir, "cmaps") + path.sep,
+  cMapPacked: true
+};
+
+/**
+ * Rasterize every page of a PDF into a JPEG
+ * Scanned pages (JPEG, CCITT fax, JBIG2, JPEG 2000) and pages drawn as text or vector graphics are all
+ * rendered the same way. A page that fails to render is returned with an error instead of failing the file.
+ * @param bytes The PDF file
+ * @param onPage Called after each page is rendered
+ * @returns One entry per page, in order
+ */
+export async function extractPdfPages(bytes: Uint8Array, onPage?: PageSplitListener): Promise<ScannedPage[]> {
+  const loadingTask = getDocument({
+    // pdf.js takes ownership of the buffer it's given, so hand it a copy
+    data: new Uint8Array(bytes),
+    ...pdfjsAssets,
+    isEvalSupported: false,
+    verbosity: 0
+  });
+
+  let document;
+  try {
+    document = await loadingTask.promise;
+  } catch (error) {
+    // Without a password callback, pdf.js rejects protected files with a PasswordException
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(error instanceof Error && error.name === "PasswordException"
+      ? "The PDF is password protected; save an unprotected copy and upload that"
+      : `The PDF could not be read: ${message}`);
+  }
+
+  const pages: ScannedPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const source = `page ${pageNumber}`;
+      try {
+        const page = await document.getPage(pageNumber);
+        const natural = page.getViewport({ scale: 1 });
+        const scale = Math.min(RENDER_DPI / 72, MAX_PAGE_SIZE / Math.max(natural.width, natural.height));
+        const viewport = page.getViewport({ scale });
+
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        const context = canvas.getContext("2d");
+        // Scans with transparent areas would otherwise come out black once saved as JPEG
+        context.fillStyle = "#ffffff";
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({
+          canvas: canvas as unknown as HTMLCanvasElement,
+          canvasContext: context as unknown as CanvasRenderingContext2D,
+          viewport
+        }).promise;
+
+        const jpeg = await canvas.encode("jpeg", JPEG_QUALITY);
+        pages.push({ source, imageData: `data:image/jpeg;base64,${jpeg.toString("base64")}`, error: null });
+        page.cleanup();
+      } catch (error) {
+        pages.push({ source, imageData: null, error: `Couldn't render ${source}: ${error instanceof Error ? error.message : String(error)}` });
+      }
+      onPage?.();
+
+      // Rendering runs on the main thread; give requests and progress streams a turn between pages
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  console.log(`Rendered ${pages.length} pages from PDF (${pages.filter(page => page.error).length} failed)`);
+  return pages;
+}
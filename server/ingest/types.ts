@@ -0,0 +1,9 @@
+// One page image pulled out of a bulk upload, in the order it was scanned
+export interface ScannedPage {
+  source: string; // Where it came from, e.g. "page 3" or "scans/0004.jpg"
+  imageData: string | null; // Data URL of the page image; null if it couldn't be extracted
+  error: string | null; // Why the page couldn't be extracted
+}
+
+// Called each time another page has been split off a file, so progress can be shown while a large upload is split
+export type PageSplitListener = () => void;
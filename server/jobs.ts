@@ -0,0 +1,301 @@
+import { EventEmitter } from "events";
+import { Job, JobItem, JobStatus, Settings } from "@shared/schema";
+import { storage } from "./storage";
+import { getActiveProvider, RecognitionProvider } from "./recognition";
+import { processPage } from "./page-processing";
+
+// A snapshot of a job and its items, as streamed to the client
+export interface JobProgress {
+  job: Job;
+  items: JobItem[];
+}
+
+const FINISHED_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+// Base delay before retrying a failed page; grows with each attempt
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Check whether a job has stopped running
+ * @param job Job to check
+ * @returns True once the job is completed, failed or cancelled
+ */
+export function isJobFinished(job: Job): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+/**
+ * In-process queue that extracts answers from batches of pages in the background.
+ * Job state lives in storage so progress survives the client going away, and
+ * unfinished jobs are picked up again when the server restarts.
+ */
+export class JobQueue {
+  private events = new EventEmitter();
+  private activeJobs = new Set<number>();
+  private cancelledJobs = new Set<number>();
+  
+  // Pages being processed across all jobs, limited by the concurrency setting
+  private activePages = 0;
+  private slotWaiters: Array<() => void> = [];
+  
+  constructor() {
+    // Every open progress stream adds a listener
+    this.events.setMaxListeners(0);
+  }
+  
+  /**
+   * Queue a batch of pages for processing
+   * @param testId Test the pages belong to
+   * @param submissionId Submission the pages belong to, if any
+   * @param pageIds Pages to process
+   * @returns The created job
+   */
+  async enqueue(testId: number, submissionId: number | null, pageIds: number[]): Promise<Job> {
+    const job = await storage.createJob({ testId, submissionId, totalItems: pageIds.length }, pageIds);
+    void this.run(job.id);
+    return job;
+  }
+  
+  /**
+   * Get the current state of a job
+   * @param jobId Job ID
+   * @returns The job and its items, or undefined if no such job exists
+   */
+  async getProgress(jobId: number): Promise<JobProgress | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      return undefined;
+    }
+    return { job, items: await storage.getJobItems(jobId) };
+  }
+  
+  /**
+   * Listen for progress on a job
+   * @param jobId Job ID
+   * @param listener Called with a fresh snapshot whenever the job changes
+   * @returns Function that removes the listener
+   */
+  subscribe(jobId: number, listener: (progress: JobProgress) => void): () => void {
+    const event = `job:${jobId}`;
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+  
+  /**
+   * Cancel a job; pages already being processed are allowed to finish
+   * @param jobId Job ID
+   * @returns The job's state after cancelling
+   */
+  async cancel(jobId: number): Promise<JobProgress> {
+    const progress = await this.getProgress(jobId);
+    if (!progress) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+    if (isJobFinished(progress.job)) {
+      return progress;
+    }
+    
+    for (const item of progress.items) {
+      if (item.status === "queued") {
+        await storage.updateJobItem(item.id, { status: "cancelled" });
+      }
+    }
+    
+    // A running job notices the flag between pages and finishes itself
+    if (this.activeJobs.has(jobId)) {
+      this.cancelledJobs.add(jobId);
+    } else {
+      await storage.updateJob(jobId, { status: "cancelled", finishedAt: new Date() });
+    }
+    
+    console.log(`Cancelled job ${jobId}`);
+    return this.publish(jobId);
+  }
+  
+  /**
+   * Re-queue the failed and cancelled pages of a finished job
+   * @param jobId Job ID
+   * @returns The job's state after re-queuing
+   */
+  async retry(jobId: number): Promise<JobProgress> {
+    const progress = await this.getProgress(jobId);
+    if (!progress) {
+      throw new Error(`Job with id ${jobId} not found`);
+    }
+    if (!isJobFinished(progress.job)) {
+      throw new Error(`Job ${jobId} is still running`);
+    }
+    
+    for (const item of progress.items) {
+      if (item.status === "failed" || item.status === "cancelled") {
+        await storage.updateJobItem(item.id, { status: "queued", attempts: 0, error: null });
+      }
+    }
+    await storage.updateJob(jobId, { status: "queued", finishedAt: null });
+    
+    console.log(`Retrying job ${jobId}`);
+    const updated = await this.publish(jobId);
+    void this.run(jobId);
+    return updated;
+  }
+  
+  /**
+   * Pick up jobs that were still queued or running when the server stopped
+   */
+  async resumeUnfinished(): Promise<void> {
+    const jobs = await storage.getUnfinishedJobs();
+    for (const job of jobs) {
+      // Pages that were mid-flight have to start again
+      for (const item of await storage.getJobItems(job.id)) {
+        if (item.status === "running") {
+          await storage.updateJobItem(item.id, { status: "queued" });
+        }
+      }
+      console.log(`Resuming job ${job.id}`);
+      void this.run(job.id);
+    }
+  }
+  
+  /**
+   * Process every queued page of a job
+   * @param jobId Job ID
+   */
+  private async run(jobId: number): Promise<void> {
+    if (this.activeJobs.has(jobId)) {
+      return;
+    }
+    this.activeJobs.add(jobId);
+    
+    try {
+      const settings = await storage.getSettings();
+      const provider = getActiveProvider(settings);
+      const availability = provider.checkAvailability();
+      if (!availability.available) {
+        throw new Error(`Recognition provider "${provider.name}" is unavailable: ${availability.reason}`);
+      }
+      
+      await storage.updateJob(jobId, { status: "running" });
+      await this.publish(jobId);
+      
+      const concurrency = Math.max(1, settings.processingConcurrency ?? 2);
+      const maxAttempts = Math.max(1, settings.processingMaxAttempts ?? 3);
+      const queue = (await storage.getJobItems(jobId)).filter(item => item.status === "queued");
+      
+      const worker = async () => {
+        while (queue.length > 0 && !this.cancelledJobs.has(jobId)) {
+          const item = queue.shift()!;
+          await this.processItem(item, provider, settings, maxAttempts);
+          await this.publish(jobId);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+      
+      const items = await storage.getJobItems(jobId);
+      const status: JobStatus = this.cancelledJobs.has(jobId)
+        ? "cancelled"
+        : items.some(item => item.status === "failed") ? "failed" : "completed";
+      await storage.updateJob(jobId, { status, finishedAt: new Date() });
+      console.log(`Job ${jobId} ${status}`);
+    } catch (error) {
+      console.error(`Job ${jobId} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      for (const item of await storage.getJobItems(jobId)) {
+        if (item.status === "queued" || item.status === "running") {
+          await storage.updateJobItem(item.id, { status: "failed", error: message });
+        }
+      }
+      await storage.updateJob(jobId, { status: "failed", finishedAt: new Date() });
+    } finally {
+      this.activeJobs.delete(jobId);
+      this.cancelledJobs.delete(jobId);
+      await this.publish(jobId);
+    }
+  }
+  
+  /**
+   * Process one page, retrying with a growing delay until it succeeds or runs out of attempts
+   * @param item Job item to process
+   * @param provider Recognition provider
+   * @param settings Current settings
+   * @param maxAttempts Tries before the page is marked failed
+   */
+  private async processItem(
+    item: JobItem,
+    provider: RecognitionProvider,
+    settings: Settings,
+    maxAttempts: number
+  ): Promise<void> {
+    let attempts = item.attempts;
+    
+    while (true) {
+      attempts++;
+      await this.acquireSlot(settings.processingConcurrency ?? 2);
+      try {
+        await storage.updateJobItem(item.id, { status: "running", attempts });
+        await this.publish(item.jobId);
+        
+        const page = await storage.getPage(item.pageId);
+        await processPage(page, provider, settings);
+        await storage.updateJobItem(item.id, { status: "completed", error: null });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Job ${item.jobId}: page ${item.pageId} failed (attempt ${attempts}):`, message);
+        
+        if (attempts >= maxAttempts) {
+          await storage.updateJobItem(item.id, { status: "failed", error: message });
+          return;
+        }
+        await storage.updateJobItem(item.id, { status: "queued", error: message });
+      } finally {
+        this.releaseSlot();
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempts));
+      if (this.cancelledJobs.has(item.jobId)) {
+        await storage.updateJobItem(item.id, { status: "cancelled" });
+        return;
+      }
+    }
+  }
+  
+  /**
+   * Wait until fewer than `limit` pages are being processed, then claim a slot
+   * @param limit Maximum pages processed at once
+   */
+  private async acquireSlot(limit: number): Promise<void> {
+    while (this.activePages >= Math.max(1, limit)) {
+      await new Promise<void>(resolve => this.slotWaiters.push(resolve));
+    }
+    this.activePages++;
+  }
+  
+  /**
+   * Release a processing slot and wake the next waiting page
+   */
+  private releaseSlot(): void {
+    this.activePages--;
+    this.slotWaiters.shift()?.();
+  }
+  
+  /**
+   * Update a job's counters and notify its listeners
+   * @param jobId Job ID
+   * @returns The snapshot that was sent
+   */
+  private async publish(jobId: number): Promise<JobProgress> {
+    const items = await storage.getJobItems(jobId);
+    const job = await storage.updateJob(jobId, {
+      completedItems: items.filter(item => item.status === "completed").length,
+      failedItems: items.filter(item => item.status === "failed").length
+    });
+    
+    const progress = { job, items };
+    this.events.emit(`job:${jobId}`, progress);
+    return progress;
+  }
+}
+
+export const jobQueue = new JobQueue();
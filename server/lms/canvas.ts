@@ -0,0 +1,40 @@
+import { toCsv } from "../gradebook";
+import { LmsAdapter } from "./types";
+
+/**
+ * Canvas gradebook import
+ * Canvas expects its exported layout back: Student, ID, SIS User ID, SIS Login ID and Section, then a
+ * column per assignment. A blank Canvas ID makes it match on SIS User ID, and an assignment column
+ * without a Canvas ID in brackets is created as a new assignment on import.
+ */
+export const canvasAdapter: LmsAdapter = {
+  id: "canvas",
+  name: "Canvas",
+  description: "CSV for Grades > Import. Creates the assignment if it doesn't exist yet.",
+  fileExtension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  identifier: "SIS User ID (the student number)",
+  needsEmailDomain: false,
+
+  buildFile(grades, context) {
+    const matched = grades.filter(grade => grade.studentNumber !== "");
+    const rows: (string | number)[][] = [
+      ["Student", "ID", "SIS User ID", "SIS Login ID", "Section", context.assignmentName],
+      // Canvas reads this row to set the new assignment's points
+      ["Points Possible", "", "", "", "", context.pointsPossible],
+      ...matched.map(grade => [
+        grade.lastName && grade.firstName ? `${grade.lastName}, ${grade.firstName}` : grade.name,
+        "",
+        grade.studentNumber,
+        "",
+        "",
+        grade.score
+      ])
+    ];
+
+    return {
+      content: toCsv(rows),
+      skipped: grades.filter(grade => grade.studentNumber === "").map(grade => grade.name)
+    };
+  }
+};
@@ -0,0 +1,49 @@
+import { toCsv } from "../gradebook";
+import { LmsAdapter, LmsStudentGrade } from "./types";
+
+/**
+ * Work out the email Google Classroom knows a student by
+ * @param grade The student's mark
+ * @param emailDomain School email domain, for student numbers that aren't already addresses
+ * @returns The email address, or null if there's no way to build one
+ */
+function studentEmail(grade: LmsStudentGrade, emailDomain: string | undefined): string | null {
+  if (grade.studentNumber.includes("@")) {
+    return grade.studentNumber;
+  }
+  if (grade.studentNumber !== "" && emailDomain) {
+    return `${grade.studentNumber}@${emailDomain}`.toLowerCase();
+  }
+  return null;
+}
+
+/**
+ * Google Classroom grade import
+ * Classroom imports grades for one assignment from a sheet with an email column and a grade column,
+ * matching students by their school account email.
+ */
+export const googleClassroomAdapter: LmsAdapter = {
+  id: "google-classroom",
+  name: "Google Classroom",
+  description: "CSV for an assignment's Import grades. Students are matched by school email.",
+  fileExtension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  identifier: "Email address (student number at the school domain)",
+  needsEmailDomain: true,
+
+  buildFile(grades, context) {
+    const rows: (string | number)[][] = [["Last Name", "First Name", "Email Address", context.assignmentName]];
+    const skipped: string[] = [];
+
+    for (const grade of grades) {
+      const email = studentEmail(grade, context.options.emailDomain);
+      if (!email) {
+        skipped.push(grade.name);
+        continue;
+      }
+      rows.push([grade.lastName, grade.firstName, email, grade.score]);
+    }
+
+    return { content: toCsv(rows), skipped };
+  }
+};
@@ -0,0 +1,103 @@
+import { LmsExportOptions } from "@shared/schema";
+import type { Gradebook } from "../gradebook";
+import { LmsAdapter, LmsStudentGrade } from "./types";
+import { canvasAdapter } from "./canvas";
+import { moodleAdapter } from "./moodle";
+import { googleClassroomAdapter } from "./google-classroom";
+
+export * from "./types";
+
+// Registry of the LMS gradebook formats the server can export
+const adapters = new Map<string, LmsAdapter>();
+
+/**
+ * Register an LMS adapter so it can be chosen for exports
+ * @param adapter Adapter to register (replaces any adapter with the same ID)
+ */
+export function registerLmsAdapter(adapter: LmsAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Look up an LMS adapter by ID
+ * @param id Adapter ID
+ * @returns The adapter, or undefined if none is registered under that ID
+ */
+export function getLmsAdapter(id: string): LmsAdapter | undefined {
+  return adapters.get(id);
+}
+
+/**
+ * Describe every registered LMS adapter
+ * @returns Adapter summaries suitable for the export UI
+ */
+export function listLmsAdapters(): Array<Pick<LmsAdapter, "id" | "name" | "description" | "identifier" | "needsEmailDomain">> {
+  return Array.from(adapters.values()).map(adapter => ({
+    id: adapter.id,
+    name: adapter.name,
+    description: adapter.description,
+    identifier: adapter.identifier,
+    needsEmailDomain: adapter.needsEmailDomain
+  }));
+}
+
+/**
+ * Split a roster name into first and last names
+ * Handles both "Amy Zed" and "Zed, Amy"
+ * @param name Name as entered on the roster
+ * @returns First and last name; the last name is empty for one-word names
+ */
+function splitName(name: string): { firstName: string; lastName: string } {
+  const trimmed = name.trim();
+  if (trimmed.includes(",")) {
+    const [lastName, ...rest] = trimmed.split(",");
+    return { firstName: rest.join(",").trim(), lastName: lastName.trim() };
+  }
+  const words = trimmed.split(/\s+/);
+  return words.length > 1
+    ? { firstName: words.slice(0, -1).join(" "), lastName: words[words.length - 1] }
+    : { firstName: trimmed, lastName: "" };
+}
+
+/**
+ * Turn a test's gradebook into an LMS import file
+ * Papers that were never assigned to a student can't be matched by any LMS and are left out
+ * @param adapter LMS format to write
+ * @param gradebook Graded papers for the test
+ * @param options Assignment name, which score to send and how to build emails
+ * @returns The file, its name and the students left out of it
+ */
+export function exportGradebookForLms(adapter: LmsAdapter, gradebook: Gradebook, options: LmsExportOptions) {
+  const byPercentage = options.score !== "points";
+  const grades: LmsStudentGrade[] = gradebook.rows
+    .filter(row => row.studentName !== "")
+    .map(row => ({
+      name: row.studentName,
+      ...splitName(row.studentName),
+      studentNumber: row.studentNumber,
+      score: options.score === "scaled"
+        ? row.scaledPercentage ?? row.scorePercentage
+        : options.score === "percentage" ? row.scorePercentage : row.pointsEarned
+    }));
+
+  const assignmentName = options.assignmentName || gradebook.test.name;
+  const file = adapter.buildFile(grades, {
+    assignmentName,
+    pointsPossible: byPercentage ? 100 : gradebook.test.totalPoints,
+    options
+  });
+  const unassigned = gradebook.rows.filter(row => row.studentName === "").map(row => row.label || `Paper ${row.submissionId}`);
+  const slug = assignmentName.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "test";
+
+  return {
+    fileName: `${slug}-${adapter.id}.${adapter.fileExtension}`,
+    contentType: adapter.contentType,
+    content: file.content,
+    exported: grades.length - file.skipped.length,
+    skipped: [...file.skipped, ...unassigned]
+  };
+}
+
+registerLmsAdapter(canvasAdapter);
+registerLmsAdapter(moodleAdapter);
+registerLmsAdapter(googleClassroomAdapter);
@@ -0,0 +1,31 @@
+import { toCsv } from "../gradebook";
+import { LmsAdapter } from "./types";
+
+/**
+ * Moodle grade import from CSV
+ * Moodle asks which column identifies the user and which grade item each other column feeds, so the
+ * headers are named after the fields they should be mapped to: "ID number" to the user's ID number
+ * and the assignment column to a grade item (or a new one).
+ */
+export const moodleAdapter: LmsAdapter = {
+  id: "moodle",
+  name: "Moodle",
+  description: "CSV for Grades > Import > CSV file. Map \"ID number\" to the user's ID number.",
+  fileExtension: "csv",
+  contentType: "text/csv; charset=utf-8",
+  identifier: "User ID number (the student number)",
+  needsEmailDomain: false,
+
+  buildFile(grades, context) {
+    const matched = grades.filter(grade => grade.studentNumber !== "");
+    const rows: (string | number)[][] = [
+      ["ID number", "First name", "Last name", context.assignmentName],
+      ...matched.map(grade => [grade.studentNumber, grade.firstName, grade.lastName, grade.score])
+    ];
+
+    return {
+      content: toCsv(rows),
+      skipped: grades.filter(grade => grade.studentNumber === "").map(grade => grade.name)
+    };
+  }
+};
@@ -0,0 +1,44 @@
+import { LmsExportOptions } from "@shared/schema";
+
+// One student's mark, ready to be written in an LMS's import format
+export interface LmsStudentGrade {
+  name: string; // As entered on the roster
+  firstName: string;
+  lastName: string;
+  studentNumber: string; // School-issued ID, which schools usually load into the LMS as the SIS or ID number
+  score: number; // Points, percentage or scaled percentage, as the export options asked for
+}
+
+// Everything an adapter needs besides the grades
+export interface LmsExportContext {
+  assignmentName: string;
+  pointsPossible: number; // Out of what the score is given
+  options: LmsExportOptions;
+}
+
+// The import file an adapter produced
+export interface LmsExportFile {
+  content: string;
+  skipped: string[]; // Students left out because the LMS couldn't have matched them
+}
+
+/**
+ * Writes grades in the file format an LMS gradebook import accepts
+ */
+export interface LmsAdapter {
+  id: string;
+  name: string;
+  description: string;
+  fileExtension: string;
+  contentType: string;
+  identifier: string; // What the LMS matches students on, shown to teachers before they download
+  needsEmailDomain: boolean; // The LMS matches on email, so student numbers need a domain to become addresses
+
+  /**
+   * Build the import file
+   * @param grades Marks for every student with a graded paper
+   * @param context Assignment name, points possible and export options
+   * @returns The file and the students it had to leave out
+   */
+  buildFile(grades: LmsStudentGrade[], context: LmsExportContext): LmsExportFile;
+}
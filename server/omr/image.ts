@@ -0,0 +1,103 @@
+import jpeg from "jpeg-js";
+import { PNG } from "pngjs";
+
+// An 8-bit grayscale image, row-major
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Larger photos are box-downscaled to this size; bubbles stay well above a few pixels wide
+const MAX_DIMENSION = 1600;
+
+/**
+ * Decode a base64 JPEG or PNG into RGBA pixels
+ * @param base64Image Base64 encoded image data (a data URL prefix is tolerated)
+ * @returns Width, height and RGBA pixel data
+ */
+export function decodeImage(base64Image: string): { width: number; height: number; data: Uint8Array } {
+  const buffer = Buffer.from(base64Image.replace(/^data:[^;]+;base64,/, ""), "base64");
+  
+  // PNG files start with \x89PNG, JPEG files with \xFF\xD8
+  if (buffer[0] === 0x89 && buffer[1] === 0x50) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    const decoded = jpeg.decode(buffer, { useTArray: true, maxMemoryUsageInMB: 1024 });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  }
+  
+  throw new Error("Unsupported image format. Only JPEG and PNG images can be read.");
+}
+
+/**
+ * Convert RGBA pixels to grayscale, downscaling large images
+ * @param rgba Decoded RGBA image
+ * @returns Grayscale image no larger than MAX_DIMENSION on either side
+ */
+export function toGrayscale(rgba: { width: number; height: number; data: Uint8Array }): GrayImage {
+  const scale = Math.max(1, Math.ceil(Math.max(rgba.width, rgba.height) / MAX_DIMENSION));
+  const width = Math.floor(rgba.width / scale);
+  const height = Math.floor(rgba.height / scale);
+  const data = new Uint8Array(width * height);
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Average the scale x scale block of source pixels
+      let sum = 0;
+      for (let dy = 0; dy < scale; dy++) {
+        for (let dx = 0; dx < scale; dx++) {
+          const i = ((y * scale + dy) * rgba.width + (x * scale + dx)) * 4;
+          sum += 0.299 * rgba.data[i] + 0.587 * rgba.data[i + 1] + 0.114 * rgba.data[i + 2];
+        }
+      }
+      data[y * width + x] = Math.round(sum / (scale * scale));
+    }
+  }
+  
+  return { width, height, data };
+}
+
+/**
+ * Pick a global ink/paper threshold with Otsu's method
+ * @param image Grayscale image
+ * @returns Gray level at or below which a pixel counts as ink
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) {
+    histogram[image.data[i]]++;
+  }
+  
+  const total = image.data.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) {
+    sumAll += level * histogram[level];
+  }
+  
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+  
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  
+  return threshold;
+}
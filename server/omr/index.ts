@@ -0,0 +1,519 @@
+import jsQR from "jsqr";
+import { decodeImage, toGrayscale, otsuThreshold, GrayImage } from "./image";
+import {
+  Point,
+  SheetLayout,
+  REGISTRATION_MARKS_MM,
+  REGISTRATION_MARK_SIZE_MM,
+  BUBBLE_RADIUS_MM,
+  PAGE_WIDTH_MM,
+  QR_CODE_MM,
+  getStudentIdLayout,
+} from "./layout";
+import { SheetCode, decodeSheetCode } from "./sheet-code";
+
+export * from "./layout";
+export * from "./sheet-code";
+
+// How a single question was read
+export type BubbleStatus = "marked" | "blank" | "multiple";
+
+export interface QuestionReading {
+  questionNumber: number;
+  answer: string; // Marked option letter(s); empty when blank
+  status: BubbleStatus;
+  confidence: number;
+  fill: Record<string, number>; // Ink density (0-1) sampled inside each bubble
+}
+
+export interface SheetReading {
+  answers: Record<string, string>;
+  confidence: number;
+  questions: QuestionReading[];
+}
+
+// What a page says about where it belongs, read from its QR code and student-ID grid
+export interface SheetIdentity {
+  code: SheetCode | null;
+  studentNumber: string | null; // Digits bubbled in the student-ID grid, if readable
+}
+
+export interface OmrOptions {
+  fillThreshold?: number; // Minimum ink density for a bubble to count as filled
+}
+
+const DEFAULT_FILL_THRESHOLD = 0.45;
+
+// Only the centre of each bubble is sampled so the printed outline doesn't count as ink
+const SAMPLE_RADIUS_RATIO = 0.55;
+
+// Fraction of each side searched for the registration mark in that corner
+const CORNER_SEARCH_RATIO = 0.3;
+
+// White margin kept around the QR code when it is cut out of the page, so its finder patterns stand clear
+const QR_QUIET_ZONE_MM = 5;
+
+// jsQR misses codes whose modules are much larger than it expects, so it's retried on smaller copies
+const QR_DECODE_SCALES = [1, 0.75, 0.5];
+
+// A 3x3 projective transform from sheet millimetres to image pixels
+type Homography = number[];
+
+// A photo registered against the printed sheet
+interface AlignedSheet {
+  image: GrayImage;
+  threshold: number;
+  homography: Homography;
+}
+
+/**
+ * Find the centre of the registration mark in one corner of the image
+ * @param image Grayscale image
+ * @param threshold Ink threshold
+ * @param corner Which corner to search
+ * @returns Centre of the mark in pixels, or null if none was found
+ */
+function findRegistrationMark(
+  image: GrayImage,
+  threshold: number,
+  corner: keyof typeof REGISTRATION_MARKS_MM
+): Point | null {
+  const regionWidth = Math.floor(image.width * CORNER_SEARCH_RATIO);
+  const regionHeight = Math.floor(image.height * CORNER_SEARCH_RATIO);
+  const offsetX = corner.endsWith("Right") ? image.width - regionWidth : 0;
+  const offsetY = corner.startsWith("bottom") ? image.height - regionHeight : 0;
+  
+  // Expected mark size, assuming the page fills somewhere between a third and all of the photo
+  const pixelsPerMm = image.width / PAGE_WIDTH_MM;
+  const maxSide = REGISTRATION_MARK_SIZE_MM * pixelsPerMm * 1.5;
+  const minSide = Math.max(4, REGISTRATION_MARK_SIZE_MM * pixelsPerMm * 0.3);
+  
+  const visited = new Uint8Array(regionWidth * regionHeight);
+  const stack = new Int32Array(regionWidth * regionHeight);
+  let best: { center: Point; area: number } | null = null;
+  
+  for (let start = 0; start < visited.length; start++) {
+    if (visited[start]) continue;
+    const startX = start % regionWidth;
+    const startY = Math.floor(start / regionWidth);
+    if (image.data[(startY + offsetY) * image.width + startX + offsetX] > threshold) continue;
+    
+    // Flood-fill this connected blob of ink
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let area = 0, sumX = 0, sumY = 0;
+    let minX = startX, maxX = startX, minY = startY, maxY = startY;
+    let touchesEdge = false;
+    
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % regionWidth;
+      const y = Math.floor(index / regionWidth);
+      area++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      if (x === 0 || y === 0 || x === regionWidth - 1 || y === regionHeight - 1) touchesEdge = true;
+      
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < regionWidth - 1 ? index + 1 : -1,
+        y > 0 ? index - regionWidth : -1,
+        y < regionHeight - 1 ? index + regionWidth : -1,
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || visited[next]) continue;
+        const nx = next % regionWidth;
+        const ny = Math.floor(next / regionWidth);
+        if (image.data[(ny + offsetY) * image.width + nx + offsetX] <= threshold) {
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+    
+    // A registration mark is a solid, roughly square blob of plausible size
+    const blobWidth = maxX - minX + 1;
+    const blobHeight = maxY - minY + 1;
+    const squareness = Math.min(blobWidth, blobHeight) / Math.max(blobWidth, blobHeight);
+    const solidity = area / (blobWidth * blobHeight);
+    const side = Math.max(blobWidth, blobHeight);
+    
+    if (
+      !touchesEdge &&
+      squareness > 0.6 &&
+      solidity > 0.7 &&
+      side >= minSide &&
+      side <= maxSide &&
+      (!best || area > best.area)
+    ) {
+      best = { center: { x: sumX / area + offsetX, y: sumY / area + offsetY }, area };
+    }
+  }
+  
+  return best?.center ?? null;
+}
+
+/**
+ * Solve for the homography mapping four sheet points onto four image points
+ * @param from Points in sheet millimetres
+ * @param to Matching points in image pixels
+ * @returns The 3x3 transform, row-major
+ */
+function solveHomography(from: Point[], to: Point[]): Homography {
+  // Build the 8x8 system (with h33 fixed to 1) and solve by Gaussian elimination
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: X, y: Y } = from[i];
+    const { x, y } = to[i];
+    rows.push([X, Y, 1, 0, 0, 0, -X * x, -Y * x, x]);
+    rows.push([0, 0, 0, X, Y, 1, -X * y, -Y * y, y]);
+  }
+  
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error("Registration marks are degenerate; cannot align the sheet");
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) {
+        rows[row][k] -= factor * rows[col][k];
+      }
+    }
+  }
+  
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+/**
+ * Map a point from sheet millimetres into image pixels
+ * @param h Homography
+ * @param point Point in millimetres
+ * @returns Point in pixels
+ */
+function project(h: Homography, point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+}
+
+/**
+ * Measure how much of a bubble's centre is covered with ink
+ * @param image Grayscale image
+ * @param threshold Ink threshold
+ * @param center Bubble centre in pixels
+ * @param radius Sampling radius in pixels
+ * @returns Fraction (0-1) of sampled pixels that are ink
+ */
+function sampleFill(image: GrayImage, threshold: number, center: Point, radius: number): number {
+  let ink = 0;
+  let total = 0;
+  const r = Math.max(1, radius);
+  
+  for (let y = Math.floor(center.y - r); y <= Math.ceil(center.y + r); y++) {
+    for (let x = Math.floor(center.x - r); x <= Math.ceil(center.x + r); x++) {
+      if (x < 0 || y < 0 || x >= image.width || y >= image.height) continue;
+      if ((x - center.x) ** 2 + (y - center.y) ** 2 > r * r) continue;
+      total++;
+      if (image.data[y * image.width + x] <= threshold) ink++;
+    }
+  }
+  
+  return total > 0 ? ink / total : 0;
+}
+
+/**
+ * Turn a distance from the fill threshold into a 0-1 confidence
+ * @param margin How far the decision sits from the threshold (in fill units)
+ * @returns Confidence score
+ */
+function marginToConfidence(margin: number): number {
+  return Math.min(1, Math.max(0, 0.5 + margin / 0.5));
+}
+
+/**
+ * Register a photo against the printed sheet using the four corner marks
+ * @param rgba Decoded RGBA image
+ * @returns The grayscale image, its ink threshold and the sheet-to-image transform
+ */
+function alignSheet(rgba: { width: number; height: number; data: Uint8Array }): AlignedSheet {
+  const image = toGrayscale(rgba);
+  const threshold = otsuThreshold(image);
+  
+  const corners = Object.keys(REGISTRATION_MARKS_MM) as Array<keyof typeof REGISTRATION_MARKS_MM>;
+  const found = corners.map(corner => findRegistrationMark(image, threshold, corner));
+  const missing = corners.filter((_, i) => !found[i]);
+  if (missing.length > 0) {
+    throw new Error(`Could not find registration marks (${missing.join(", ")}). Make sure all four corner squares are visible.`);
+  }
+  
+  const homography = solveHomography(
+    corners.map(corner => REGISTRATION_MARKS_MM[corner]),
+    found as Point[]
+  );
+  
+  return { image, threshold, homography };
+}
+
+/**
+ * Measure the ink inside one printed bubble
+ * @param sheet Aligned sheet
+ * @param bubble Bubble centre in sheet millimetres
+ * @returns Fraction (0-1) of the bubble's centre covered with ink
+ */
+function sampleBubble(sheet: AlignedSheet, bubble: Point): number {
+  const center = project(sheet.homography, bubble);
+  const edge = project(sheet.homography, { x: bubble.x + BUBBLE_RADIUS_MM, y: bubble.y });
+  const radius = Math.hypot(edge.x - center.x, edge.y - center.y) * SAMPLE_RADIUS_RATIO;
+  return sampleFill(sheet.image, sheet.threshold, center, radius);
+}
+
+/**
+ * Pick the fill level above which a bubble counts as marked
+ * @param fills Every fill measured on the page
+ * @param minimum Configured lower bound
+ * @returns Fill threshold
+ */
+function pickFillThreshold(fills: number[], minimum: number): number {
+  // Most bubbles on a sheet are empty, so the median fill tells us how much ink an empty bubble picks up
+  const sorted = [...fills].sort((a, b) => a - b);
+  const emptyBaseline = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+  return Math.max(minimum, emptyBaseline + 0.25);
+}
+
+/**
+ * Read a photographed or scanned bubble answer sheet
+ * @param base64Image Base64 encoded JPEG or PNG
+ * @param layout Layout of the sheet page in the image
+ * @param options Reading options
+ * @returns Answers per question, with per-question confidence and blank/multi-mark status
+ */
+export function readAnswerSheet(base64Image: string, layout: SheetLayout, options: OmrOptions = {}): SheetReading {
+  const sheet = alignSheet(decodeImage(base64Image));
+  
+  // Sample every bubble on the page
+  const fills = layout.questions.map(question => {
+    const fill: Record<string, number> = {};
+    for (const bubble of question.bubbles) {
+      fill[bubble.option] = sampleBubble(sheet, bubble);
+    }
+    return fill;
+  });
+  
+  const fillThreshold = pickFillThreshold(
+    fills.flatMap(fill => Object.values(fill)),
+    options.fillThreshold ?? DEFAULT_FILL_THRESHOLD
+  );
+
+  const questions: QuestionReading[] = layout.questions.map((question, index) => {
+    const fill = fills[index];
+    const marked = layout.options.filter(option => fill[option] >= fillThreshold);
+    const unmarked = layout.options.filter(option => fill[option] < fillThreshold);
+    
+    // Confidence is how clearly every bubble sits on its side of the threshold
+    const margin = Math.min(
+      ...marked.map(option => fill[option] - fillThreshold),
+      ...unmarked.map(option => fillThreshold - fill[option])
+    );
+    
+    return {
+      questionNumber: question.questionNumber,
+      answer: marked.join(""),
+      status: marked.length === 0 ? "blank" : marked.length > 1 ? "multiple" : "marked",
+      confidence: marginToConfidence(margin),
+      fill
+    };
+  });
+  
+  const answers: Record<string, string> = {};
+  for (const question of questions) {
+    if (question.status !== "blank") {
+      answers[question.questionNumber.toString()] = question.answer;
+    }
+  }
+  
+  const confidence = questions.length > 0
+    ? questions.reduce((sum, question) => sum + question.confidence, 0) / questions.length
+    : 0;
+  
+  return { answers, confidence, questions };
+}
+
+/**
+ * Read the digits bubbled in the student-ID grid
+ * @param sheet Aligned sheet
+ * @returns The student number, or null unless every used column has exactly one digit marked
+ */
+function readStudentNumber(sheet: AlignedSheet): string | null {
+  const columns = getStudentIdLayout().map(column =>
+    column.bubbles.map(bubble => ({ digit: bubble.digit, fill: sampleBubble(sheet, bubble) }))
+  );
+  const fillThreshold = pickFillThreshold(
+    columns.flatMap(column => column.map(bubble => bubble.fill)),
+    DEFAULT_FILL_THRESHOLD
+  );
+  
+  // Numbers shorter than the grid are bubbled from the left, leaving the trailing columns empty
+  let digits = "";
+  let ended = false;
+  for (const column of columns) {
+    const marked = column.filter(bubble => bubble.fill >= fillThreshold);
+    if (marked.length === 0) {
+      ended = true;
+      continue;
+    }
+    if (marked.length > 1 || ended) {
+      return null;
+    }
+    digits += marked[0].digit;
+  }
+  
+  return digits || null;
+}
+
+/**
+ * Resize a grayscale image by averaging the source pixels each output pixel covers
+ * @param image Grayscale image
+ * @param scale Factor to shrink by (at most 1)
+ * @returns The smaller image
+ */
+function shrinkGray(image: GrayImage, scale: number): GrayImage {
+  if (scale >= 1) {
+    return image;
+  }
+  const width = Math.max(1, Math.floor(image.width * scale));
+  const height = Math.max(1, Math.floor(image.height * scale));
+  const data = new Uint8Array(width * height);
+  
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y / scale);
+    const bottom = Math.min(image.height, Math.max(top + 1, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x / scale);
+      const right = Math.min(image.width, Math.max(left + 1, Math.floor((x + 1) / scale)));
+      let sum = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          sum += image.data[sy * image.width + sx];
+        }
+      }
+      data[y * width + x] = Math.round(sum / ((bottom - top) * (right - left)));
+    }
+  }
+  
+  return { width, height, data };
+}
+
+/**
+ * Cut a rectangle out of a grayscale image
+ * @param image Grayscale image
+ * @param left Left edge in pixels
+ * @param top Top edge in pixels
+ * @param right Right edge in pixels
+ * @param bottom Bottom edge in pixels
+ * @returns The part of the rectangle inside the image
+ */
+function cropGray(image: GrayImage, left: number, top: number, right: number, bottom: number): GrayImage {
+  const x0 = Math.max(0, Math.floor(left));
+  const y0 = Math.max(0, Math.floor(top));
+  const width = Math.max(0, Math.min(image.width, Math.ceil(right)) - x0);
+  const height = Math.max(0, Math.min(image.height, Math.ceil(bottom)) - y0);
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    data.set(image.data.subarray((y0 + y) * image.width + x0, (y0 + y) * image.width + x0 + width), y * width);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Look for one of our QR codes in a grayscale image, trying smaller copies if it can't be read
+ * @param image Grayscale image, ideally just the code and its margin
+ * @returns The decoded sheet code, or null if none could be read
+ */
+function decodeQrCode(image: GrayImage): SheetCode | null {
+  for (const scale of QR_DECODE_SCALES) {
+    const scaled = shrinkGray(image, scale);
+    if (scaled.width < 21 || scaled.height < 21) {
+      break;
+    }
+    
+    const rgba = new Uint8ClampedArray(scaled.width * scaled.height * 4);
+    for (let i = 0; i < scaled.data.length; i++) {
+      rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = scaled.data[i];
+      rgba[i * 4 + 3] = 255;
+    }
+    const qr = jsQR(rgba, scaled.width, scaled.height);
+    const code = qr ? decodeSheetCode(qr.data) : null;
+    if (code) {
+      return code;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the QR code printed on a sheet
+ * On an aligned sheet only the code's printed area is decoded, so the registration marks and bubbles
+ * can't be mistaken for its finder patterns; otherwise the whole image is searched.
+ * @param image Grayscale page image
+ * @param sheet The page aligned against the printed sheet, or null if its corner marks weren't found
+ * @returns The decoded sheet code, or null if none could be read
+ */
+function readSheetCode(image: GrayImage, sheet: AlignedSheet | null): SheetCode | null {
+  if (sheet) {
+    const corners = [
+      { x: QR_CODE_MM.x - QR_QUIET_ZONE_MM, y: QR_CODE_MM.y - QR_QUIET_ZONE_MM },
+      { x: QR_CODE_MM.x + QR_CODE_MM.size + QR_QUIET_ZONE_MM, y: QR_CODE_MM.y - QR_QUIET_ZONE_MM },
+      { x: QR_CODE_MM.x - QR_QUIET_ZONE_MM, y: QR_CODE_MM.y + QR_CODE_MM.size + QR_QUIET_ZONE_MM },
+      { x: QR_CODE_MM.x + QR_CODE_MM.size + QR_QUIET_ZONE_MM, y: QR_CODE_MM.y + QR_CODE_MM.size + QR_QUIET_ZONE_MM },
+    ].map(corner => project(sheet.homography, corner));
+    
+    const code = decodeQrCode(cropGray(
+      image,
+      Math.min(...corners.map(corner => corner.x)),
+      Math.min(...corners.map(corner => corner.y)),
+      Math.max(...corners.map(corner => corner.x)),
+      Math.max(...corners.map(corner => corner.y))
+    ));
+    if (code) {
+      return code;
+    }
+  }
+  return decodeQrCode(image);
+}
+
+/**
+ * Work out which test, page and student a captured page belongs to
+ * @param base64Image Base64 encoded JPEG or PNG
+ * @returns The decoded sheet code and student number; either is null when unreadable
+ */
+export function identifySheet(base64Image: string): SheetIdentity {
+  const rgba = decodeImage(base64Image);
+  
+  let sheet: AlignedSheet | null = null;
+  try {
+    sheet = alignSheet(rgba);
+  } catch (error) {
+    console.log("Sheet not aligned:", error instanceof Error ? error.message : String(error));
+  }
+  
+  const code = readSheetCode(sheet?.image ?? toGrayscale(rgba), sheet);
+  
+  // The student-ID grid is optional: sheets printed for a named student carry it in the code instead
+  const studentNumber = sheet ? readStudentNumber(sheet) : null;
+  
+  return { code, studentNumber };
+}
@@ -0,0 +1,172 @@
+import { MarkSchemeEntry } from "@shared/schema";
+import { parseAcceptedAnswers } from "@shared/answers";
+
+// Geometry of the printable answer sheet, in millimetres on an A4 page.
+// The OMR engine locates the registration marks and maps these positions into the photo.
+
+export const PAGE_WIDTH_MM = 210;
+export const PAGE_HEIGHT_MM = 297;
+
+// Filled squares printed near each corner, used to register the photo against the layout
+export const REGISTRATION_MARK_SIZE_MM = 8;
+export const REGISTRATION_MARKS_MM = {
+  topLeft: { x: 15, y: 15 },
+  topRight: { x: 195, y: 15 },
+  bottomLeft: { x: 15, y: 282 },
+  bottomRight: { x: 195, y: 282 },
+};
+
+export const BUBBLE_RADIUS_MM = 2.6;
+const BUBBLE_SPACING_MM = 7;
+const ROW_SPACING_MM = 7.5;
+const QUESTION_LABEL_WIDTH_MM = 10;
+const COLUMN_GAP_MM = 6;
+
+// The question grid sits below the header area, between the registration marks
+const GRID_LEFT_MM = 24;
+const GRID_RIGHT_MM = 186;
+const GRID_TOP_MM = 105;
+const GRID_BOTTOM_MM = 272;
+
+const DEFAULT_OPTIONS = ["A", "B", "C", "D"];
+const MAX_OPTION_LETTER = "H";
+
+// True/false questions print only the first two bubbles, labelled with these
+export const TRUE_FALSE_LABELS = ["T", "F"];
+
+// Header furniture above the question grid
+export const QR_CODE_MM = { x: 160, y: 26, size: 30 };
+export const STUDENT_ID_DIGITS = 8;
+const STUDENT_ID_LEFT_MM = 30;
+const STUDENT_ID_TOP_MM = 46;
+const STUDENT_ID_COLUMN_SPACING_MM = 6.5;
+const STUDENT_ID_ROW_SPACING_MM = 5.3;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface BubblePosition extends Point {
+  option: string;
+}
+
+export interface QuestionLayout {
+  questionNumber: number;
+  label: Point; // Where the question number is printed
+  bubbles: BubblePosition[];
+}
+
+export interface StudentIdColumn {
+  position: number; // 0-based digit position, left to right
+  writeBox: Point; // Centre of the box where the digit is handwritten
+  bubbles: Array<Point & { digit: string }>;
+}
+
+export interface SheetLayout {
+  page: number;
+  pageCount: number;
+  options: string[];
+  questions: QuestionLayout[];
+}
+
+/**
+ * Work out which answer options a sheet needs from the mark scheme
+ * @param markScheme Mark scheme entries for the test
+ * @returns Option letters, at least A-D and up to the highest letter used in the key
+ */
+export function getSheetOptions(
+  markScheme: (Pick<MarkSchemeEntry, "expectedAnswer"> & Partial<Pick<MarkSchemeEntry, "questionType">>)[]
+): string[] {
+  let highest = DEFAULT_OPTIONS[DEFAULT_OPTIONS.length - 1];
+  
+  for (const entry of markScheme) {
+    // Only choice questions have lettered options to bubble
+    if (entry.questionType && entry.questionType !== "single_choice" && entry.questionType !== "multi_select") {
+      continue;
+    }
+    
+    const letters = parseAcceptedAnswers(entry.expectedAnswer).join("").toUpperCase().match(/[A-Z]/g) ?? [];
+    for (const letter of letters) {
+      if (letter > highest && letter <= MAX_OPTION_LETTER) {
+        highest = letter;
+      }
+    }
+  }
+  
+  const options: string[] = [];
+  for (let code = "A".charCodeAt(0); code <= highest.charCodeAt(0); code++) {
+    options.push(String.fromCharCode(code));
+  }
+  return options;
+}
+
+/**
+ * Get how many questions fit on one sheet page
+ * @param optionCount Number of options per question
+ * @returns Questions per page
+ */
+export function getQuestionsPerPage(optionCount: number): number {
+  const columnWidth = QUESTION_LABEL_WIDTH_MM + optionCount * BUBBLE_SPACING_MM + COLUMN_GAP_MM;
+  const columns = Math.max(1, Math.floor((GRID_RIGHT_MM - GRID_LEFT_MM + COLUMN_GAP_MM) / columnWidth));
+  const rows = Math.floor((GRID_BOTTOM_MM - GRID_TOP_MM) / ROW_SPACING_MM) + 1;
+  return columns * rows;
+}
+
+/**
+ * Lay out the bubbles for one page of an answer sheet
+ * @param totalQuestions Number of questions on the test
+ * @param options Option letters for every question
+ * @param page 1-based sheet page number
+ * @returns Positions of every question and bubble on that page
+ */
+export function getSheetLayout(totalQuestions: number, options: string[], page = 1): SheetLayout {
+  const columnWidth = QUESTION_LABEL_WIDTH_MM + options.length * BUBBLE_SPACING_MM + COLUMN_GAP_MM;
+  const rows = Math.floor((GRID_BOTTOM_MM - GRID_TOP_MM) / ROW_SPACING_MM) + 1;
+  const perPage = getQuestionsPerPage(options.length);
+  const pageCount = Math.max(1, Math.ceil(totalQuestions / perPage));
+  
+  const first = (page - 1) * perPage + 1;
+  const last = Math.min(totalQuestions, page * perPage);
+  
+  const questions: QuestionLayout[] = [];
+  for (let questionNumber = first; questionNumber <= last; questionNumber++) {
+    const index = questionNumber - first;
+    const column = Math.floor(index / rows);
+    const row = index % rows;
+    
+    const left = GRID_LEFT_MM + column * columnWidth;
+    const y = GRID_TOP_MM + row * ROW_SPACING_MM;
+    
+    questions.push({
+      questionNumber,
+      label: { x: left, y },
+      bubbles: options.map((option, optionIndex) => ({
+        option,
+        x: left + QUESTION_LABEL_WIDTH_MM + optionIndex * BUBBLE_SPACING_MM,
+        y
+      }))
+    });
+  }
+  
+  return { page, pageCount, options, questions };
+}
+
+/**
+ * Lay out the student-ID bubble grid: one column per digit, bubbles 0-9 in each
+ * @returns Positions of every digit column and bubble
+ */
+export function getStudentIdLayout(): StudentIdColumn[] {
+  return Array.from({ length: STUDENT_ID_DIGITS }, (_, position) => {
+    const x = STUDENT_ID_LEFT_MM + position * STUDENT_ID_COLUMN_SPACING_MM;
+    return {
+      position,
+      writeBox: { x, y: STUDENT_ID_TOP_MM - STUDENT_ID_ROW_SPACING_MM - 1 },
+      bubbles: Array.from({ length: 10 }, (_, digit) => ({
+        digit: digit.toString(),
+        x,
+        y: STUDENT_ID_TOP_MM + digit * STUDENT_ID_ROW_SPACING_MM
+      }))
+    };
+  });
+}
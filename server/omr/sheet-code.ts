@@ -0,0 +1,46 @@
+// The payload printed in each answer sheet's QR code, e.g. "IM1;t=12;p=2;s=34"
+const SHEET_CODE_PREFIX = "IM1";
+
+export interface SheetCode {
+  testId: number;
+  page: number;
+  studentId?: number; // Only on sheets printed for a specific student
+}
+
+/**
+ * Encode the identity of an answer sheet page for its QR code
+ * @param code Test, page and optional student
+ * @returns Compact text payload
+ */
+export function encodeSheetCode(code: SheetCode): string {
+  const parts = [SHEET_CODE_PREFIX, `t=${code.testId}`, `p=${code.page}`];
+  if (code.studentId) {
+    parts.push(`s=${code.studentId}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Decode a QR payload produced by encodeSheetCode
+ * @param text Decoded QR text
+ * @returns The sheet identity, or null if the text isn't one of our codes
+ */
+export function decodeSheetCode(text: string): SheetCode | null {
+  const [prefix, ...parts] = text.trim().split(";");
+  if (prefix !== SHEET_CODE_PREFIX) {
+    return null;
+  }
+  
+  const fields = Object.fromEntries(
+    parts.map(part => part.split("=") as [string, string])
+  );
+  const testId = parseInt(fields.t);
+  const page = parseInt(fields.p);
+  const studentId = fields.s ? parseInt(fields.s) : undefined;
+  
+  if (!Number.isInteger(testId) || !Number.isInteger(page) || testId <= 0 || page <= 0) {
+    return null;
+  }
+  
+  return { testId, page, studentId: studentId && studentId > 0 ? studentId : undefined };
+}
@@ -1,30 +1,65 @@
 import OpenAI from "openai";
-import { Settings } from "@shared/schema";
+import { MarkSchemeEntry, QuestionType, Settings } from "@shared/schema";
+import type { AnswerExtractionResponse, WrittenAnswerGrade, WrittenAnswerRequest } from "./recognition/types";
 
-// Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Created on first use so the server can start without an OpenAI API key
+let openaiClient: OpenAI | null = null;
 
-// Define the response format for answer extraction
-interface AnswerExtractionResponse {
-  answers: Record<string, string>; // key: question number, value: answer (A, B, C, D, etc.)
-  confidence: number;
+/**
+ * Get the shared OpenAI client, creating it on first use
+ * @returns The OpenAI client
+ */
+function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openaiClient;
 }
 
+// How the model should write each kind of answer
+const ANSWER_FORMATS: Record<QuestionType, string> = {
+  single_choice: 'the one option letter marked, e.g. "B"',
+  multi_select: 'every option letter marked, in alphabetical order, e.g. "ACD"',
+  true_false: '"T" for true or "F" for false',
+  numeric: 'the number written, digits only, e.g. "3.5" or "-12"',
+  short_text: "the words written, transcribed exactly as the student wrote them",
+  written: "the full written response, transcribed word for word as the student wrote it",
+};
+
 /**
- * Process an image to extract multiple-choice answers
+ * Describe the questions on a test so the model knows what kind of answer to read for each
+ * @param markScheme Mark scheme entries for the test
+ * @returns One line per question, or an empty string when there is no mark scheme
+ */
+function describeQuestions(markScheme: MarkSchemeEntry[]): string {
+  return markScheme
+    .slice()
+    .sort((a, b) => a.questionNumber - b.questionNumber)
+    .map(entry => `Question ${entry.questionNumber}: ${ANSWER_FORMATS[entry.questionType] ?? ANSWER_FORMATS.single_choice}`)
+    .join("\n");
+}
+
+/**
+ * Process an image to extract the student's answers
  * @param base64Image Base64 encoded image data
  * @param settings Recognition settings
+ * @param markScheme Mark scheme entries, used to tell the model each question's type
  * @returns The extracted answers and confidence score
  */
 export async function extractAnswersFromImage(
   base64Image: string,
-  settings: Settings
+  settings: Settings,
+  markScheme: MarkSchemeEntry[] = []
 ): Promise<AnswerExtractionResponse> {
   try {
+    const questionList = describeQuestions(markScheme);
+    
     // Setup system prompt with custom instructions if available
     const systemContent = `
-      You are an expert at recognizing multiple-choice test answers from images.
-      Analyze the provided image and extract all visible multiple-choice answers.
+      You are an expert at reading students' test answers from images.
+      ${questionList
+        ? `Analyze the provided image and extract the answer to each of these questions, written as described:\n${questionList}`
+        : 'Analyze the provided image and extract all visible multiple-choice answers.'}
       ${settings.answerRecognitionInstructions 
         ? `Special instructions for recognition: ${settings.answerRecognitionInstructions}` 
         : ''}
@@ -38,7 +73,7 @@ export async function extractAnswersFromImage(
     const model = settings.enhancedRecognition ? "gpt-4o" : "gpt-4o";
     // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
 
-    const response = await openai.chat.completions.create({
+    const response = await getOpenAIClient().chat.completions.create({
       model,
       temperature: settings.temperature ?? 0.7,
       top_p: settings.topP ?? 1,
@@ -52,7 +87,9 @@ export async function extractAnswersFromImage(
           content: [
             {
               type: "text",
-              text: "Extract all multiple-choice answers from this test sheet. Return ONLY the question numbers and corresponding selected answers in JSON format."
+              text: questionList
+                ? "Extract the student's answers from this test sheet. Return ONLY the question numbers and corresponding answers in JSON format."
+                : "Extract all multiple-choice answers from this test sheet. Return ONLY the question numbers and corresponding selected answers in JSON format."
             },
             {
               type: "image_url",
@@ -86,3 +123,77 @@ export async function extractAnswersFromImage(
     throw new Error(`Failed to extract answers from image: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
+
+/**
+ * Score a transcribed written answer against its rubric with the OpenAI model
+ * @param request The transcribed answer, model answer and rubric
+ * @param settings Recognition settings
+ * @returns Points awarded per criterion and a justification
+ */
+export async function gradeWrittenAnswerWithOpenAI(
+  request: WrittenAnswerRequest,
+  settings: Settings
+): Promise<WrittenAnswerGrade> {
+  try {
+    const rubric = request.rubric.length > 0
+      ? request.rubric.map((criterion, index) => `${index + 1}. ${criterion.description} (${criterion.points} points)`).join("\n")
+      : `Judge the answer against the model answer as a whole, out of ${request.points} points.`;
+    
+    const systemContent = `
+      You are an experienced teacher marking a student's written answer against a rubric.
+      Be fair and consistent: award a criterion's points only when the answer clearly meets it,
+      and award part of them when it is partly met. Ignore spelling and grammar unless a criterion is about them.
+      Return JSON as {"criteria": [{"criterion": 1, "pointsAwarded": 1}], "pointsAwarded": 2, "rationale": "..."}.
+      "rationale" is one or two sentences a student could read explaining the score.
+    `;
+    
+    const response = await getOpenAIClient().chat.completions.create({
+      model: "gpt-4o",
+      temperature: 0,
+      messages: [
+        {
+          role: "system",
+          content: systemContent
+        },
+        {
+          role: "user",
+          content: `Question ${request.questionNumber}, worth ${request.points} points.\n\nModel answer:\n${request.modelAnswer}\n\nRubric:\n${rubric}\n\nStudent's answer:\n${request.answer}`
+        }
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 800,
+    });
+    
+    const responseContent = response.choices[0].message.content;
+    if (!responseContent) {
+      throw new Error("Empty response from OpenAI");
+    }
+    
+    const parsed = JSON.parse(responseContent) as {
+      criteria?: Array<{ criterion: number; pointsAwarded: number }>;
+      pointsAwarded?: number;
+      rationale?: string;
+    };
+    
+    // Keep each criterion within its own points rather than trusting the model's arithmetic
+    const criteria = request.rubric.map((criterion, index) => {
+      const scored = parsed.criteria?.find(item => item.criterion === index + 1);
+      return {
+        ...criterion,
+        pointsAwarded: Math.min(criterion.points, Math.max(0, Number(scored?.pointsAwarded) || 0))
+      };
+    });
+    const pointsAwarded = criteria.length > 0
+      ? criteria.reduce((sum, criterion) => sum + criterion.pointsAwarded, 0)
+      : Math.min(request.points, Math.max(0, Number(parsed.pointsAwarded) || 0));
+    
+    return {
+      pointsAwarded,
+      rationale: parsed.rationale ?? "",
+      criteria
+    };
+  } catch (error) {
+    console.error("Error grading written answer with OpenAI:", error);
+    throw new Error(`Failed to grade written answer: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,41 @@
+import { Page, ReviewItem, Settings } from "@shared/schema";
+import { storage } from "./storage";
+import { AnswerExtractionResponse, RecognitionProvider } from "./recognition";
+import { recordReviewItems } from "./review";
+
+// A processed page together with what the provider read from it
+export interface PageProcessingResult {
+  page: Page;
+  extraction: AnswerExtractionResponse;
+  reviewItems: ReviewItem[]; // Parts of the extraction flagged for a person to check
+}
+
+/**
+ * Extract the answers from a captured page and store them against it
+ * @param page Page to process
+ * @param provider Recognition provider to read the page with
+ * @param settings Current settings, passed through to the provider
+ * @returns The updated page, the provider's full response and any review flags
+ */
+export async function processPage(
+  page: Page,
+  provider: RecognitionProvider,
+  settings: Settings
+): Promise<PageProcessingResult> {
+  const imageData = page.imageData.replace(/^data:image\/[a-z]+;base64,/, "");
+  const markScheme = await storage.getMarkScheme(page.testId);
+  const extraction = await provider.extractAnswers(imageData, {
+    settings,
+    page,
+    test: await storage.getTest(page.testId),
+    markScheme
+  });
+  
+  console.log(`Extraction result for page ${page.id}:`, extraction);
+  
+  // Update the page with extracted answers
+  const updatedPage = await storage.updatePageProcessed(page.id, true, extraction.answers);
+  const reviewItems = await recordReviewItems(updatedPage, extraction, settings, markScheme);
+  
+  return { page: updatedPage, extraction, reviewItems };
+}
@@ -0,0 +1,121 @@
+import { Page, PageUpload, Student, Submission, TriagePage } from "@shared/schema";
+import { storage } from "./storage";
+import { identifySheet, SheetIdentity } from "./omr";
+
+// Where an uploaded page ended up
+export type PageRoutingOutcome =
+  | { status: "routed"; page: Page; submission: Submission | null }
+  | { status: "triaged"; triagePage: TriagePage };
+
+/**
+ * Read a page's QR code and student-ID grid, treating an undecodable image as unidentified
+ * @param imageData Base64 encoded image
+ * @returns What could be read from the page
+ */
+function readIdentity(imageData: string): SheetIdentity {
+  try {
+    return identifySheet(imageData);
+  } catch (error) {
+    console.log("Could not read page identity:", error instanceof Error ? error.message : String(error));
+    return { code: null, studentNumber: null };
+  }
+}
+
+/**
+ * Find the paper a routed page belongs to, creating one for the student if needed
+ * @param testId Test read from the QR code
+ * @param student Student identified on the page, if any
+ * @param requestedSubmissionId Paper the client was capturing into, if any
+ * @returns The submission, or undefined if the page can't be tied to a paper
+ */
+async function resolveSubmission(
+  testId: number,
+  student: Student | undefined,
+  requestedSubmissionId: number | null | undefined
+): Promise<Submission | undefined> {
+  if (requestedSubmissionId) {
+    const requested = await storage.getSubmission(requestedSubmissionId);
+    
+    // Keep the page with the paper being captured unless the sheet says it's someone else's
+    if (requested && requested.testId === testId && (!student || !requested.studentId || requested.studentId === student.id)) {
+      if (student && !requested.studentId) {
+        return storage.assignSubmissionStudent(requested.id, student.id);
+      }
+      return requested;
+    }
+  }
+  
+  if (!student) {
+    return undefined;
+  }
+  
+  const existing = (await storage.getSubmissions(testId))
+    .find(submission => submission.studentId === student.id && submission.status === "pending");
+  if (existing) {
+    return existing;
+  }
+  
+  return storage.createSubmission({ testId, studentId: student.id, label: student.name });
+}
+
+/**
+ * Attach an uploaded page to its test, paper and page number
+ *
+ * A QR code printed by the answer-sheet generator wins over whatever the client sent.
+ * Without one, the client's explicit test and page number are used; pages with neither
+ * go to the triage queue for someone to assign by hand.
+ * @param upload The uploaded image and the client's own idea of where it belongs (already validated)
+ * @returns The stored page, or the triage entry it was queued as
+ */
+export async function routePage(upload: PageUpload): Promise<PageRoutingOutcome> {
+  const { imageData } = upload;
+  const { code, studentNumber } = readIdentity(imageData);
+  
+  const triage = async (reason: string, testId?: number, pageNumber?: number) => ({
+    status: "triaged" as const,
+    triagePage: await storage.addTriagePage({ imageData, reason, testId, pageNumber, studentNumber })
+  });
+  
+  if (code) {
+    const test = await storage.getTest(code.testId);
+    if (!test) {
+      return triage(`QR code refers to test ${code.testId}, which does not exist`, undefined, code.page);
+    }
+    
+    // Personalised sheets carry the student in the code; blank ones rely on the bubbled ID
+    const student = code.studentId
+      ? await storage.getStudent(code.studentId)
+      : studentNumber ? await storage.findStudentByNumber(studentNumber) : undefined;
+    
+    const submission = await resolveSubmission(test.id, student, upload.submissionId);
+    if (!submission) {
+      const reason = studentNumber
+        ? `No student with ID ${studentNumber} on any roster`
+        : "Student could not be identified from the sheet";
+      return triage(reason, test.id, code.page);
+    }
+    
+    console.log(`Routed page ${code.page} of test ${test.id} to submission ${submission.id} by QR code`);
+    const page = await storage.addPage({
+      imageData,
+      testId: test.id,
+      pageNumber: code.page,
+      submissionId: submission.id
+    });
+    return { status: "routed", page, submission };
+  }
+  
+  if (!upload.testId || !upload.pageNumber) {
+    return triage("No readable QR code on the page");
+  }
+  
+  // No code, but the client told us explicitly where the page goes
+  const submission = upload.submissionId ? (await storage.getSubmission(upload.submissionId)) ?? null : null;
+  const page = await storage.addPage({
+    imageData,
+    testId: upload.testId,
+    pageNumber: upload.pageNumber,
+    submissionId: submission?.id ?? null
+  });
+  return { status: "routed", page, submission };
+}
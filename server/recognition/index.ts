@@ -0,0 +1,58 @@
+import { Settings } from "@shared/schema";
+import { RecognitionProvider, ProviderAvailability } from "./types";
+import { openaiProvider } from "./openai";
+import { mockProvider } from "./mock";
+import { omrProvider } from "./omr";
+
+export * from "./types";
+
+// Registry of the answer-recognition providers the server knows about
+const providers = new Map<string, RecognitionProvider>();
+
+/**
+ * Register a recognition provider so it can be selected in Settings
+ * @param provider Provider to register (replaces any provider with the same ID)
+ */
+export function registerProvider(provider: RecognitionProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a provider by ID
+ * @param id Provider ID
+ * @returns The provider, or undefined if none is registered under that ID
+ */
+export function getProvider(id: string): RecognitionProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Describe every registered provider, including whether it can run here
+ * @returns Provider summaries suitable for the settings UI
+ */
+export function listProviders(): Array<{ id: string; name: string; description: string } & ProviderAvailability> {
+  return Array.from(providers.values()).map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    ...provider.checkAvailability()
+  }));
+}
+
+/**
+ * Resolve the provider selected in the settings
+ * @param settings Current settings
+ * @returns The selected provider
+ */
+export function getActiveProvider(settings: Settings): RecognitionProvider {
+  const id = settings.recognitionProvider || openaiProvider.id;
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown recognition provider "${id}"`);
+  }
+  return provider;
+}
+
+registerProvider(openaiProvider);
+registerProvider(omrProvider);
+registerProvider(mockProvider);
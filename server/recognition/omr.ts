@@ -0,0 +1,61 @@
+import { TRUE_FALSE_LABELS, getSheetLayout, getSheetOptions, readAnswerSheet } from "../omr";
+import { RecognitionProvider } from "./types";
+
+// Recognition with the local optical mark recognition engine, for printed bubble sheets
+export const omrProvider: RecognitionProvider = {
+  id: "omr",
+  name: "Bubble sheet (local OMR)",
+  description: "Reads printed bubble answer sheets on this server with image processing. No network or API key needed.",
+  
+  checkAvailability() {
+    return { available: true };
+  },
+  
+  async extractAnswers(base64Image, { page, test, markScheme }) {
+    // The sheet lays out questions 1..N, so size it from the highest question number
+    const totalQuestions = markScheme.length > 0
+      ? Math.max(...markScheme.map(entry => entry.questionNumber))
+      : test?.totalQuestions ?? 0;
+    
+    if (totalQuestions <= 0) {
+      throw new Error("The bubble sheet reader needs a mark scheme to know how many questions are on the sheet");
+    }
+    
+    const layout = getSheetLayout(totalQuestions, getSheetOptions(markScheme), page.pageNumber);
+    if (page.pageNumber > layout.pageCount) {
+      throw new Error(`Page ${page.pageNumber} is beyond the ${layout.pageCount}-page answer sheet for this test`);
+    }
+    
+    const reading = readAnswerSheet(base64Image, layout);
+    const answers = { ...reading.answers };
+    const questions = Object.fromEntries(
+      reading.questions.map(question => [
+        question.questionNumber.toString(),
+        { confidence: question.confidence, status: question.status }
+      ])
+    );
+    
+    for (const entry of markScheme) {
+      const key = entry.questionNumber.toString();
+      if (!(key in questions)) {
+        continue;
+      }
+      
+      if (entry.questionType === "true_false") {
+        // The first two bubbles stand for true and false
+        const index = ["A", "B"].indexOf(answers[key] ?? "");
+        answers[key] = index >= 0 ? TRUE_FALSE_LABELS[index] : answers[key];
+      } else if (entry.questionType === "numeric" || entry.questionType === "short_text" || entry.questionType === "written") {
+        // Written answers can't be read from bubbles, so leave them for a person to fill in
+        answers[key] = "";
+        questions[key] = { confidence: 0, status: "blank" };
+      }
+    }
+    
+    return {
+      answers,
+      confidence: reading.confidence,
+      questions
+    };
+  }
+};
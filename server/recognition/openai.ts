@@ -0,0 +1,27 @@
+import { extractAnswersFromImage, gradeWrittenAnswerWithOpenAI } from "../openai";
+import { RecognitionProvider } from "./types";
+
+// Recognition through the OpenAI vision model
+export const openaiProvider: RecognitionProvider = {
+  id: "openai",
+  name: "OpenAI GPT-4o",
+  description: "Reads answers with the GPT-4o vision model. Requires OPENAI_API_KEY and network access.",
+  
+  checkAvailability() {
+    if (!process.env.OPENAI_API_KEY) {
+      return { 
+        available: false, 
+        reason: "Missing OpenAI API key. Please provide an OPENAI_API_KEY in your environment variables." 
+      };
+    }
+    return { available: true };
+  },
+  
+  extractAnswers(base64Image, { settings, markScheme }) {
+    return extractAnswersFromImage(base64Image, settings, markScheme);
+  },
+  
+  gradeWrittenAnswer(request, settings) {
+    return gradeWrittenAnswerWithOpenAI(request, settings);
+  }
+};
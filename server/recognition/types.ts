@@ -0,0 +1,75 @@
+import { MarkSchemeEntry, Page, RubricCriterion, RubricCriterionScore, Settings, Test } from "@shared/schema";
+
+// How clearly a single question was read, for providers that can tell
+export interface QuestionRecognition {
+  confidence: number;
+  status: "marked" | "blank" | "multiple";
+}
+
+// Define the response format for answer extraction
+export interface AnswerExtractionResponse {
+  answers: Record<string, string>; // key: question number, value: answer as read (option letters, T/F, a number or text)
+  confidence: number;
+  questions?: Record<string, QuestionRecognition>; // key: question number
+}
+
+// Everything a provider may need to know about the page it is reading
+export interface RecognitionContext {
+  settings: Settings;
+  page: Page;
+  test?: Test;
+  markScheme: MarkSchemeEntry[];
+}
+
+// A transcribed written answer to score against its question's rubric
+export interface WrittenAnswerRequest {
+  questionNumber: number;
+  answer: string; // The student's answer as transcribed during extraction
+  modelAnswer: string;
+  rubric: RubricCriterion[]; // Empty when the question is marked against the model answer alone
+  points: number; // Most the answer can earn
+}
+
+// The score for a written answer and why it was given
+export interface WrittenAnswerGrade {
+  pointsAwarded: number;
+  rationale: string;
+  criteria: RubricCriterionScore[];
+}
+
+// Whether a provider can run in the current environment, and why not if it can't
+export interface ProviderAvailability {
+  available: boolean;
+  reason?: string;
+}
+
+/**
+ * A source of answer recognition (a hosted model, a local engine, a fixture set...)
+ */
+export interface RecognitionProvider {
+  id: string;
+  name: string;
+  description: string;
+  
+  /**
+   * Check whether the provider can be used right now
+   * @returns Availability and the reason when unavailable
+   */
+  checkAvailability(): ProviderAvailability;
+  
+  /**
+   * Extract the student's answers from a page image
+   * @param base64Image Base64 encoded image data (without the data URL prefix)
+   * @param context The page, its test and mark scheme, and recognition settings
+   * @returns The extracted answers and confidence score
+   */
+  extractAnswers(base64Image: string, context: RecognitionContext): Promise<AnswerExtractionResponse>;
+  
+  /**
+   * Score a written answer against its rubric (optional; the local rubric grader is used otherwise)
+   * @param request The transcribed answer, model answer and rubric
+   * @param settings Recognition settings
+   * @returns Points awarded, per-criterion scores and a justification
+   */
+  gradeWrittenAnswer?(request: WrittenAnswerRequest, settings: Settings): Promise<WrittenAnswerGrade>;
+}
@@ -0,0 +1,73 @@
+import { storage } from "./storage";
+import { gradeSubmission } from "./submission-grading";
+
+// How one submission's score moved when its test was re-graded
+export interface RegradeChange {
+  submissionId: number;
+  label: string;
+  studentName: string | null;
+  status: "graded" | "needs_review";
+  previousPoints: number;
+  newPoints: number | null; // Null while the submission waits for review
+  previousPercentage: number;
+  newPercentage: number | null;
+  previousVersion: number | null;
+  newVersion: number | null;
+}
+
+// The outcome of re-grading every graded submission of a test
+export interface RegradeReport {
+  testId: number;
+  version: number | null; // Mark scheme version the submissions were re-graded against
+  regraded: number;
+  changed: number;
+  heldForReview: number;
+  changes: RegradeChange[];
+}
+
+/**
+ * Re-grade every submission of a test that already has a result, against the current mark scheme
+ * Results are added rather than replaced, so the earlier scores stay on record
+ * @param testId Test to re-grade
+ * @returns Each submission's score before and after
+ */
+export async function regradeTest(testId: number): Promise<RegradeReport> {
+  const markScheme = await storage.getMarkScheme(testId);
+  const latest = await storage.getLatestMarkSchemeVersion(testId);
+  const changes: RegradeChange[] = [];
+
+  for (const submission of await storage.getSubmissions(testId)) {
+    const previous = await storage.getSubmissionResult(submission.id);
+    if (!previous) {
+      continue;
+    }
+
+    const student = submission.studentId ? await storage.getStudent(submission.studentId) : undefined;
+    const outcome = await gradeSubmission(submission, markScheme);
+    const result = outcome.status === "graded" ? outcome.result : null;
+
+    changes.push({
+      submissionId: submission.id,
+      label: submission.label,
+      studentName: student?.name ?? null,
+      status: outcome.status,
+      previousPoints: previous.pointsEarned,
+      newPoints: result?.pointsEarned ?? null,
+      previousPercentage: previous.scorePercentage,
+      newPercentage: result?.scorePercentage ?? null,
+      previousVersion: previous.markSchemeVersion,
+      newVersion: result?.markSchemeVersion ?? null
+    });
+  }
+
+  const report: RegradeReport = {
+    testId,
+    version: latest?.version ?? null,
+    regraded: changes.filter(change => change.status === "graded").length,
+    changed: changes.filter(change => change.newPoints !== null && change.newPoints !== change.previousPoints).length,
+    heldForReview: changes.filter(change => change.status === "needs_review").length,
+    changes
+  };
+  console.log(`Re-graded test ${testId}: ${report.regraded} graded, ${report.changed} changed, ${report.heldForReview} held for review`);
+  return report;
+}
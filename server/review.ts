@@ -0,0 +1,134 @@
+import { InsertReviewItem, MarkSchemeEntry, Page, ReviewItem, ReviewReason, Settings } from "@shared/schema";
+import { storage } from "./storage";
+import { normalizeAnswer } from "./grading";
+import { normalizeTrueFalse, parseAcceptedAnswers, parseNumber } from "@shared/answers";
+import { getSheetOptions } from "./omr";
+import { AnswerExtractionResponse } from "./recognition";
+
+/**
+ * Check whether a question is answered by marking lettered options
+ * @param entry Mark scheme entry, if the question is in the mark scheme
+ * @returns True for single-choice and multi-select questions
+ */
+function isChoiceQuestion(entry: MarkSchemeEntry | undefined): boolean {
+  return !entry || entry.questionType === "single_choice" || entry.questionType === "multi_select";
+}
+
+/**
+ * Work out the valid answers for the choice questions of a test
+ * @param markScheme Mark scheme entries for the test
+ * @returns Option letters, or null if the choice keys aren't purely letter answers
+ */
+function getAnswerOptions(markScheme: MarkSchemeEntry[]): string[] | null {
+  const expected = markScheme
+    .filter(isChoiceQuestion)
+    .flatMap(entry => parseAcceptedAnswers(entry.expectedAnswer).map(normalizeAnswer))
+    .filter(Boolean);
+  if (expected.length === 0 || !expected.every(answer => /^[A-Z]+$/.test(answer))) {
+    return null;
+  }
+  return getSheetOptions(markScheme);
+}
+
+/**
+ * Decide which parts of a page's extraction a person should check before grading
+ * @param page Page that was processed (must belong to a submission)
+ * @param extraction What the recognition provider read
+ * @param settings Current settings; confidenceThreshold is a percentage
+ * @param markScheme Mark scheme entries for the test
+ * @returns Review items to open, empty when the page can be trusted as-is
+ */
+export function flagExtraction(
+  page: Page,
+  extraction: AnswerExtractionResponse,
+  settings: Settings,
+  markScheme: MarkSchemeEntry[]
+): InsertReviewItem[] {
+  const submissionId = page.submissionId!;
+  const threshold = (settings.confidenceThreshold ?? 0) / 100;
+  const options = getAnswerOptions(markScheme);
+  const items: InsertReviewItem[] = [];
+  
+  if (extraction.confidence < threshold) {
+    items.push({
+      submissionId,
+      pageId: page.id,
+      questionNumber: null,
+      reason: "low_confidence",
+      confidence: extraction.confidence
+    });
+  }
+  
+  const questionNumbers = new Set([
+    ...Object.keys(extraction.answers),
+    ...Object.keys(extraction.questions ?? {})
+  ]);
+  
+  for (const key of Array.from(questionNumbers)) {
+    const entry = markScheme.find(item => item.questionNumber.toString() === key);
+    // Nothing hangs on a voided question's answer, so there is nothing to review
+    if ((markScheme.length > 0 && !entry) || entry?.voided) {
+      continue;
+    }
+    
+    const answer = normalizeAnswer(extraction.answers[key]);
+    const recognition = extraction.questions?.[key];
+    const isChoice = isChoiceQuestion(entry);
+    const expectsSeveral = entry?.questionType === "multi_select" || parseAcceptedAnswers(entry?.expectedAnswer)
+      .some(accepted => normalizeAnswer(accepted).length > 1);
+    
+    // Answers that can't be right for the question's type, whatever the key says
+    const invalidForType =
+      (isChoice && options !== null && !answer.split("").every(letter => options.includes(letter))) ||
+      (entry?.questionType === "true_false" && normalizeTrueFalse(answer) === null) ||
+      (entry?.questionType === "numeric" && parseNumber(answer) === null);
+    
+    let reason: ReviewReason | null = null;
+    if (recognition?.status === "blank" || answer === "") {
+      reason = "blank";
+    } else if (isChoice && !expectsSeveral && (recognition?.status === "multiple" || (options && answer.length > 1))) {
+      reason = "ambiguous";
+    } else if (invalidForType) {
+      reason = "invalid_option";
+    } else if (recognition && recognition.confidence < threshold) {
+      reason = "low_confidence";
+    }
+    
+    if (reason) {
+      items.push({
+        submissionId,
+        pageId: page.id,
+        questionNumber: parseInt(key),
+        reason,
+        extractedAnswer: extraction.answers[key] ?? "",
+        confidence: recognition?.confidence ?? null
+      });
+    }
+  }
+  
+  return items;
+}
+
+/**
+ * Replace a page's review items with the flags from its latest extraction
+ * Corrections made to an earlier extraction of the page no longer apply once it has been read again.
+ * @param page Page that was processed
+ * @param extraction What the recognition provider read
+ * @param settings Current settings
+ * @param markScheme Mark scheme entries for the test
+ * @returns The review items opened for the page
+ */
+export async function recordReviewItems(
+  page: Page,
+  extraction: AnswerExtractionResponse,
+  settings: Settings,
+  markScheme: MarkSchemeEntry[]
+): Promise<ReviewItem[]> {
+  // Pages captured outside a submission are never graded as a paper, so there's nothing to hold
+  if (!page.submissionId) {
+    return [];
+  }
+  
+  await storage.supersedePageReviewItems(page.id);
+  return storage.addReviewItems(flagExtraction(page, extraction, settings, markScheme));
+}
@@ -1,16 +1,51 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { extractAnswersFromImage } from "./openai";
+import { IStorage, storage } from "./storage";
+import { getActiveProvider, getProvider, listProviders } from "./recognition";
 import multer from "multer";
 import { z } from "zod";
 import { 
   insertMarkSchemeEntrySchema, 
   insertTestSchema, 
-  insertPageSchema, 
-  insertResultSchema,
-  markSchemeRowSchema
+  insertSubmissionSchema,
+  insertClassSchema,
+  rosterRowSchema,
+  pageUploadSchema,
+  assignTriagePageSchema,
+  createJobSchema,
+  resolveReviewItemSchema,
+  answerOverrideRequestSchema,
+  gradeResultRequestSchema,
+  markSchemeRowSchema,
+  answerRulesSchema,
+  scoringPolicySchema,
+  gradingScaleSchema,
+  lmsExportOptionsSchema,
+  insertColumnMappingProfileSchema,
+  matchColumnMappingProfileSchema,
+  bulkUploadOptionsSchema,
+  type InsertMarkSchemeEntry,
+  type MarkSchemeRow,
+  type Student,
+  type Page,
+  type Test,
+  type AnswerRules
 } from "@shared/schema";
+import { countsTowardsTotal, gradeAnswers, normalizeEnteredAnswer } from "./grading";
+import { gradeWrittenAnswers } from "./rubric";
+import { inferQuestionType } from "@shared/answers";
+import { generateAnswerSheetPdf } from "./answer-sheet";
+import { routePage } from "./page-routing";
+import { processPage } from "./page-processing";
+import { gradeSubmission } from "./submission-grading";
+import { jobQueue, isJobFinished, JobProgress } from "./jobs";
+import { regradeTest } from "./regrade";
+import { analyseTest } from "./analytics";
+import { applyGradingScale, linearCurve } from "./curving";
+import { findColumnMappingProfile, headerSignature } from "./column-mapping";
+import { bulkIngest, detectBulkUploadFormat, isIngestFinished, IngestProgress } from "./ingest";
+import { buildGradebook, gradebookFormats, gradebookToCsv, gradebookToXlsx, GradebookFormat } from "./gradebook";
+import { exportGradebookForLms, getLmsAdapter, listLmsAdapters } from "./lms";
 
 // Set up multer for handling file uploads
 const memoryStorage = multer.memoryStorage();
@@ -19,6 +54,95 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 } // 50MB limit
 });
 
+// Scanned class sets are much bigger than a mark scheme
+const bulkUpload = multer({
+  storage: memoryStorage,
+  limits: { fileSize: 200 * 1024 * 1024 } // 200MB limit
+});
+
+/**
+ * Turn a validated mark scheme row into an entry for a test
+ * @param row Row from the Excel mapper or the mark scheme editor
+ * @param testId Test the entry belongs to
+ * @returns Entry ready to store, with its question type guessed if it wasn't given
+ */
+function toMarkSchemeEntry(row: MarkSchemeRow, testId: number): InsertMarkSchemeEntry {
+  // Convert and normalize the answer value
+  let expectedAnswer = String(row.expectedAnswer || "").trim();
+  
+  // Special case: handle "undefined" literal string value
+  if (expectedAnswer.toLowerCase() === "undefined") {
+    console.warn(`Found literal "undefined" string for Q${row.questionNumber}, replacing with empty string`);
+    expectedAnswer = "";
+  }
+  
+  return {
+    questionNumber: row.questionNumber,
+    expectedAnswer: expectedAnswer,
+    points: row.points,
+    testId: testId,
+    // A rubric only makes sense for a written answer
+    questionType: row.questionType ?? (row.rubric?.length ? "written" as const : inferQuestionType(expectedAnswer)),
+    tolerance: row.tolerance ?? null,
+    rubric: row.rubric ?? null,
+    voided: row.voided ?? false,
+    bonus: row.bonus ?? false
+  };
+}
+
+/**
+ * Find a question number used more than once in a mark scheme
+ * @param rows Mark scheme rows
+ * @returns The first repeated question number, or undefined if they are all different
+ */
+function findDuplicateQuestion(rows: MarkSchemeRow[]): number | undefined {
+  const seen = new Set<number>();
+  for (const row of rows) {
+    if (seen.has(row.questionNumber)) {
+      return row.questionNumber;
+    }
+    seen.add(row.questionNumber);
+  }
+  return undefined;
+}
+
+/**
+ * Recount a test's questions and points after its mark scheme or rules changed, and save the change as a new version
+ * Call it inside storage.changeMarkScheme, with the storage that hands over, so the version records exactly that change
+ * @param store Storage the change was made through
+ * @param testId Test whose mark scheme changed
+ * @param summary What changed, for the version history
+ * @param ruleChanges New answer rules or scoring policy, saved together with the version that records them
+ * @returns The updated test, or undefined if it doesn't exist
+ */
+async function commitMarkSchemeChange(
+  store: IStorage,
+  testId: number,
+  summary: string,
+  ruleChanges: Partial<Pick<Test, "answerRules" | "scoringPolicy">> = {}
+) {
+  const test = await store.getTest(testId);
+  if (!test) {
+    return undefined;
+  }
+  
+  const markScheme = await store.getMarkScheme(testId);
+  const version = {
+    testId,
+    entries: markScheme,
+    answerRules: ruleChanges.answerRules ?? test.answerRules,
+    scoringPolicy: ruleChanges.scoringPolicy ?? test.scoringPolicy,
+    summary
+  };
+  return store.commitMarkSchemeVersion(version, {
+    ...ruleChanges,
+    totalQuestions: markScheme.length,
+    totalPoints: markScheme
+      .filter(entry => countsTowardsTotal(entry))
+      .reduce((sum, entry) => sum + entry.points, 0)
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const apiRouter = express.Router();
   
@@ -32,6 +156,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const testId = parseInt(req.body.testId);
+      if (!(await storage.getTest(testId))) {
+        return res.status(404).json({ message: "Test not found" });
+      }
       
       // Get the mark scheme data from the request
       const markSchemeData = req.body.markSchemeData;
@@ -79,55 +206,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Equivalence rules chosen in the column mapper travel with the mark scheme
+      let answerRules: AnswerRules | undefined;
+      if (req.body.answerRules) {
+        let rawRules;
+        try {
+          rawRules = JSON.parse(req.body.answerRules);
+        } catch (e) {
+          return res.status(400).json({ message: "Invalid JSON format in answer rules" });
+        }
+        
+        const rulesResult = answerRulesSchema.safeParse(rawRules);
+        if (!rulesResult.success) {
+          return res.status(400).json({ 
+            message: "Invalid answer rules", 
+            errors: rulesResult.error.format() 
+          });
+        }
+        answerRules = rulesResult.data;
+      }
+      
+      const duplicate = findDuplicateQuestion(validationResult.data);
+      if (duplicate !== undefined) {
+        return res.status(400).json({ message: `Question ${duplicate} appears more than once in the mark scheme` });
+      }
+      
       console.log("\n=== MARK SCHEME PROCESSING ===");
-      // Add entries to storage with proper handling of values
-      const entries = await Promise.all(
-        validationResult.data.map(entry => {
-          // Convert and normalize the answer value
-          let expectedAnswer = String(entry.expectedAnswer || "").trim();
-          
-          // Special case: handle "undefined" literal string value
-          if (expectedAnswer.toLowerCase() === "undefined") {
-            console.warn(`Found literal "undefined" string for Q${entry.questionNumber}, replacing with empty string`);
-            expectedAnswer = "";
-          }
-          
-          // Create a sanitized entry with proper values
-          const sanitizedEntry = {
-            questionNumber: entry.questionNumber,
-            expectedAnswer: expectedAnswer,
-            points: entry.points,
-            testId: testId
-          };
-          
-          console.log(`Processing entry Q${entry.questionNumber}: "${expectedAnswer}" (${typeof expectedAnswer}), Points: ${entry.points}`);
-          
-          return storage.addMarkSchemeEntry(sanitizedEntry);
-        })
-      );
+      // Uploading replaces the test's mark scheme, so a second upload doesn't duplicate questions.
+      // Rules uploaded with the mark scheme are part of the version they arrive in.
+      const { entries, test } = await storage.changeMarkScheme(testId, async store => {
+        const entries = await store.replaceMarkScheme(
+          testId,
+          validationResult.data.map(row => toMarkSchemeEntry(row, testId))
+        );
+        const test = await commitMarkSchemeChange(
+          store,
+          testId,
+          `Uploaded ${entries.length} questions from a spreadsheet`,
+          answerRules ? { answerRules } : {}
+        );
+        return { entries, test };
+      });
       
       // Log the first few entries that were actually stored
       console.log("First few entries actually stored:");
       entries.slice(0, 3).forEach((entry, idx) => {
         console.log(`Entry ${idx}:`, JSON.stringify(entry, null, 2));
-        console.log(`  expectedAnswer type: ${typeof entry.expectedAnswer}`);
-        console.log(`  expectedAnswer value: "${entry.expectedAnswer}"`);
       });
       
-      // Update test with total questions and points
-      const test = await storage.getTest(testId);
-      if (test) {
-        const totalQuestions = entries.length;
-        const totalPoints = entries.reduce((sum, entry) => sum + entry.points, 0);
-        
-        await storage.createTest({
-          ...test,
-          totalQuestions,
-          totalPoints
-        });
-      }
-      
-      res.status(200).json({ entries });
+      res.status(200).json({ entries, test });
     } catch (error) {
       console.error("Error uploading mark scheme:", error);
       res.status(500).json({ message: `Error uploading mark scheme: ${error instanceof Error ? error.message : String(error)}` });
@@ -145,6 +272,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // List the saved versions of a test's mark scheme, oldest first
+  apiRouter.get("/mark-scheme/:testId/versions", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      const versions = await storage.getMarkSchemeVersions(testId);
+      res.status(200).json(versions);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting mark scheme versions: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Replace a test's whole mark scheme, e.g. from the mark scheme editor
+  apiRouter.put("/mark-scheme/:testId", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      const validationResult = z.array(markSchemeRowSchema).safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid mark scheme data format", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const duplicate = findDuplicateQuestion(validationResult.data);
+      if (duplicate !== undefined) {
+        return res.status(400).json({ message: `Question ${duplicate} appears more than once in the mark scheme` });
+      }
+      
+      if (!(await storage.getTest(testId))) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const { entries, test } = await storage.changeMarkScheme(testId, async store => {
+        const entries = await store.replaceMarkScheme(
+          testId,
+          validationResult.data.map(row => toMarkSchemeEntry(row, testId))
+        );
+        const test = await commitMarkSchemeChange(store, testId, `Saved ${entries.length} questions in the editor`);
+        return { entries, test };
+      });
+      res.status(200).json({ entries, test });
+    } catch (error) {
+      res.status(500).json({ message: `Error replacing mark scheme: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Add one question to a test's mark scheme
+  apiRouter.post("/mark-scheme/:testId/entries", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      const validationResult = markSchemeRowSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid mark scheme entry", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      if (!(await storage.getTest(testId))) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const markScheme = await storage.getMarkScheme(testId);
+      if (markScheme.some(entry => entry.questionNumber === validationResult.data.questionNumber)) {
+        return res.status(409).json({ message: `Question ${validationResult.data.questionNumber} is already in the mark scheme` });
+      }
+      
+      const { entry, test } = await storage.changeMarkScheme(testId, async store => {
+        const entry = await store.addMarkSchemeEntry(toMarkSchemeEntry(validationResult.data, testId));
+        const test = await commitMarkSchemeChange(store, testId, `Added question ${entry.questionNumber}`);
+        return { entry, test };
+      });
+      res.status(201).json({ entry, test });
+    } catch (error) {
+      res.status(500).json({ message: `Error adding mark scheme entry: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Edit one question of a mark scheme; fields left out keep their current values
+  apiRouter.patch("/mark-scheme-entries/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.getMarkSchemeEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Mark scheme entry not found" });
+      }
+      
+      // Validate the entry as it will be after the edit, so answers are checked against the final type
+      const validationResult = markSchemeRowSchema.safeParse({
+        questionNumber: entry.questionNumber,
+        expectedAnswer: entry.expectedAnswer,
+        points: entry.points,
+        questionType: entry.questionType,
+        tolerance: entry.tolerance,
+        rubric: entry.rubric,
+        voided: entry.voided,
+        bonus: entry.bonus,
+        ...req.body
+      });
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid mark scheme entry", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { questionNumber } = validationResult.data;
+      const markScheme = await storage.getMarkScheme(entry.testId);
+      if (markScheme.some(other => other.id !== id && other.questionNumber === questionNumber)) {
+        return res.status(409).json({ message: `Question ${questionNumber} is already in the mark scheme` });
+      }
+      
+      const { testId: _testId, ...updates } = toMarkSchemeEntry(validationResult.data, entry.testId);
+      const { updatedEntry, test } = await storage.changeMarkScheme(entry.testId, async store => {
+        const updatedEntry = await store.updateMarkSchemeEntry(id, updates);
+        const test = await commitMarkSchemeChange(store, entry.testId, `Edited question ${entry.questionNumber}`);
+        return { updatedEntry, test };
+      });
+      res.status(200).json({ entry: updatedEntry, test });
+    } catch (error) {
+      res.status(500).json({ message: `Error updating mark scheme entry: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Remove one question from a mark scheme
+  apiRouter.delete("/mark-scheme-entries/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const entry = await storage.getMarkSchemeEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Mark scheme entry not found" });
+      }
+      
+      const test = await storage.changeMarkScheme(entry.testId, async store => {
+        await store.deleteMarkSchemeEntry(id);
+        return commitMarkSchemeChange(store, entry.testId, `Removed question ${entry.questionNumber}`);
+      });
+      res.status(200).json({ test });
+    } catch (error) {
+      res.status(500).json({ message: `Error deleting mark scheme entry: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   // ===== TEST ROUTES =====
   
   // Create a new test
@@ -192,197 +465,1290 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // ===== PAGE ROUTES =====
-  
-  // Upload a page image
-  apiRouter.post("/pages", async (req: Request, res: Response) => {
+  // Update a test's details; totals follow the mark scheme and can't be set directly, rules are
+  // changed through their own routes so each change is saved as a mark scheme version, and the
+  // grading scale through its route so existing results are rescaled with it
+  apiRouter.patch("/tests/:id", async (req: Request, res: Response) => {
     try {
-      const validationResult = insertPageSchema.safeParse(req.body);
+      const id = parseInt(req.params.id);
+      const validationResult = insertTestSchema
+        .omit({ totalQuestions: true, totalPoints: true, answerRules: true, scoringPolicy: true, gradingScale: true })
+        .partial()
+        .strict()
+        .safeParse(req.body);
       
       if (!validationResult.success) {
         return res.status(400).json({ 
-          message: "Invalid page data", 
+          message: "Invalid test data", 
           errors: validationResult.error.format() 
         });
       }
       
-      const page = await storage.addPage(validationResult.data);
-      res.status(201).json(page);
-    } catch (error) {
-      res.status(500).json({ message: `Error adding page: ${error instanceof Error ? error.message : String(error)}` });
-    }
-  });
-  
-  // Get pages for a test
-  apiRouter.get("/pages/:testId", async (req: Request, res: Response) => {
-    try {
-      const testId = parseInt(req.params.testId);
-      const pages = await storage.getPages(testId);
-      res.status(200).json(pages);
+      const test = await storage.updateTest(id, validationResult.data);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      res.status(200).json(test);
     } catch (error) {
-      res.status(500).json({ message: `Error getting pages: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error updating test: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Process a page image
-  apiRouter.post("/pages/:id/process", async (req: Request, res: Response) => {
+  // Change the rules deciding which answers count as equivalent for a test
+  apiRouter.put("/tests/:id/answer-rules", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      let page;
+      const validationResult = answerRulesSchema.safeParse(req.body);
       
-      try {
-        // Try to get the page directly using the getPage method
-        page = await storage.getPage(id);
-      } catch (error) {
-        console.log(`Error finding page with ID ${id} directly: ${String(error)}`);
-        
-        // Fallback: Try to find the page from all pages
-        const allPages = await storage.getPages(0); // Get all pages
-        page = allPages.find(p => p.id === id);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid answer rules", 
+          errors: validationResult.error.format() 
+        });
       }
       
-      console.log(`Processing page ${id}, found: ${!!page}`);
-      
-      if (!page) {
-        return res.status(404).json({ message: "Page not found" });
+      const test = await storage.changeMarkScheme(id, store =>
+        commitMarkSchemeChange(store, id, "Changed answer rules", { answerRules: validationResult.data })
+      );
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
       }
       
-      // Get settings for image processing
-      const settings = await storage.getSettings();
+      res.status(200).json(test);
+    } catch (error) {
+      res.status(500).json({ message: `Error updating answer rules: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Change how points are awarded for a test: penalties, blanks and partial credit
+  apiRouter.put("/tests/:id/scoring-policy", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validationResult = scoringPolicySchema.safeParse(req.body);
       
-      // Verify we have an OpenAI API key
-      if (!process.env.OPENAI_API_KEY) {
-        return res.status(500).json({ 
-          message: "Missing OpenAI API key. Please provide an OPENAI_API_KEY in your environment variables."
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid scoring policy", 
+          errors: validationResult.error.format() 
         });
       }
       
-      // Process the image with OpenAI
-      const imageData = page.imageData.replace(/^data:image\/[a-z]+;base64,/, "");
-      const extractionResult = await extractAnswersFromImage(imageData, settings);
-      
-      console.log(`Extraction result for page ${id}:`, extractionResult);
-      
-      // Update the page with extracted answers
-      const updatedPage = await storage.updatePageProcessed(
-        id, 
-        true, 
-        extractionResult.answers
+      const test = await storage.changeMarkScheme(id, store =>
+        commitMarkSchemeChange(store, id, "Changed scoring policy", { scoringPolicy: validationResult.data })
       );
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
       
-      res.status(200).json({
-        page: updatedPage,
-        extractedAnswers: extractionResult.answers,
-        confidence: extractionResult.confidence
-      });
+      res.status(200).json(test);
     } catch (error) {
-      console.error(`Error processing page ${req.params.id}:`, error);
-      res.status(500).json({ 
-        message: `Error processing page: ${error instanceof Error ? error.message : String(error)}` 
-      });
+      res.status(500).json({ message: `Error updating scoring policy: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // ===== RESULTS ROUTES =====
-  
-  // Create a test result
-  apiRouter.post("/results", async (req: Request, res: Response) => {
+  // Change a test's grade boundaries and curve, and re-scale the results it already has
+  apiRouter.put("/tests/:id/grading-scale", async (req: Request, res: Response) => {
     try {
-      const validationResult = insertResultSchema.safeParse(req.body);
+      const id = parseInt(req.params.id);
+      const validationResult = gradingScaleSchema.safeParse(req.body);
       
       if (!validationResult.success) {
         return res.status(400).json({ 
-          message: "Invalid result data", 
+          message: "Invalid grading scale", 
           errors: validationResult.error.format() 
         });
       }
       
-      const result = await storage.addResult(validationResult.data);
-      res.status(201).json(result);
+      const test = await storage.updateTest(id, { gradingScale: validationResult.data });
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const scaled = await applyGradingScale(id);
+      
+      // Capping scores at 100%, and zeros staying zero, can keep a linear curve from reaching the mean the teacher asked for
+      let warning: string | null = null;
+      const scale = validationResult.data;
+      if (scale.curve === "linear" && scaled.length > 0) {
+        const { mean } = linearCurve(scaled.map(result => result.scorePercentage), scale.targetMean);
+        if (mean < scale.targetMean - 0.05) {
+          warning = `The class mean can only be raised to ${Math.round(mean * 10) / 10}%, not ${scale.targetMean}%, because scaling can't take a score above 100% or lift a score of 0`;
+        }
+      }
+      
+      res.status(200).json({ test, warning });
     } catch (error) {
-      res.status(500).json({ message: `Error adding result: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error updating grading scale: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Get result for a test
-  apiRouter.get("/results/:testId", async (req: Request, res: Response) => {
+  // Download a printable bubble answer sheet for a test
+  // ?studentId= personalises one sheet, ?classId= prints one sheet per student in the class
+  apiRouter.get("/tests/:id/answer-sheet", async (req: Request, res: Response) => {
     try {
-      const testId = parseInt(req.params.testId);
-      const result = await storage.getResult(testId);
+      const id = parseInt(req.params.id);
+      const test = await storage.getTest(id);
       
-      if (!result) {
-        return res.status(404).json({ message: "Result not found" });
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
       }
       
-      res.status(200).json(result);
+      let students: Student[] = [];
+      if (req.query.studentId) {
+        const student = await storage.getStudent(parseInt(String(req.query.studentId)));
+        if (!student) {
+          return res.status(404).json({ message: "Student not found" });
+        }
+        students = [student];
+      } else if (req.query.classId) {
+        const classId = parseInt(String(req.query.classId));
+        if (!(await storage.getClass(classId))) {
+          return res.status(404).json({ message: "Class not found" });
+        }
+        students = await storage.getStudents(classId);
+      }
+      
+      const markScheme = await storage.getMarkScheme(id);
+      if (markScheme.length === 0 && test.totalQuestions <= 0) {
+        return res.status(400).json({ message: "Test has no questions; upload a mark scheme first" });
+      }
+      
+      const pdf = generateAnswerSheetPdf(test, markScheme, students);
+      const fileName = `${test.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "test"}-answer-sheet.pdf`;
+      
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.status(200).send(pdf);
     } catch (error) {
-      res.status(500).json({ message: `Error getting result: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error generating answer sheet: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Get detailed results for a test
-  apiRouter.get("/results/:testId/detailed", async (req: Request, res: Response) => {
+  // Download every graded paper for a test, one row per student
+  // ?format=csv (the default) or ?format=xlsx for a workbook with summary and mark scheme sheets
+  apiRouter.get("/tests/:id/gradebook", async (req: Request, res: Response) => {
     try {
-      const testId = parseInt(req.params.testId);
-      console.log(`Getting detailed results for test ${testId}`);
+      const id = parseInt(req.params.id);
+      const format = String(req.query.format ?? "csv") as GradebookFormat;
       
-      // First get the mark scheme to verify it contains data
-      const markScheme = await storage.getMarkScheme(testId);
-      console.log(`Mark scheme for test ${testId} contains ${markScheme.length} entries.`);
+      if (!gradebookFormats.includes(format)) {
+        return res.status(400).json({ message: `Unknown gradebook format "${format}"; use csv or xlsx` });
+      }
       
-      if (markScheme.length > 0) {
-        console.log("Sample mark scheme entries:");
-        markScheme.slice(0, 3).forEach((entry, index) => {
-          console.log(`Entry ${index}:`, JSON.stringify(entry, null, 2));
-          console.log(`  expectedAnswer type: ${typeof entry.expectedAnswer}`);
-          console.log(`  expectedAnswer value: "${entry.expectedAnswer}"`);
-        });
+      const gradebook = await buildGradebook(id);
+      if (!gradebook) {
+        return res.status(404).json({ message: "Test not found" });
       }
       
-      const detailedResults = await storage.getDetailedResults(testId);
-      console.log(`Generated ${detailedResults.length} detailed result items`);
+      const fileName = `${gradebook.test.name.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "test"}-gradebook.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
       
-      if (detailedResults.length > 0) {
-        console.log("Sample result items:");
-        detailedResults.slice(0, 3).forEach((item, index) => {
-          console.log(`Result ${index}:`, JSON.stringify(item, null, 2));
-          console.log(`  expectedAnswer type: ${typeof item.expectedAnswer}`);
-          console.log(`  expectedAnswer value: "${item.expectedAnswer}"`);
-        });
+      if (format === "xlsx") {
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.status(200).send(gradebookToXlsx(gradebook));
+      } else {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.status(200).send(gradebookToCsv(gradebook));
       }
-      
-      res.status(200).json(detailedResults);
     } catch (error) {
-      console.error(`Error getting detailed results for test ${req.params.testId}:`, error);
-      res.status(500).json({ message: `Error getting detailed results: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error exporting gradebook: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // ===== SETTINGS ROUTES =====
-  
-  // Get settings
-  apiRouter.get("/settings", async (_req: Request, res: Response) => {
+  // List the LMS gradebook formats tests can be exported in
+  apiRouter.get("/lms-adapters", async (_req: Request, res: Response) => {
     try {
-      const settings = await storage.getSettings();
-      res.status(200).json(settings);
+      res.status(200).json(listLmsAdapters());
     } catch (error) {
-      res.status(500).json({ message: `Error getting settings: ${error instanceof Error ? error.message : String(error)}` });
+      res.status(500).json({ message: `Error listing LMS adapters: ${error instanceof Error ? error.message : String(error)}` });
     }
   });
   
-  // Update settings
-  apiRouter.put("/settings", async (req: Request, res: Response) => {
+  // Download a test's marks as a file an LMS gradebook can import
+  // ?assignmentName=, ?score=points|percentage|scaled and ?emailDomain= tune the file;
+  // ?preview=true returns who would be exported and who left out instead of the file
+  apiRouter.get("/tests/:id/lms-export/:adapterId", async (req: Request, res: Response) => {
     try {
-      const updatedSettings = await storage.updateSettings(req.body);
-      res.status(200).json(updatedSettings);
-    } catch (error) {
-      res.status(500).json({ message: `Error updating settings: ${error instanceof Error ? error.message : String(error)}` });
-    }
-  });
-  
+      const id = parseInt(req.params.id);
+      const adapter = getLmsAdapter(req.params.adapterId);
+      
+      if (!adapter) {
+        return res.status(404).json({ message: `Unknown LMS "${req.params.adapterId}"` });
+      }
+      
+      const { preview, ...query } = req.query;
+      const validationResult = lmsExportOptionsSchema.safeParse(query);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid export options", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const gradebook = await buildGradebook(id);
+      if (!gradebook) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const file = exportGradebookForLms(adapter, gradebook, validationResult.data);
+      console.log(`Exported ${file.exported} grades for test ${id} to ${adapter.name}, skipped ${file.skipped.length}`);
+      
+      if (preview === "true") {
+        return res.status(200).json({ exported: file.exported, skipped: file.skipped, identifier: adapter.identifier });
+      }
+      
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      res.setHeader("X-Skipped-Count", String(file.skipped.length));
+      res.status(200).send(file.content);
+    } catch (error) {
+      res.status(500).json({ message: `Error exporting to LMS: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== CLASS & ROSTER ROUTES =====
+  
+  // Create a class
+  apiRouter.post("/classes", async (req: Request, res: Response) => {
+    try {
+      const validationResult = insertClassSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid class data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const created = await storage.createClass(validationResult.data);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ message: `Error creating class: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get all classes
+  apiRouter.get("/classes", async (_req: Request, res: Response) => {
+    try {
+      const classes = await storage.getAllClasses();
+      res.status(200).json(classes);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting classes: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get the students on a class roster
+  apiRouter.get("/classes/:id/students", async (req: Request, res: Response) => {
+    try {
+      const classId = parseInt(req.params.id);
+      const students = await storage.getStudents(classId);
+      res.status(200).json(students);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting students: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Import roster rows (parsed client-side from CSV/Excel) into a class
+  apiRouter.post("/classes/:id/students", async (req: Request, res: Response) => {
+    try {
+      const classId = parseInt(req.params.id);
+      const existingClass = await storage.getClass(classId);
+      
+      if (!existingClass) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      
+      const validationResult = z.array(rosterRowSchema).safeParse(req.body.students);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid roster data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      // Skip students whose ID is already on the roster so re-importing a file is harmless
+      const existingStudents = await storage.getStudents(classId);
+      const knownNumbers = new Set(
+        existingStudents.map(student => student.studentNumber).filter(Boolean)
+      );
+      const newRows = validationResult.data.filter(row => 
+        !row.studentNumber || !knownNumbers.has(row.studentNumber)
+      );
+      
+      const added = await storage.addStudents(
+        newRows.map(row => ({ ...row, classId }))
+      );
+      
+      res.status(201).json({ 
+        students: added, 
+        skipped: validationResult.data.length - added.length 
+      });
+    } catch (error) {
+      res.status(500).json({ message: `Error importing roster: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== SUBMISSION ROUTES =====
+  
+  // Start a new submission (one student's paper) for a test
+  apiRouter.post("/tests/:id/submissions", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const test = await storage.getTest(testId);
+      
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const validationResult = insertSubmissionSchema.safeParse({ ...req.body, testId });
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid submission data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const existing = await storage.getSubmissions(testId);
+      const submission = await storage.createSubmission({
+        ...validationResult.data,
+        label: validationResult.data.label || `Paper ${existing.length + 1}`
+      });
+      res.status(201).json(submission);
+    } catch (error) {
+      res.status(500).json({ message: `Error creating submission: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Re-grade every graded submission of a test against its current mark scheme
+  apiRouter.post("/tests/:id/regrade", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.id);
+      if (!(await storage.getTest(testId))) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const markScheme = await storage.getMarkScheme(testId);
+      if (markScheme.length === 0) {
+        return res.status(400).json({ message: "Test has no mark scheme to grade against" });
+      }
+      
+      const report = await regradeTest(testId);
+      res.status(200).json(report);
+    } catch (error) {
+      res.status(500).json({ message: `Error re-grading test: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Item analysis and score statistics for a test's graded submissions
+  apiRouter.get("/tests/:id/analytics", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.id);
+      if (!(await storage.getTest(testId))) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const analytics = await analyseTest(testId);
+      res.status(200).json(analytics);
+    } catch (error) {
+      res.status(500).json({ message: `Error analysing test: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get all submissions for a test, each with its student and latest result
+  apiRouter.get("/tests/:id/submissions", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const submissions = await storage.getSubmissions(testId);
+      
+      const submissionsWithResults = await Promise.all(
+        submissions.map(async submission => ({
+          ...submission,
+          student: submission.studentId 
+            ? (await storage.getStudent(submission.studentId)) ?? null 
+            : null,
+          result: (await storage.getSubmissionResult(submission.id)) ?? null
+        }))
+      );
+      
+      res.status(200).json(submissionsWithResults);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting submissions: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get a submission by ID
+  apiRouter.get("/submissions/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const submission = await storage.getSubmission(id);
+      
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      res.status(200).json(submission);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting submission: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Assign (or clear) the student a submission belongs to
+  apiRouter.patch("/submissions/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validationResult = z.object({ 
+        studentId: z.number().int().positive().nullable() 
+      }).safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid submission data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { studentId } = validationResult.data;
+      if (studentId !== null && !(await storage.getStudent(studentId))) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      
+      if (!(await storage.getSubmission(id))) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      const submission = await storage.assignSubmissionStudent(id, studentId);
+      res.status(200).json(submission);
+    } catch (error) {
+      res.status(500).json({ message: `Error updating submission: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get the pages captured for a submission
+  apiRouter.get("/submissions/:id/pages", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const pages = await storage.getSubmissionPages(id);
+      res.status(200).json(pages);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting submission pages: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Grade a submission from the answers extracted from its pages
+  apiRouter.post("/submissions/:id/grade", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const submission = await storage.getSubmission(id);
+      
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      const markScheme = await storage.getMarkScheme(submission.testId);
+      if (markScheme.length === 0) {
+        return res.status(400).json({ message: "Test has no mark scheme to grade against" });
+      }
+      
+      // Grading is held while any extraction is waiting for review
+      const outcome = await gradeSubmission(submission, markScheme);
+      if (outcome.status === "needs_review") {
+        return res.status(202).json({ needsReview: true, reviewItems: outcome.reviewItems });
+      }
+      
+      res.status(201).json(outcome.result);
+    } catch (error) {
+      console.error(`Error grading submission ${req.params.id}:`, error);
+      res.status(500).json({ message: `Error grading submission: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get the latest result for a submission
+  apiRouter.get("/submissions/:id/result", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const result = await storage.getSubmissionResult(id);
+      
+      if (!result) {
+        return res.status(404).json({ message: "Result not found" });
+      }
+      
+      res.status(200).json(result);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting result: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get detailed results for a submission
+  apiRouter.get("/submissions/:id/detailed", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const detailedResults = await storage.getSubmissionDetailedResults(id);
+      res.status(200).json(detailedResults);
+    } catch (error) {
+      console.error(`Error getting detailed results for submission ${req.params.id}:`, error);
+      res.status(500).json({ message: `Error getting detailed results: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Override one student answer by hand and re-grade the submission
+  // The extracted value is kept; the override is recorded in the audit trail
+  apiRouter.patch("/submissions/:id/answers/:questionNumber", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const questionNumber = parseInt(req.params.questionNumber);
+      const submission = await storage.getSubmission(id);
+      
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      const markScheme = await storage.getMarkScheme(submission.testId);
+      const entry = markScheme.find(item => item.questionNumber === questionNumber);
+      if (!entry) {
+        return res.status(404).json({ message: `Question ${req.params.questionNumber} is not in the mark scheme` });
+      }
+      
+      const validationResult = answerOverrideRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid answer override", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { answer, changedBy, reason } = validationResult.data;
+      const latest = await storage.getSubmissionResult(id);
+      const previousAnswer = latest?.studentAnswers[questionNumber.toString()] ?? "";
+      const newAnswer = normalizeEnteredAnswer(answer, entry.questionType);
+      
+      if (newAnswer === previousAnswer) {
+        return res.status(400).json({ message: "The answer is unchanged" });
+      }
+      
+      const override = await storage.addAnswerOverride({
+        submissionId: id,
+        questionNumber,
+        previousAnswer,
+        newAnswer,
+        changedBy,
+        reason
+      });
+      
+      const outcome = await gradeSubmission(submission, markScheme);
+      res.status(200).json({ override, result: outcome.status === "graded" ? outcome.result : null });
+    } catch (error) {
+      console.error(`Error overriding answer on submission ${req.params.id}:`, error);
+      res.status(500).json({ message: `Error overriding answer: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get the history of manual answer overrides for a submission
+  apiRouter.get("/submissions/:id/overrides", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const overrides = await storage.getAnswerOverrides(id);
+      res.status(200).json(overrides);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting answer overrides: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== PAGE ROUTES =====
+  
+  // Upload a page image
+  // The page is routed by its QR code when it has one; unidentifiable pages go to the triage queue
+  apiRouter.post("/pages", async (req: Request, res: Response) => {
+    try {
+      const validationResult = pageUploadSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid page data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      // Pages attached to a submission must belong to the same test
+      const { submissionId, testId } = validationResult.data;
+      if (submissionId) {
+        const submission = await storage.getSubmission(submissionId);
+        if (!submission || (testId && submission.testId !== testId)) {
+          return res.status(400).json({ message: "Submission does not belong to this test" });
+        }
+      }
+      
+      const outcome = await routePage(validationResult.data);
+      if (outcome.status === "triaged") {
+        const { imageData, ...triagePage } = outcome.triagePage;
+        return res.status(202).json({ triaged: true, triagePage });
+      }
+      
+      res.status(201).json(outcome.page);
+    } catch (error) {
+      res.status(500).json({ message: `Error adding page: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get pages for a test
+  apiRouter.get("/pages/:testId", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      const pages = await storage.getPages(testId);
+      res.status(200).json(pages);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting pages: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a page image
+  apiRouter.delete("/pages/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deletePage(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: `Error deleting page: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Process a page image
+  apiRouter.post("/pages/:id/process", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      let page;
+      
+      try {
+        // Try to get the page directly using the getPage method
+        page = await storage.getPage(id);
+      } catch (error) {
+        console.log(`Error finding page with ID ${id} directly: ${String(error)}`);
+        
+        // Fallback: Try to find the page from all pages
+        const allPages = await storage.getPages(0); // Get all pages
+        page = allPages.find(p => p.id === id);
+      }
+      
+      console.log(`Processing page ${id}, found: ${!!page}`);
+      
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      
+      // Get settings for image processing
+      const settings = await storage.getSettings();
+      
+      // Verify the selected recognition provider can run here
+      const provider = getActiveProvider(settings);
+      const availability = provider.checkAvailability();
+      if (!availability.available) {
+        return res.status(400).json({ 
+          message: `Recognition provider "${provider.name}" is unavailable: ${availability.reason}`
+        });
+      }
+      
+      // Process the image with the selected provider
+      const { page: updatedPage, extraction, reviewItems } = await processPage(page, provider, settings);
+      
+      res.status(200).json({
+        page: updatedPage,
+        extractedAnswers: extraction.answers,
+        confidence: extraction.confidence,
+        questions: extraction.questions,
+        reviewItems
+      });
+    } catch (error) {
+      console.error(`Error processing page ${req.params.id}:`, error);
+      res.status(500).json({ 
+        message: `Error processing page: ${error instanceof Error ? error.message : String(error)}` 
+      });
+    }
+  });
+  
+  // ===== BULK UPLOAD ROUTES =====
+  
+  // Upload a scanned PDF or a ZIP of scans for a test
+  // Pages are split out, filed under papers (by QR code or page count), processed and graded in the background
+  apiRouter.post("/tests/:id/bulk-upload", bulkUpload.single("file"), async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.id);
+      const test = await storage.getTest(testId);
+      
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      if (!detectBulkUploadFormat(req.file.buffer)) {
+        return res.status(400).json({ message: "Upload a PDF or a ZIP file of scanned pages" });
+      }
+      
+      const validationResult = bulkUploadOptionsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid bulk upload options", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const ingest = bulkIngest.start(test.id, req.file.originalname, req.file.buffer, validationResult.data);
+      res.status(202).json(ingest);
+    } catch (error) {
+      res.status(500).json({ message: `Error starting bulk upload: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get the progress of a bulk upload
+  apiRouter.get("/ingests/:id", async (req: Request, res: Response) => {
+    try {
+      const progress = bulkIngest.getProgress(parseInt(req.params.id));
+      
+      if (!progress) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      
+      res.status(200).json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting upload: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Stream bulk upload progress as Server-Sent Events until it finishes
+  apiRouter.get("/ingests/:id/events", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const progress = bulkIngest.getProgress(id);
+      
+      if (!progress) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      });
+      
+      const send = (update: IngestProgress) => {
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (isIngestFinished(update)) {
+          unsubscribe();
+          res.end();
+        }
+      };
+      const unsubscribe = bulkIngest.subscribe(id, send);
+      req.on("close", unsubscribe);
+      
+      send(progress);
+    } catch (error) {
+      if (res.headersSent) {
+        return res.end();
+      }
+      res.status(500).json({ message: `Error streaming upload: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== JOB ROUTES =====
+  
+  // Queue a batch of pages for background processing
+  apiRouter.post("/jobs", async (req: Request, res: Response) => {
+    try {
+      const validationResult = createJobSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid job request", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { submissionId, pageIds } = validationResult.data;
+      let pages: Page[];
+      if (pageIds && pageIds.length > 0) {
+        const allPages = await storage.getPages(0);
+        pages = pageIds.map(id => allPages.find(page => page.id === id)).filter((page): page is Page => !!page);
+        if (pages.length !== pageIds.length) {
+          return res.status(404).json({ message: "One or more pages were not found" });
+        }
+      } else {
+        const submission = await storage.getSubmission(submissionId!);
+        if (!submission) {
+          return res.status(404).json({ message: "Submission not found" });
+        }
+        pages = await storage.getSubmissionPages(submission.id);
+      }
+      
+      if (pages.length === 0) {
+        return res.status(400).json({ message: "No pages to process" });
+      }
+      
+      const testId = pages[0].testId;
+      if (pages.some(page => page.testId !== testId)) {
+        return res.status(400).json({ message: "All pages in a job must belong to the same test" });
+      }
+      
+      const job = await jobQueue.enqueue(testId, submissionId ?? pages[0].submissionId ?? null, pages.map(page => page.id));
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: `Error creating job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get a job and the status of each of its pages
+  apiRouter.get("/jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const progress = await jobQueue.getProgress(id);
+      
+      if (!progress) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.status(200).json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Stream job progress as Server-Sent Events until the job finishes
+  apiRouter.get("/jobs/:id/events", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const progress = await jobQueue.getProgress(id);
+      
+      if (!progress) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive"
+      });
+      
+      const send = (update: JobProgress) => {
+        res.write(`data: ${JSON.stringify(update)}\n\n`);
+        if (isJobFinished(update.job)) {
+          unsubscribe();
+          res.end();
+        }
+      };
+      const unsubscribe = jobQueue.subscribe(id, send);
+      req.on("close", unsubscribe);
+      
+      send(progress);
+    } catch (error) {
+      if (res.headersSent) {
+        return res.end();
+      }
+      res.status(500).json({ message: `Error streaming job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Cancel a job
+  apiRouter.post("/jobs/:id/cancel", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.getJob(id))) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      
+      const progress = await jobQueue.cancel(id);
+      res.status(200).json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error cancelling job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Retry the failed and cancelled pages of a finished job
+  apiRouter.post("/jobs/:id/retry", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+      
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!isJobFinished(job)) {
+        return res.status(409).json({ message: "Job is still running" });
+      }
+      
+      const progress = await jobQueue.retry(id);
+      res.status(202).json(progress);
+    } catch (error) {
+      res.status(500).json({ message: `Error retrying job: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== REVIEW ROUTES =====
+  
+  // Get the submissions held for review, with how many items each still has open
+  apiRouter.get("/review", async (_req: Request, res: Response) => {
+    try {
+      const openItems = await storage.getOpenReviewItems();
+      const submissionIds = Array.from(new Set(openItems.map(item => item.submissionId)));
+      
+      const queue = await Promise.all(submissionIds.map(async submissionId => {
+        const submission = await storage.getSubmission(submissionId);
+        const test = submission ? await storage.getTest(submission.testId) : undefined;
+        const student = submission?.studentId ? await storage.getStudent(submission.studentId) : undefined;
+        return {
+          submission,
+          testName: test?.name ?? "",
+          student: student ?? null,
+          openItems: openItems.filter(item => item.submissionId === submissionId).length
+        };
+      }));
+      
+      res.status(200).json(queue.filter(entry => entry.submission));
+    } catch (error) {
+      res.status(500).json({ message: `Error getting review queue: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get everything a reviewer needs for one submission: its pages and review items
+  apiRouter.get("/submissions/:id/review", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const submission = await storage.getSubmission(id);
+      
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      
+      const pages = await storage.getSubmissionPages(id);
+      const reviewItems = await storage.getSubmissionReviewItems(id);
+      res.status(200).json({ submission, pages, reviewItems });
+    } catch (error) {
+      res.status(500).json({ message: `Error getting review: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Resolve a review item with the corrected answer
+  // Resolving the last open item grades the held submission
+  apiRouter.patch("/review-items/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const item = await storage.getReviewItem(id);
+      
+      if (!item) {
+        return res.status(404).json({ message: "Review item not found" });
+      }
+      if (item.status === "superseded") {
+        return res.status(409).json({ message: "This review item no longer applies because its page was read again" });
+      }
+      
+      const validationResult = resolveReviewItemSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid review resolution", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      // Question items keep the extracted answer unless the reviewer corrected it
+      const submission = await storage.getSubmission(item.submissionId);
+      const markScheme = submission ? await storage.getMarkScheme(submission.testId) : [];
+      const entry = markScheme.find(other => other.questionNumber === item.questionNumber);
+      const answer = item.questionNumber === null
+        ? null
+        : normalizeEnteredAnswer(validationResult.data.answer ?? item.extractedAnswer, entry?.questionType);
+      const resolved = await storage.resolveReviewItem(id, answer);
+      
+      let result = null;
+      const stillOpen = (await storage.getSubmissionReviewItems(item.submissionId))
+        .some(other => other.status === "open");
+      if (submission?.status === "needs_review" && !stillOpen) {
+        const outcome = await gradeSubmission(submission, markScheme);
+        result = outcome.status === "graded" ? outcome.result : null;
+      }
+      
+      res.status(200).json({ reviewItem: resolved, result });
+    } catch (error) {
+      res.status(500).json({ message: `Error resolving review item: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== TRIAGE ROUTES =====
+  
+  // Get pages waiting for manual assignment
+  apiRouter.get("/triage", async (_req: Request, res: Response) => {
+    try {
+      const triagePages = await storage.getTriagePages();
+      res.status(200).json(triagePages);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting triage queue: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Assign a triaged page to a test and paper by hand
+  // Without a submissionId a new paper is started for the page
+  apiRouter.post("/triage/:id/assign", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const triagePage = await storage.getTriagePage(id);
+      
+      if (!triagePage) {
+        return res.status(404).json({ message: "Triage page not found" });
+      }
+      
+      const validationResult = assignTriagePageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid page assignment", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { testId, pageNumber, submissionId } = validationResult.data;
+      const test = await storage.getTest(testId);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      let submission = submissionId ? await storage.getSubmission(submissionId) : undefined;
+      if (submissionId && (!submission || submission.testId !== testId)) {
+        return res.status(400).json({ message: "Submission does not belong to this test" });
+      }
+      if (!submission) {
+        const existing = await storage.getSubmissions(testId);
+        submission = await storage.createSubmission({ testId, label: `Paper ${existing.length + 1}` });
+      }
+      
+      const page = await storage.addPage({
+        imageData: triagePage.imageData,
+        testId,
+        pageNumber,
+        submissionId: submission.id
+      });
+      await storage.deleteTriagePage(id);
+      
+      res.status(201).json({ page, submission });
+    } catch (error) {
+      res.status(500).json({ message: `Error assigning triage page: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Discard a triaged page
+  apiRouter.delete("/triage/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteTriagePage(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: `Error deleting triage page: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== RESULTS ROUTES =====
+  
+  // Grade a set of student answers and store the result
+  apiRouter.post("/results", async (req: Request, res: Response) => {
+    try {
+      // Any score fields sent by the client are ignored; the server grades authoritatively
+      const validationResult = gradeResultRequestSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid result data", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const { testId, studentAnswers } = validationResult.data;
+      const test = await storage.getTest(testId);
+      if (!test) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+      
+      const markScheme = await storage.getMarkScheme(testId);
+      if (markScheme.length === 0) {
+        return res.status(400).json({ message: "Test has no mark scheme to grade against" });
+      }
+      
+      // Without a submission there is nowhere to keep rubric grades, so written answers are scored afresh
+      const writtenGrades = await gradeWrittenAnswers(markScheme, studentAnswers, null);
+      const { result: gradedResult } = gradeAnswers(testId, markScheme, studentAnswers, test, writtenGrades);
+      const version = await storage.getLatestMarkSchemeVersion(testId);
+      const result = await storage.addResult({ ...gradedResult, markSchemeVersion: version?.version ?? null });
+      const scaled = (await applyGradingScale(testId)).find(item => item.id === result.id);
+      res.status(201).json(scaled ?? result);
+    } catch (error) {
+      res.status(500).json({ message: `Error adding result: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get result for a test
+  apiRouter.get("/results/:testId", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      const result = await storage.getResult(testId);
+      
+      if (!result) {
+        return res.status(404).json({ message: "Result not found" });
+      }
+      
+      res.status(200).json(result);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting result: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Get detailed results for a test
+  apiRouter.get("/results/:testId/detailed", async (req: Request, res: Response) => {
+    try {
+      const testId = parseInt(req.params.testId);
+      console.log(`Getting detailed results for test ${testId}`);
+      
+      // First get the mark scheme to verify it contains data
+      const markScheme = await storage.getMarkScheme(testId);
+      console.log(`Mark scheme for test ${testId} contains ${markScheme.length} entries.`);
+      
+      if (markScheme.length > 0) {
+        console.log("Sample mark scheme entries:");
+        markScheme.slice(0, 3).forEach((entry, index) => {
+          console.log(`Entry ${index}:`, JSON.stringify(entry, null, 2));
+          console.log(`  expectedAnswer type: ${typeof entry.expectedAnswer}`);
+          console.log(`  expectedAnswer value: "${entry.expectedAnswer}"`);
+        });
+      }
+      
+      const detailedResults = await storage.getDetailedResults(testId);
+      console.log(`Generated ${detailedResults.length} detailed result items`);
+      
+      if (detailedResults.length > 0) {
+        console.log("Sample result items:");
+        detailedResults.slice(0, 3).forEach((item, index) => {
+          console.log(`Result ${index}:`, JSON.stringify(item, null, 2));
+          console.log(`  expectedAnswer type: ${typeof item.expectedAnswer}`);
+          console.log(`  expectedAnswer value: "${item.expectedAnswer}"`);
+        });
+      }
+      
+      res.status(200).json(detailedResults);
+    } catch (error) {
+      console.error(`Error getting detailed results for test ${req.params.testId}:`, error);
+      res.status(500).json({ message: `Error getting detailed results: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== COLUMN MAPPING PROFILE ROUTES =====
+  
+  // List the saved column mapping profiles
+  apiRouter.get("/column-mapping-profiles", async (_req: Request, res: Response) => {
+    try {
+      const profiles = await storage.getColumnMappingProfiles();
+      res.status(200).json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting column mapping profiles: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Find the profile saved for a file's headers, so its mapping can be applied without asking
+  apiRouter.post("/column-mapping-profiles/match", async (req: Request, res: Response) => {
+    try {
+      const validationResult = matchColumnMappingProfileSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid column headers", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const profile = await findColumnMappingProfile(validationResult.data.columns);
+      res.status(200).json({ profile: profile ?? null });
+    } catch (error) {
+      res.status(500).json({ message: `Error matching column mapping profile: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Save a column mapping profile; one saved for the same headers is replaced
+  apiRouter.post("/column-mapping-profiles", async (req: Request, res: Response) => {
+    try {
+      const validationResult = insertColumnMappingProfileSchema.safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid column mapping profile", 
+          errors: validationResult.error.format() 
+        });
+      }
+      
+      const profile = await storage.saveColumnMappingProfile(
+        validationResult.data,
+        headerSignature(validationResult.data.columns)
+      );
+      res.status(201).json(profile);
+    } catch (error) {
+      res.status(500).json({ message: `Error saving column mapping profile: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Delete a column mapping profile
+  apiRouter.delete("/column-mapping-profiles/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const profile = await storage.getColumnMappingProfile(id);
+      
+      if (!profile) {
+        return res.status(404).json({ message: "Column mapping profile not found" });
+      }
+      
+      await storage.deleteColumnMappingProfile(id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: `Error deleting column mapping profile: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // ===== SETTINGS ROUTES =====
+  
+  // Get settings
+  apiRouter.get("/settings", async (_req: Request, res: Response) => {
+    try {
+      const settings = await storage.getSettings();
+      res.status(200).json(settings);
+    } catch (error) {
+      res.status(500).json({ message: `Error getting settings: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // List the available answer-recognition providers
+  apiRouter.get("/recognition-providers", async (_req: Request, res: Response) => {
+    try {
+      res.status(200).json(listProviders());
+    } catch (error) {
+      res.status(500).json({ message: `Error listing recognition providers: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
+  // Update settings
+  apiRouter.put("/settings", async (req: Request, res: Response) => {
+    try {
+      // Reject providers the server doesn't know about
+      if (req.body.recognitionProvider && !getProvider(req.body.recognitionProvider)) {
+        return res.status(400).json({ message: `Unknown recognition provider "${req.body.recognitionProvider}"` });
+      }
+      
+      const updatedSettings = await storage.updateSettings(req.body);
+      res.status(200).json(updatedSettings);
+    } catch (error) {
+      res.status(500).json({ message: `Error updating settings: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  });
+  
   // Register the API router
   app.use("/api", apiRouter);
   
+  // Pick up processing jobs that were interrupted by a restart
+  jobQueue.resumeUnfinished().catch(error => {
+    console.error("Error resuming processing jobs:", error);
+  });
+  
   // Create and return the HTTP server
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,168 @@
+import { MarkSchemeEntry, RubricCriterionScore } from "@shared/schema";
+import { storage } from "./storage";
+import { getActiveProvider, WrittenAnswerGrade, WrittenAnswerRequest } from "./recognition";
+import type { WrittenGrades } from "./grading";
+
+// Words too common to show that an answer addresses a criterion
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "how", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "their", "this", "to", "was", "were", "what", "when", "which",
+  "why", "with", "answer", "student", "correct", "correctly", "clearly",
+  // Verbs rubrics use to say what an answer should do
+  "name", "names", "identify", "identifies", "mention", "mentions", "explain", "explains", "describe", "describes",
+  "state", "states", "give", "gives", "list", "lists", "show", "shows", "include", "includes", "use", "uses"
+]);
+
+/**
+ * Reduce text to the words that carry its meaning
+ * Words are cut to their first five letters so "produce" and "production" count as the same word
+ * @param text Criterion, model answer or student answer
+ * @returns Lower-cased word stems without stop words
+ */
+function significantWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => word.slice(0, 5));
+}
+
+/**
+ * Share of the key words that appear in an answer
+ * @param keyText Text whose words are being looked for
+ * @param answerWords Significant words of the student's answer
+ * @returns Value from 0 to 1; 0 when the key text has no significant words
+ */
+function coverage(keyText: string, answerWords: Set<string>): number {
+  const keyWords = Array.from(new Set(significantWords(keyText)));
+  if (keyWords.length === 0) {
+    return 0;
+  }
+  return keyWords.filter(word => answerWords.has(word)).length / keyWords.length;
+}
+
+/**
+ * Score a written answer by the words it shares with each rubric criterion
+ * The local stand-in for providers that can't read for meaning; a criterion earns full points
+ * when most of its key words appear, half when some do
+ * @param request The transcribed answer, model answer and rubric
+ * @returns Points awarded per criterion and a justification
+ */
+export function gradeWithKeywords(request: WrittenAnswerRequest): WrittenAnswerGrade {
+  const answerWords = new Set(significantWords(request.answer));
+  const creditFor = (share: number) => share >= 0.6 ? 1 : share >= 0.3 ? 0.5 : 0;
+
+  if (request.rubric.length === 0) {
+    const share = creditFor(coverage(request.modelAnswer, answerWords));
+    return {
+      pointsAwarded: request.points * share,
+      rationale: share === 1
+        ? "Covers the key points of the model answer."
+        : share > 0
+          ? "Covers some of the key points of the model answer."
+          : "Does not cover the key points of the model answer.",
+      criteria: []
+    };
+  }
+
+  const criteria: RubricCriterionScore[] = request.rubric.map(criterion => ({
+    ...criterion,
+    pointsAwarded: criterion.points * creditFor(coverage(criterion.description, answerWords))
+  }));
+  const met = criteria.filter(criterion => criterion.pointsAwarded >= criterion.points);
+  const partial = criteria.filter(criterion => criterion.pointsAwarded > 0 && criterion.pointsAwarded < criterion.points);
+  const missed = criteria.filter(criterion => criterion.pointsAwarded === 0);
+
+  const rationale = [
+    met.length > 0 ? `Meets: ${met.map(criterion => criterion.description).join("; ")}.` : "",
+    partial.length > 0 ? `Partly meets: ${partial.map(criterion => criterion.description).join("; ")}.` : "",
+    missed.length > 0 ? `Missing: ${missed.map(criterion => criterion.description).join("; ")}.` : ""
+  ].filter(Boolean).join(" ");
+
+  return {
+    pointsAwarded: criteria.reduce((sum, criterion) => sum + criterion.pointsAwarded, 0),
+    rationale,
+    criteria
+  };
+}
+
+/**
+ * Score every written answer on a paper against its rubric
+ * Uses the selected recognition provider when it can grade, and the keyword grader otherwise.
+ * Stored grades are reused while the answer they scored and the mark scheme are unchanged, so
+ * re-grading a paper doesn't re-run (or change) the rubric scoring
+ * @param markScheme Mark scheme entries for the test
+ * @param studentAnswers Map of question number to the student's answer
+ * @param submissionId Submission to store the grades against, or null to grade without storing
+ * @returns Points and rationale for each written question that has an answer
+ */
+export async function gradeWrittenAnswers(
+  markScheme: MarkSchemeEntry[],
+  studentAnswers: Record<string, string>,
+  submissionId: number | null
+): Promise<WrittenGrades> {
+  const written = markScheme.filter(entry =>
+    entry.questionType === "written" && !entry.voided && String(studentAnswers[entry.questionNumber.toString()] ?? "").trim() !== ""
+  );
+  if (written.length === 0) {
+    return {};
+  }
+
+  const settings = await storage.getSettings();
+  const provider = getActiveProvider(settings);
+  const storedGrades = submissionId !== null ? await storage.getRubricGrades(submissionId) : [];
+  // A grade given before the mark scheme's latest edit may have used an old rubric
+  const latestVersion = await storage.getLatestMarkSchemeVersion(markScheme[0].testId);
+  const grades: WrittenGrades = {};
+
+  for (const entry of written) {
+    const key = entry.questionNumber.toString();
+    const answer = String(studentAnswers[key]).trim();
+
+    // The latest grade for this question, if it scored the same answer
+    const stored = storedGrades.filter(grade => grade.questionNumber === entry.questionNumber).pop();
+    if (stored && stored.answer === answer && (!latestVersion || stored.createdAt >= latestVersion.createdAt)) {
+      grades[key] = { pointsAwarded: stored.pointsAwarded, rationale: stored.rationale };
+      continue;
+    }
+
+    const request: WrittenAnswerRequest = {
+      questionNumber: entry.questionNumber,
+      answer,
+      modelAnswer: entry.expectedAnswer,
+      rubric: entry.rubric ?? [],
+      points: entry.points
+    };
+
+    let grade: WrittenAnswerGrade;
+    let gradedBy = provider.id;
+    if (provider.gradeWrittenAnswer) {
+      try {
+        grade = await provider.gradeWrittenAnswer(request, settings);
+      } catch (error) {
+        console.error(`Rubric grading with ${provider.name} failed for Q${entry.questionNumber}, using keyword grader:`, error);
+        grade = gradeWithKeywords(request);
+        grade.rationale = `${grade.rationale} (Scored by keyword matching because ${provider.name} was unavailable.)`;
+        gradedBy = "local";
+      }
+    } else {
+      grade = gradeWithKeywords(request);
+      gradedBy = "local";
+    }
+
+    const pointsAwarded = Math.round(Math.min(entry.points, Math.max(0, grade.pointsAwarded)) * 100) / 100;
+    grades[key] = { pointsAwarded, rationale: grade.rationale };
+
+    if (submissionId !== null) {
+      await storage.addRubricGrade({
+        submissionId,
+        questionNumber: entry.questionNumber,
+        answer,
+        pointsAwarded,
+        rationale: grade.rationale,
+        criteria: grade.criteria,
+        gradedBy
+      });
+    }
+  }
+
+  return grades;
+}
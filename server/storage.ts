@@ -1,14 +1,48 @@
 import { 
   MarkSchemeEntry, InsertMarkSchemeEntry, 
   Test, InsertTest, 
+  Class, InsertClass,
+  Student, InsertStudent,
+  Submission, InsertSubmission, SubmissionStatus,
   Page, InsertPage, 
+  TriagePage, InsertTriagePage,
+  Job, InsertJob, JobItem,
+  ReviewItem, InsertReviewItem,
+  AnswerOverride, InsertAnswerOverride,
+  MarkSchemeVersion, InsertMarkSchemeVersion,
+  RubricGrade, InsertRubricGrade,
   Result, InsertResult, 
   Settings, InsertSettings,
+  ColumnMappingProfile, InsertColumnMappingProfile,
+  defaultAnswerRules,
+  defaultScoringPolicy,
+  defaultGradingScale,
   resultItemSchema,
   markSchemeRowSchema,
   ResultItem,
-  MarkSchemeRow
+  MarkSchemeRow,
+  markSchemeEntries,
+  tests,
+  classes,
+  students,
+  submissions,
+  pages,
+  triagePages,
+  jobs,
+  jobItems,
+  reviewItems,
+  answerOverrides,
+  rubricGrades,
+  markSchemeVersions,
+  results,
+  settings,
+  columnMappingProfiles
 } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { createDatabase } from "./db";
+import { gradeAnswers, GradingRules, toWrittenGrades } from "./grading";
 
 // Interface for storage operations
 export interface IStorage {
@@ -16,60 +50,184 @@ export interface IStorage {
   getMarkScheme(testId: number): Promise<MarkSchemeEntry[]>;
   addMarkSchemeEntry(entry: InsertMarkSchemeEntry): Promise<MarkSchemeEntry>;
   addMarkSchemeEntries(entries: InsertMarkSchemeEntry[]): Promise<MarkSchemeEntry[]>;
+  getMarkSchemeEntry(id: number): Promise<MarkSchemeEntry | undefined>;
+  updateMarkSchemeEntry(id: number, updates: Partial<InsertMarkSchemeEntry>): Promise<MarkSchemeEntry | undefined>;
+  deleteMarkSchemeEntry(id: number): Promise<void>;
+  replaceMarkScheme(testId: number, entries: InsertMarkSchemeEntry[]): Promise<MarkSchemeEntry[]>;
+  
+  // Mark scheme version operations
+  // Runs a mark scheme change and the version recording it all-or-nothing, one change per test at a time
+  changeMarkScheme<T>(testId: number, work: (storage: IStorage) => Promise<T>): Promise<T>;
+  // Saves the next version number and the test's recounted totals together
+  commitMarkSchemeVersion(version: Omit<InsertMarkSchemeVersion, "version">, testUpdates: Partial<InsertTest>): Promise<Test | undefined>;
+  getMarkSchemeVersions(testId: number): Promise<MarkSchemeVersion[]>;
+  getLatestMarkSchemeVersion(testId: number): Promise<MarkSchemeVersion | undefined>;
   
   // Test operations
   createTest(test: InsertTest): Promise<Test>;
   getTest(id: number): Promise<Test | undefined>;
+  updateTest(id: number, updates: Partial<InsertTest>): Promise<Test | undefined>;
   getAllTests(): Promise<Test[]>;
   
+  // Class and roster operations
+  createClass(newClass: InsertClass): Promise<Class>;
+  getClass(id: number): Promise<Class | undefined>;
+  getAllClasses(): Promise<Class[]>;
+  addStudents(students: InsertStudent[]): Promise<Student[]>;
+  getStudent(id: number): Promise<Student | undefined>;
+  getStudents(classId: number): Promise<Student[]>;
+  findStudentByNumber(studentNumber: string): Promise<Student | undefined>;
+  
+  // Submission operations
+  createSubmission(submission: InsertSubmission): Promise<Submission>;
+  getSubmission(id: number): Promise<Submission | undefined>;
+  getSubmissions(testId: number): Promise<Submission[]>;
+  updateSubmissionStatus(id: number, status: SubmissionStatus): Promise<Submission>;
+  assignSubmissionStudent(id: number, studentId: number | null): Promise<Submission>;
+  
   // Page operations
   addPage(page: InsertPage): Promise<Page>;
+  getPage(id: number): Promise<Page>;
   getPages(testId: number): Promise<Page[]>;
+  getSubmissionPages(submissionId: number): Promise<Page[]>;
+  deletePage(id: number): Promise<void>;
   updatePageProcessed(id: number, processed: boolean, extractedAnswers?: Record<string, string>): Promise<Page>;
   
+  // Triage queue operations
+  addTriagePage(page: InsertTriagePage): Promise<TriagePage>;
+  getTriagePage(id: number): Promise<TriagePage | undefined>;
+  getTriagePages(): Promise<TriagePage[]>;
+  deleteTriagePage(id: number): Promise<void>;
+  
+  // Job queue operations
+  createJob(job: InsertJob, pageIds: number[]): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getUnfinishedJobs(): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Omit<Job, "id">>): Promise<Job>;
+  getJobItems(jobId: number): Promise<JobItem[]>;
+  updateJobItem(id: number, updates: Partial<Omit<JobItem, "id" | "jobId" | "pageId">>): Promise<JobItem>;
+  
+  // Review queue operations
+  addReviewItems(items: InsertReviewItem[]): Promise<ReviewItem[]>;
+  getReviewItem(id: number): Promise<ReviewItem | undefined>;
+  getSubmissionReviewItems(submissionId: number): Promise<ReviewItem[]>;
+  getOpenReviewItems(): Promise<ReviewItem[]>;
+  resolveReviewItem(id: number, resolvedAnswer: string | null): Promise<ReviewItem>;
+  // Before a page is extracted again: drops its open items and marks its resolved ones superseded
+  supersedePageReviewItems(pageId: number): Promise<void>;
+  
+  // Answer override operations
+  addAnswerOverride(override: InsertAnswerOverride): Promise<AnswerOverride>;
+  getAnswerOverrides(submissionId: number): Promise<AnswerOverride[]>;
+  
+  // Rubric grade operations
+  addRubricGrade(grade: InsertRubricGrade): Promise<RubricGrade>;
+  getRubricGrades(submissionId: number): Promise<RubricGrade[]>;
+  
   // Results operations
   addResult(result: InsertResult): Promise<Result>;
   getResult(testId: number): Promise<Result | undefined>;
   getDetailedResults(testId: number): Promise<ResultItem[]>;
+  getSubmissionResult(submissionId: number): Promise<Result | undefined>;
+  getSubmissionDetailedResults(submissionId: number): Promise<ResultItem[]>;
+  getResults(testId: number): Promise<Result[]>;
+  updateResultScaling(id: number, scaledPercentage: number, letterGrade: string | null): Promise<Result>;
+  
+  // Column mapping profile operations
+  getColumnMappingProfiles(): Promise<ColumnMappingProfile[]>;
+  getColumnMappingProfile(id: number): Promise<ColumnMappingProfile | undefined>;
+  getColumnMappingProfileBySignature(headerSignature: string): Promise<ColumnMappingProfile | undefined>;
+  saveColumnMappingProfile(profile: InsertColumnMappingProfile, headerSignature: string): Promise<ColumnMappingProfile>;
+  deleteColumnMappingProfile(id: number): Promise<void>;
   
   // Settings operations
   getSettings(): Promise<Settings>;
   updateSettings(settings: Partial<InsertSettings>): Promise<Settings>;
 }
 
+// Default recognition settings used until the user saves their own
+const defaultSettings: Settings = {
+  id: 1,
+  answerRecognitionInstructions: "The student has tickets in the correct letter replacing that letter with a tick so whatever letter is missing from the list ABCD that's the answer they have selected that's what you return as their answer. For example A✓CD means they have selected B as their answer",
+  enhancedRecognition: true,
+  confidenceThreshold: 21,
+  temperature: 0.1,
+  topP: 1,
+  recognitionProvider: "openai",
+  processingConcurrency: 2,
+  processingMaxAttempts: 3
+};
+
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private markSchemeEntries: Map<number, MarkSchemeEntry>;
   private tests: Map<number, Test>;
+  private classes: Map<number, Class>;
+  private students: Map<number, Student>;
+  private submissions: Map<number, Submission>;
   private pages: Map<number, Page>;
+  private triagePages: Map<number, TriagePage>;
+  private jobs: Map<number, Job>;
+  private jobItems: Map<number, JobItem>;
+  private reviewItems: Map<number, ReviewItem>;
+  private answerOverrides: Map<number, AnswerOverride>;
+  private markSchemeVersions: Map<number, MarkSchemeVersion>;
+  private rubricGrades: Map<number, RubricGrade>;
   private results: Map<number, Result>;
+  private columnMappingProfiles: Map<number, ColumnMappingProfile>;
   private settings: Settings;
   
   private currentMarkSchemeEntryId: number;
   private currentTestId: number;
+  private currentClassId: number;
+  private currentStudentId: number;
+  private currentSubmissionId: number;
   private currentPageId: number;
+  private currentTriagePageId: number;
+  private currentJobId: number;
+  private currentJobItemId: number;
+  private currentReviewItemId: number;
+  private currentAnswerOverrideId: number;
+  private currentMarkSchemeVersionId: number;
+  private currentRubricGradeId: number;
   private currentResultId: number;
+  private currentColumnMappingProfileId: number;
   
   constructor() {
     this.markSchemeEntries = new Map();
     this.tests = new Map();
+    this.classes = new Map();
+    this.students = new Map();
+    this.submissions = new Map();
     this.pages = new Map();
+    this.triagePages = new Map();
+    this.jobs = new Map();
+    this.jobItems = new Map();
+    this.reviewItems = new Map();
+    this.answerOverrides = new Map();
+    this.markSchemeVersions = new Map();
+    this.rubricGrades = new Map();
     this.results = new Map();
+    this.columnMappingProfiles = new Map();
     
     this.currentMarkSchemeEntryId = 1;
     this.currentTestId = 1;
+    this.currentClassId = 1;
+    this.currentStudentId = 1;
+    this.currentSubmissionId = 1;
     this.currentPageId = 1;
+    this.currentTriagePageId = 1;
+    this.currentJobId = 1;
+    this.currentJobItemId = 1;
+    this.currentReviewItemId = 1;
+    this.currentAnswerOverrideId = 1;
+    this.currentMarkSchemeVersionId = 1;
+    this.currentRubricGradeId = 1;
     this.currentResultId = 1;
+    this.currentColumnMappingProfileId = 1;
     
     // Initialize default settings
-    this.settings = {
-      id: 1,
-      answerRecognitionInstructions: "The student has tickets in the correct letter replacing that letter with a tick so whatever letter is missing from the list ABCD that's the answer they have selected that's what you return as their answer. For example A✓CD means they have selected B as their answer",
-      enhancedRecognition: true,
-      confidenceThreshold: 21,
-      temperature: 0.1,
-      topP: 1
-    };
+    this.settings = { ...defaultSettings };
   }
   
   // Mark scheme operations
@@ -98,6 +256,11 @@ export class MemStorage implements IStorage {
     const sanitizedEntry = {
       ...entry,
       expectedAnswer: expectedAnswer,
+      questionType: entry.questionType ?? "single_choice",
+      tolerance: entry.tolerance ?? null,
+      rubric: entry.rubric ?? null,
+      voided: entry.voided ?? false,
+      bonus: entry.bonus ?? false,
     };
     
     const newEntry: MarkSchemeEntry = { ...sanitizedEntry, id };
@@ -116,10 +279,85 @@ export class MemStorage implements IStorage {
     return results;
   }
   
+  async getMarkSchemeEntry(id: number): Promise<MarkSchemeEntry | undefined> {
+    return this.markSchemeEntries.get(id);
+  }
+  
+  async updateMarkSchemeEntry(id: number, updates: Partial<InsertMarkSchemeEntry>): Promise<MarkSchemeEntry | undefined> {
+    const entry = this.markSchemeEntries.get(id);
+    if (!entry) return undefined;
+    
+    const updatedEntry: MarkSchemeEntry = {
+      ...entry,
+      ...updates,
+      expectedAnswer: updates.expectedAnswer !== undefined ? String(updates.expectedAnswer).trim() : entry.expectedAnswer,
+      questionType: updates.questionType ?? entry.questionType,
+      tolerance: updates.tolerance !== undefined ? updates.tolerance : entry.tolerance,
+      rubric: updates.rubric !== undefined ? updates.rubric : entry.rubric,
+    };
+    this.markSchemeEntries.set(id, updatedEntry);
+    console.log(`Updated mark scheme entry ${id} (Q${updatedEntry.questionNumber}): ${JSON.stringify(updates)}`);
+    return updatedEntry;
+  }
+  
+  async deleteMarkSchemeEntry(id: number): Promise<void> {
+    this.markSchemeEntries.delete(id);
+    console.log(`Deleted mark scheme entry ${id}`);
+  }
+  
+  async replaceMarkScheme(testId: number, entries: InsertMarkSchemeEntry[]): Promise<MarkSchemeEntry[]> {
+    for (const entry of Array.from(this.markSchemeEntries.values())) {
+      if (entry.testId === testId) {
+        this.markSchemeEntries.delete(entry.id);
+      }
+    }
+    console.log(`Replacing mark scheme for test ${testId} with ${entries.length} entries`);
+    return this.addMarkSchemeEntries(entries.map(entry => ({ ...entry, testId })));
+  }
+  
+  // Mark scheme version operations
+  async changeMarkScheme<T>(testId: number, work: (storage: IStorage) => Promise<T>): Promise<T> {
+    // In-memory changes apply as each operation runs; there is nothing to roll back if a later one fails
+    return work(this);
+  }
+  
+  async commitMarkSchemeVersion(version: Omit<InsertMarkSchemeVersion, "version">, testUpdates: Partial<InsertTest>): Promise<Test | undefined> {
+    const latest = await this.getLatestMarkSchemeVersion(version.testId);
+    const id = this.currentMarkSchemeVersionId++;
+    const newVersion: MarkSchemeVersion = {
+      ...version,
+      version: (latest?.version ?? 0) + 1,
+      answerRules: version.answerRules ?? null,
+      scoringPolicy: version.scoringPolicy ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.markSchemeVersions.set(id, newVersion);
+    console.log(`Saved mark scheme version ${newVersion.version} for test ${newVersion.testId}: ${newVersion.summary}`);
+    return this.updateTest(version.testId, testUpdates);
+  }
+  
+  async getMarkSchemeVersions(testId: number): Promise<MarkSchemeVersion[]> {
+    return Array.from(this.markSchemeVersions.values())
+      .filter(version => version.testId === testId)
+      .sort((a, b) => a.version - b.version);
+  }
+  
+  async getLatestMarkSchemeVersion(testId: number): Promise<MarkSchemeVersion | undefined> {
+    const versions = await this.getMarkSchemeVersions(testId);
+    return versions[versions.length - 1];
+  }
+  
   // Test operations
   async createTest(test: InsertTest): Promise<Test> {
     const id = this.currentTestId++;
-    const newTest: Test = { ...test, id };
+    const newTest: Test = {
+      ...test,
+      id,
+      answerRules: test.answerRules ?? defaultAnswerRules,
+      scoringPolicy: test.scoringPolicy ?? defaultScoringPolicy,
+      gradingScale: test.gradingScale ?? defaultGradingScale
+    };
     this.tests.set(id, newTest);
     console.log(`Created new test: ${newTest.name}, ID: ${newTest.id}`);
     return newTest;
@@ -129,16 +367,124 @@ export class MemStorage implements IStorage {
     return this.tests.get(id);
   }
   
+  async updateTest(id: number, updates: Partial<InsertTest>): Promise<Test | undefined> {
+    const test = this.tests.get(id);
+    if (!test) return undefined;
+    
+    const updatedTest: Test = {
+      ...test,
+      ...updates,
+      answerRules: updates.answerRules ?? test.answerRules,
+      scoringPolicy: updates.scoringPolicy ?? test.scoringPolicy,
+      gradingScale: updates.gradingScale ?? test.gradingScale
+    };
+    this.tests.set(id, updatedTest);
+    console.log(`Updated test ${id}: ${JSON.stringify(updates)}`);
+    return updatedTest;
+  }
+  
   async getAllTests(): Promise<Test[]> {
     return Array.from(this.tests.values());
   }
   
+  // Class and roster operations
+  async createClass(newClass: InsertClass): Promise<Class> {
+    const id = this.currentClassId++;
+    const created: Class = { ...newClass, id };
+    this.classes.set(id, created);
+    console.log(`Created class: ${created.name}, ID: ${created.id}`);
+    return created;
+  }
+  
+  async getClass(id: number): Promise<Class | undefined> {
+    return this.classes.get(id);
+  }
+  
+  async getAllClasses(): Promise<Class[]> {
+    return Array.from(this.classes.values());
+  }
+  
+  async addStudents(students: InsertStudent[]): Promise<Student[]> {
+    const added = students.map(student => {
+      const id = this.currentStudentId++;
+      const newStudent: Student = { ...student, id, studentNumber: student.studentNumber ?? "" };
+      this.students.set(id, newStudent);
+      return newStudent;
+    });
+    console.log(`Added ${added.length} students`);
+    return added;
+  }
+  
+  async getStudent(id: number): Promise<Student | undefined> {
+    return this.students.get(id);
+  }
+  
+  async getStudents(classId: number): Promise<Student[]> {
+    return Array.from(this.students.values())
+      .filter(student => student.classId === classId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async findStudentByNumber(studentNumber: string): Promise<Student | undefined> {
+    return Array.from(this.students.values()).find(student => student.studentNumber === studentNumber);
+  }
+  
+  // Submission operations
+  async createSubmission(submission: InsertSubmission): Promise<Submission> {
+    const id = this.currentSubmissionId++;
+    const newSubmission: Submission = {
+      ...submission,
+      id,
+      studentId: submission.studentId ?? null,
+      label: submission.label ?? "",
+      status: "pending",
+      createdAt: new Date()
+    };
+    this.submissions.set(id, newSubmission);
+    console.log(`Created submission ${id} for test ${newSubmission.testId}`);
+    return newSubmission;
+  }
+  
+  async getSubmission(id: number): Promise<Submission | undefined> {
+    return this.submissions.get(id);
+  }
+  
+  async getSubmissions(testId: number): Promise<Submission[]> {
+    return Array.from(this.submissions.values())
+      .filter(submission => submission.testId === testId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateSubmissionStatus(id: number, status: SubmissionStatus): Promise<Submission> {
+    const submission = this.submissions.get(id);
+    if (!submission) {
+      throw new Error(`Submission with id ${id} not found`);
+    }
+    
+    const updatedSubmission: Submission = { ...submission, status };
+    this.submissions.set(id, updatedSubmission);
+    return updatedSubmission;
+  }
+  
+  async assignSubmissionStudent(id: number, studentId: number | null): Promise<Submission> {
+    const submission = this.submissions.get(id);
+    if (!submission) {
+      throw new Error(`Submission with id ${id} not found`);
+    }
+    
+    const updatedSubmission: Submission = { ...submission, studentId };
+    this.submissions.set(id, updatedSubmission);
+    console.log(`Assigned student ${studentId} to submission ${id}`);
+    return updatedSubmission;
+  }
+  
   // Page operations
   async addPage(page: InsertPage): Promise<Page> {
     const id = this.currentPageId++;
     const newPage: Page = { 
       ...page, 
       id, 
+      submissionId: page.submissionId ?? null,
       processed: false, 
       extractedAnswers: {} 
     };
@@ -169,6 +515,17 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.pageNumber - b.pageNumber);
   }
   
+  async getSubmissionPages(submissionId: number): Promise<Page[]> {
+    return Array.from(this.pages.values())
+      .filter(page => page.submissionId === submissionId)
+      .sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+  
+  async deletePage(id: number): Promise<void> {
+    this.pages.delete(id);
+    console.log(`Deleted page ${id}`);
+  }
+  
   async updatePageProcessed(id: number, processed: boolean, extractedAnswers?: Record<string, string>): Promise<Page> {
     const page = this.pages.get(id);
     if (!page) {
@@ -189,10 +546,213 @@ export class MemStorage implements IStorage {
     return updatedPage;
   }
   
+  // Triage queue operations
+  async addTriagePage(page: InsertTriagePage): Promise<TriagePage> {
+    const id = this.currentTriagePageId++;
+    const newTriagePage: TriagePage = {
+      ...page,
+      id,
+      testId: page.testId ?? null,
+      pageNumber: page.pageNumber ?? null,
+      studentNumber: page.studentNumber ?? null,
+      createdAt: new Date()
+    };
+    this.triagePages.set(id, newTriagePage);
+    console.log(`Added page ${id} to the triage queue: ${newTriagePage.reason}`);
+    return newTriagePage;
+  }
+  
+  async getTriagePage(id: number): Promise<TriagePage | undefined> {
+    return this.triagePages.get(id);
+  }
+  
+  async getTriagePages(): Promise<TriagePage[]> {
+    return Array.from(this.triagePages.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async deleteTriagePage(id: number): Promise<void> {
+    this.triagePages.delete(id);
+    console.log(`Removed page ${id} from the triage queue`);
+  }
+  
+  // Job queue operations
+  async createJob(job: InsertJob, pageIds: number[]): Promise<Job> {
+    const id = this.currentJobId++;
+    const newJob: Job = {
+      ...job,
+      id,
+      submissionId: job.submissionId ?? null,
+      status: "queued",
+      completedItems: 0,
+      failedItems: 0,
+      createdAt: new Date(),
+      finishedAt: null
+    };
+    this.jobs.set(id, newJob);
+    
+    for (const pageId of pageIds) {
+      const itemId = this.currentJobItemId++;
+      this.jobItems.set(itemId, { id: itemId, jobId: id, pageId, status: "queued", attempts: 0, error: null });
+    }
+    console.log(`Created job ${id} with ${pageIds.length} pages`);
+    return newJob;
+  }
+  
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+  
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateJob(id: number, updates: Partial<Omit<Job, "id">>): Promise<Job> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+    
+    const updatedJob: Job = { ...job, ...updates };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return Array.from(this.jobItems.values())
+      .filter(item => item.jobId === jobId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateJobItem(id: number, updates: Partial<Omit<JobItem, "id" | "jobId" | "pageId">>): Promise<JobItem> {
+    const item = this.jobItems.get(id);
+    if (!item) {
+      throw new Error(`Job item with id ${id} not found`);
+    }
+    
+    const updatedItem: JobItem = { ...item, ...updates };
+    this.jobItems.set(id, updatedItem);
+    return updatedItem;
+  }
+  
+  // Review queue operations
+  async addReviewItems(items: InsertReviewItem[]): Promise<ReviewItem[]> {
+    const added = items.map(item => {
+      const id = this.currentReviewItemId++;
+      const newItem: ReviewItem = {
+        ...item,
+        id,
+        pageId: item.pageId ?? null,
+        questionNumber: item.questionNumber ?? null,
+        extractedAnswer: item.extractedAnswer ?? "",
+        confidence: item.confidence ?? null,
+        status: "open",
+        resolvedAnswer: null,
+        createdAt: new Date(),
+        resolvedAt: null
+      };
+      this.reviewItems.set(id, newItem);
+      return newItem;
+    });
+    console.log(`Flagged ${added.length} items for review`);
+    return added;
+  }
+  
+  async getReviewItem(id: number): Promise<ReviewItem | undefined> {
+    return this.reviewItems.get(id);
+  }
+  
+  async getSubmissionReviewItems(submissionId: number): Promise<ReviewItem[]> {
+    return Array.from(this.reviewItems.values())
+      .filter(item => item.submissionId === submissionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getOpenReviewItems(): Promise<ReviewItem[]> {
+    return Array.from(this.reviewItems.values())
+      .filter(item => item.status === "open")
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async resolveReviewItem(id: number, resolvedAnswer: string | null): Promise<ReviewItem> {
+    const item = this.reviewItems.get(id);
+    if (!item) {
+      throw new Error(`Review item with id ${id} not found`);
+    }
+    
+    const updatedItem: ReviewItem = { ...item, status: "resolved", resolvedAnswer, resolvedAt: new Date() };
+    this.reviewItems.set(id, updatedItem);
+    console.log(`Resolved review item ${id}`);
+    return updatedItem;
+  }
+  
+  async supersedePageReviewItems(pageId: number): Promise<void> {
+    for (const item of Array.from(this.reviewItems.values())) {
+      if (item.pageId !== pageId) {
+        continue;
+      }
+      if (item.status === "open") {
+        this.reviewItems.delete(item.id);
+      } else if (item.status === "resolved") {
+        this.reviewItems.set(item.id, { ...item, status: "superseded" });
+      }
+    }
+  }
+  
+  // Answer override operations
+  async addAnswerOverride(override: InsertAnswerOverride): Promise<AnswerOverride> {
+    const id = this.currentAnswerOverrideId++;
+    const newOverride: AnswerOverride = {
+      ...override,
+      id,
+      previousAnswer: override.previousAnswer ?? "",
+      reason: override.reason ?? "",
+      createdAt: new Date()
+    };
+    this.answerOverrides.set(id, newOverride);
+    console.log(`${newOverride.changedBy} changed Q${newOverride.questionNumber} of submission ${newOverride.submissionId} from "${newOverride.previousAnswer}" to "${newOverride.newAnswer}"`);
+    return newOverride;
+  }
+  
+  async getAnswerOverrides(submissionId: number): Promise<AnswerOverride[]> {
+    return Array.from(this.answerOverrides.values())
+      .filter(override => override.submissionId === submissionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Rubric grade operations
+  async addRubricGrade(grade: InsertRubricGrade): Promise<RubricGrade> {
+    const id = this.currentRubricGradeId++;
+    const newGrade: RubricGrade = {
+      ...grade,
+      id,
+      criteria: grade.criteria ?? [],
+      createdAt: new Date()
+    };
+    this.rubricGrades.set(id, newGrade);
+    console.log(`Rubric grade for Q${newGrade.questionNumber} of submission ${newGrade.submissionId}: ${newGrade.pointsAwarded} points (${newGrade.gradedBy})`);
+    return newGrade;
+  }
+  
+  async getRubricGrades(submissionId: number): Promise<RubricGrade[]> {
+    return Array.from(this.rubricGrades.values())
+      .filter(grade => grade.submissionId === submissionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
   // Results operations
   async addResult(result: InsertResult): Promise<Result> {
     const id = this.currentResultId++;
-    const newResult: Result = { ...result, id };
+    const newResult: Result = {
+      ...result,
+      id,
+      submissionId: result.submissionId ?? null,
+      markSchemeVersion: result.markSchemeVersion ?? null,
+      scaledPercentage: result.scaledPercentage ?? null,
+      letterGrade: result.letterGrade ?? null,
+      items: result.items ?? null
+    };
     this.results.set(id, newResult);
     console.log("Added result:", JSON.stringify(newResult, null, 2));
     return newResult;
@@ -211,7 +771,11 @@ export class MemStorage implements IStorage {
       return [];
     }
     
-    const markScheme = await this.getMarkScheme(testId);
+    if (result.items) {
+      return result.items;
+    }
+    
+    const { markScheme, rules } = await this.getResultGrading(result);
     console.log('Mark Scheme for detailed results:', JSON.stringify(markScheme, null, 2));
     
     if (markScheme.length === 0) {
@@ -219,27 +783,99 @@ export class MemStorage implements IStorage {
       return [];
     }
     
-    const detailedResults = markScheme.map(entry => {
-      const studentAnswer = result.studentAnswers[entry.questionNumber.toString()] || '';
-      const expectedAnswer = String(entry.expectedAnswer || "").trim();
-      const correct = studentAnswer.toUpperCase() === expectedAnswer.toUpperCase();
-      const earnedPoints = correct ? entry.points : 0;
-      
-      const resultItem = {
-        questionNumber: entry.questionNumber,
-        studentAnswer,
-        expectedAnswer,
-        points: entry.points,
-        earnedPoints,
-        correct
-      };
-      
-      console.log(`Result item for question ${entry.questionNumber}:`, JSON.stringify(resultItem, null, 2));
-      
-      return resultItem;
-    });
+    const { items } = gradeAnswers(testId, markScheme, result.studentAnswers, rules);
+    console.log(`Graded ${items.length} result items for test ${testId}`);
+    
+    return items;
+  }
+  
+  async getSubmissionResult(submissionId: number): Promise<Result | undefined> {
+    // A submission can be re-graded, so the most recent result wins
+    return Array.from(this.results.values())
+      .filter(result => result.submissionId === submissionId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async getSubmissionDetailedResults(submissionId: number): Promise<ResultItem[]> {
+    const result = await this.getSubmissionResult(submissionId);
+    if (!result) {
+      console.log(`No result found for submission ${submissionId}`);
+      return [];
+    }
+    
+    if (result.items) {
+      return result.items;
+    }
+    
+    // Results stored before their breakdown was kept are re-graded against the version they were graded with
+    const { markScheme, rules } = await this.getResultGrading(result);
+    const writtenGrades = toWrittenGrades(await this.getRubricGrades(submissionId));
+    return gradeAnswers(result.testId, markScheme, result.studentAnswers, rules, writtenGrades).items;
+  }
+  
+  /**
+   * Get the mark scheme and rules a result was graded against
+   * @param result Stored result
+   * @returns Its recorded version's entries and rules; the test's current ones for whatever wasn't recorded
+   */
+  private async getResultGrading(result: Result): Promise<{ markScheme: MarkSchemeEntry[]; rules: GradingRules }> {
+    const version = (await this.getMarkSchemeVersions(result.testId))
+      .find(candidate => candidate.version === result.markSchemeVersion);
+    const test = await this.getTest(result.testId);
+    return {
+      markScheme: version?.entries ?? await this.getMarkScheme(result.testId),
+      rules: {
+        answerRules: version?.answerRules ?? test?.answerRules,
+        scoringPolicy: version?.scoringPolicy ?? test?.scoringPolicy
+      }
+    };
+  }
+  
+  async getResults(testId: number): Promise<Result[]> {
+    return Array.from(this.results.values())
+      .filter(result => result.testId === testId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateResultScaling(id: number, scaledPercentage: number, letterGrade: string | null): Promise<Result> {
+    const result = this.results.get(id);
+    if (!result) {
+      throw new Error(`Result with id ${id} not found`);
+    }
+    
+    const updatedResult: Result = { ...result, scaledPercentage, letterGrade };
+    this.results.set(id, updatedResult);
+    return updatedResult;
+  }
+  
+  // Column mapping profile operations
+  async getColumnMappingProfiles(): Promise<ColumnMappingProfile[]> {
+    return Array.from(this.columnMappingProfiles.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getColumnMappingProfile(id: number): Promise<ColumnMappingProfile | undefined> {
+    return this.columnMappingProfiles.get(id);
+  }
+  
+  async getColumnMappingProfileBySignature(headerSignature: string): Promise<ColumnMappingProfile | undefined> {
+    return Array.from(this.columnMappingProfiles.values()).find(profile => profile.headerSignature === headerSignature);
+  }
+  
+  async saveColumnMappingProfile(profile: InsertColumnMappingProfile, headerSignature: string): Promise<ColumnMappingProfile> {
+    // One profile per set of headers: saving again replaces the mapping
+    const existing = await this.getColumnMappingProfileBySignature(headerSignature);
+    const now = new Date();
+    const saved: ColumnMappingProfile = existing
+      ? { ...existing, ...profile, updatedAt: now }
+      : { ...profile, id: this.currentColumnMappingProfileId++, headerSignature, createdAt: now, updatedAt: now };
     
-    return detailedResults;
+    this.columnMappingProfiles.set(saved.id, saved);
+    console.log(`Saved column mapping profile "${saved.name}" (${existing ? "updated" : "new"})`);
+    return saved;
+  }
+  
+  async deleteColumnMappingProfile(id: number): Promise<void> {
+    this.columnMappingProfiles.delete(id);
   }
   
   // Settings operations
@@ -253,5 +889,637 @@ export class MemStorage implements IStorage {
   }
 }
 
+// Any Postgres-flavoured Drizzle database (Neon, node-postgres, pglite) bound to our schema
+export type StorageDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// Postgres storage implementation backed by Drizzle
+export class DrizzleStorage implements IStorage {
+  constructor(private db: StorageDatabase) {}
+  
+  // Mark scheme operations
+  async getMarkScheme(testId: number): Promise<MarkSchemeEntry[]> {
+    return this.db
+      .select()
+      .from(markSchemeEntries)
+      .where(eq(markSchemeEntries.testId, testId))
+      .orderBy(asc(markSchemeEntries.questionNumber));
+  }
+  
+  async addMarkSchemeEntry(entry: InsertMarkSchemeEntry): Promise<MarkSchemeEntry> {
+    const [newEntry] = await this.addMarkSchemeEntries([entry]);
+    return newEntry;
+  }
+  
+  async addMarkSchemeEntries(entries: InsertMarkSchemeEntry[], db: StorageDatabase = this.db): Promise<MarkSchemeEntry[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    
+    const sanitizedEntries = entries.map(entry => {
+      // Same normalization as MemStorage: trim and drop literal "undefined" answers
+      let expectedAnswer = String(entry.expectedAnswer || "").trim();
+      if (expectedAnswer.toLowerCase() === "undefined") {
+        expectedAnswer = "";
+      }
+      return { ...entry, expectedAnswer };
+    });
+    
+    const inserted = await db.insert(markSchemeEntries).values(sanitizedEntries).returning();
+    console.log(`Added ${inserted.length} mark scheme entries`);
+    return inserted;
+  }
+  
+  async getMarkSchemeEntry(id: number): Promise<MarkSchemeEntry | undefined> {
+    const [entry] = await this.db.select().from(markSchemeEntries).where(eq(markSchemeEntries.id, id));
+    return entry;
+  }
+  
+  async updateMarkSchemeEntry(id: number, updates: Partial<InsertMarkSchemeEntry>): Promise<MarkSchemeEntry | undefined> {
+    const [updatedEntry] = await this.db
+      .update(markSchemeEntries)
+      .set(updates.expectedAnswer !== undefined ? { ...updates, expectedAnswer: String(updates.expectedAnswer).trim() } : updates)
+      .where(eq(markSchemeEntries.id, id))
+      .returning();
+    if (updatedEntry) {
+      console.log(`Updated mark scheme entry ${id} (Q${updatedEntry.questionNumber}): ${JSON.stringify(updates)}`);
+    }
+    return updatedEntry;
+  }
+  
+  async deleteMarkSchemeEntry(id: number): Promise<void> {
+    await this.db.delete(markSchemeEntries).where(eq(markSchemeEntries.id, id));
+    console.log(`Deleted mark scheme entry ${id}`);
+  }
+  
+  async replaceMarkScheme(testId: number, entries: InsertMarkSchemeEntry[]): Promise<MarkSchemeEntry[]> {
+    console.log(`Replacing mark scheme for test ${testId} with ${entries.length} entries`);
+    // If the insert fails the delete is rolled back, so the test keeps its old mark scheme
+    return this.db.transaction(async tx => {
+      await tx.delete(markSchemeEntries).where(eq(markSchemeEntries.testId, testId));
+      return this.addMarkSchemeEntries(entries.map(entry => ({ ...entry, testId })), tx);
+    });
+  }
+  
+  // Mark scheme version operations
+  async changeMarkScheme<T>(testId: number, work: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(async tx => {
+      // Holding the test's row makes a concurrent change to the same test wait until this one commits, so it
+      // reads the mark scheme this change leaves behind and numbers its version after this one
+      await tx.select({ id: tests.id }).from(tests).where(eq(tests.id, testId)).for("update");
+      return work(new DrizzleStorage(tx));
+    });
+  }
+  
+  async commitMarkSchemeVersion(version: Omit<InsertMarkSchemeVersion, "version">, testUpdates: Partial<InsertTest>): Promise<Test | undefined> {
+    return this.db.transaction(async tx => {
+      const [latest] = await tx
+        .select({ version: markSchemeVersions.version })
+        .from(markSchemeVersions)
+        .where(eq(markSchemeVersions.testId, version.testId))
+        .orderBy(desc(markSchemeVersions.version))
+        .limit(1);
+      const [newVersion] = await tx
+        .insert(markSchemeVersions)
+        .values({ ...version, version: (latest?.version ?? 0) + 1 })
+        .returning();
+      const [updatedTest] = await tx
+        .update(tests)
+        .set(testUpdates)
+        .where(eq(tests.id, version.testId))
+        .returning();
+      console.log(`Saved mark scheme version ${newVersion.version} for test ${newVersion.testId}: ${newVersion.summary}`);
+      return updatedTest;
+    });
+  }
+  
+  async getMarkSchemeVersions(testId: number): Promise<MarkSchemeVersion[]> {
+    return this.db
+      .select()
+      .from(markSchemeVersions)
+      .where(eq(markSchemeVersions.testId, testId))
+      .orderBy(asc(markSchemeVersions.version));
+  }
+  
+  async getLatestMarkSchemeVersion(testId: number): Promise<MarkSchemeVersion | undefined> {
+    const [version] = await this.db
+      .select()
+      .from(markSchemeVersions)
+      .where(eq(markSchemeVersions.testId, testId))
+      .orderBy(desc(markSchemeVersions.version))
+      .limit(1);
+    return version;
+  }
+  
+  // Test operations
+  async createTest(test: InsertTest): Promise<Test> {
+    const [newTest] = await this.db.insert(tests).values(test).returning();
+    console.log(`Created new test: ${newTest.name}, ID: ${newTest.id}`);
+    return newTest;
+  }
+  
+  async getTest(id: number): Promise<Test | undefined> {
+    const [test] = await this.db.select().from(tests).where(eq(tests.id, id));
+    return test;
+  }
+  
+  async updateTest(id: number, updates: Partial<InsertTest>): Promise<Test | undefined> {
+    const [updatedTest] = await this.db
+      .update(tests)
+      .set(updates)
+      .where(eq(tests.id, id))
+      .returning();
+    if (updatedTest) {
+      console.log(`Updated test ${id}: ${JSON.stringify(updates)}`);
+    }
+    return updatedTest;
+  }
+  
+  async getAllTests(): Promise<Test[]> {
+    return this.db.select().from(tests).orderBy(asc(tests.id));
+  }
+  
+  // Class and roster operations
+  async createClass(newClass: InsertClass): Promise<Class> {
+    const [created] = await this.db.insert(classes).values(newClass).returning();
+    console.log(`Created class: ${created.name}, ID: ${created.id}`);
+    return created;
+  }
+  
+  async getClass(id: number): Promise<Class | undefined> {
+    const [found] = await this.db.select().from(classes).where(eq(classes.id, id));
+    return found;
+  }
+  
+  async getAllClasses(): Promise<Class[]> {
+    return this.db.select().from(classes).orderBy(asc(classes.id));
+  }
+  
+  async addStudents(newStudents: InsertStudent[]): Promise<Student[]> {
+    if (newStudents.length === 0) {
+      return [];
+    }
+    
+    const added = await this.db.insert(students).values(newStudents).returning();
+    console.log(`Added ${added.length} students`);
+    return added;
+  }
+  
+  async getStudent(id: number): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.id, id));
+    return student;
+  }
+  
+  async getStudents(classId: number): Promise<Student[]> {
+    return this.db
+      .select()
+      .from(students)
+      .where(eq(students.classId, classId))
+      .orderBy(asc(students.name));
+  }
+  
+  async findStudentByNumber(studentNumber: string): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.studentNumber, studentNumber));
+    return student;
+  }
+  
+  // Submission operations
+  async createSubmission(submission: InsertSubmission): Promise<Submission> {
+    const [newSubmission] = await this.db.insert(submissions).values(submission).returning();
+    console.log(`Created submission ${newSubmission.id} for test ${newSubmission.testId}`);
+    return newSubmission;
+  }
+  
+  async getSubmission(id: number): Promise<Submission | undefined> {
+    const [submission] = await this.db.select().from(submissions).where(eq(submissions.id, id));
+    return submission;
+  }
+  
+  async getSubmissions(testId: number): Promise<Submission[]> {
+    return this.db
+      .select()
+      .from(submissions)
+      .where(eq(submissions.testId, testId))
+      .orderBy(asc(submissions.id));
+  }
+  
+  async updateSubmissionStatus(id: number, status: SubmissionStatus): Promise<Submission> {
+    const [updatedSubmission] = await this.db
+      .update(submissions)
+      .set({ status })
+      .where(eq(submissions.id, id))
+      .returning();
+    
+    if (!updatedSubmission) {
+      throw new Error(`Submission with id ${id} not found`);
+    }
+    return updatedSubmission;
+  }
+  
+  async assignSubmissionStudent(id: number, studentId: number | null): Promise<Submission> {
+    const [updatedSubmission] = await this.db
+      .update(submissions)
+      .set({ studentId })
+      .where(eq(submissions.id, id))
+      .returning();
+    
+    if (!updatedSubmission) {
+      throw new Error(`Submission with id ${id} not found`);
+    }
+    return updatedSubmission;
+  }
+  
+  // Page operations
+  async addPage(page: InsertPage): Promise<Page> {
+    const [newPage] = await this.db
+      .insert(pages)
+      .values({ ...page, processed: false, extractedAnswers: {} })
+      .returning();
+    console.log(`Added page ${newPage.pageNumber} for test ${newPage.testId}`);
+    return newPage;
+  }
+  
+  async getPage(id: number): Promise<Page> {
+    const [page] = await this.db.select().from(pages).where(eq(pages.id, id));
+    if (!page) {
+      throw new Error(`Page with id ${id} not found`);
+    }
+    return page;
+  }
+  
+  async getPages(testId: number): Promise<Page[]> {
+    // If testId is 0 or negative, return all pages
+    if (testId <= 0) {
+      return this.db.select().from(pages).orderBy(asc(pages.id));
+    }
+    
+    return this.db
+      .select()
+      .from(pages)
+      .where(eq(pages.testId, testId))
+      .orderBy(asc(pages.pageNumber));
+  }
+  
+  async getSubmissionPages(submissionId: number): Promise<Page[]> {
+    return this.db
+      .select()
+      .from(pages)
+      .where(eq(pages.submissionId, submissionId))
+      .orderBy(asc(pages.pageNumber));
+  }
+  
+  async deletePage(id: number): Promise<void> {
+    await this.db.delete(pages).where(eq(pages.id, id));
+    console.log(`Deleted page ${id}`);
+  }
+  
+  async updatePageProcessed(id: number, processed: boolean, extractedAnswers?: Record<string, string>): Promise<Page> {
+    const [updatedPage] = await this.db
+      .update(pages)
+      .set(extractedAnswers ? { processed, extractedAnswers } : { processed })
+      .where(eq(pages.id, id))
+      .returning();
+    
+    if (!updatedPage) {
+      throw new Error(`Page with id ${id} not found`);
+    }
+    
+    console.log(`Updated page ${id} processed status to ${processed}`);
+    return updatedPage;
+  }
+  
+  // Triage queue operations
+  async addTriagePage(page: InsertTriagePage): Promise<TriagePage> {
+    const [newTriagePage] = await this.db.insert(triagePages).values(page).returning();
+    console.log(`Added page ${newTriagePage.id} to the triage queue: ${newTriagePage.reason}`);
+    return newTriagePage;
+  }
+  
+  async getTriagePage(id: number): Promise<TriagePage | undefined> {
+    const [page] = await this.db.select().from(triagePages).where(eq(triagePages.id, id));
+    return page;
+  }
+  
+  async getTriagePages(): Promise<TriagePage[]> {
+    return this.db.select().from(triagePages).orderBy(asc(triagePages.id));
+  }
+  
+  async deleteTriagePage(id: number): Promise<void> {
+    await this.db.delete(triagePages).where(eq(triagePages.id, id));
+    console.log(`Removed page ${id} from the triage queue`);
+  }
+  
+  // Job queue operations
+  async createJob(job: InsertJob, pageIds: number[]): Promise<Job> {
+    const [newJob] = await this.db.insert(jobs).values(job).returning();
+    if (pageIds.length > 0) {
+      await this.db.insert(jobItems).values(pageIds.map(pageId => ({ jobId: newJob.id, pageId })));
+    }
+    console.log(`Created job ${newJob.id} with ${pageIds.length} pages`);
+    return newJob;
+  }
+  
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+  
+  async getUnfinishedJobs(): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.status, ["queued", "running"]))
+      .orderBy(asc(jobs.id));
+  }
+  
+  async updateJob(id: number, updates: Partial<Omit<Job, "id">>): Promise<Job> {
+    const [updatedJob] = await this.db
+      .update(jobs)
+      .set(updates)
+      .where(eq(jobs.id, id))
+      .returning();
+    
+    if (!updatedJob) {
+      throw new Error(`Job with id ${id} not found`);
+    }
+    return updatedJob;
+  }
+  
+  async getJobItems(jobId: number): Promise<JobItem[]> {
+    return this.db
+      .select()
+      .from(jobItems)
+      .where(eq(jobItems.jobId, jobId))
+      .orderBy(asc(jobItems.id));
+  }
+  
+  async updateJobItem(id: number, updates: Partial<Omit<JobItem, "id" | "jobId" | "pageId">>): Promise<JobItem> {
+    const [updatedItem] = await this.db
+      .update(jobItems)
+      .set(updates)
+      .where(eq(jobItems.id, id))
+      .returning();
+    
+    if (!updatedItem) {
+      throw new Error(`Job item with id ${id} not found`);
+    }
+    return updatedItem;
+  }
+  
+  // Review queue operations
+  async addReviewItems(items: InsertReviewItem[]): Promise<ReviewItem[]> {
+    if (items.length === 0) {
+      return [];
+    }
+    
+    const added = await this.db.insert(reviewItems).values(items).returning();
+    console.log(`Flagged ${added.length} items for review`);
+    return added;
+  }
+  
+  async getReviewItem(id: number): Promise<ReviewItem | undefined> {
+    const [item] = await this.db.select().from(reviewItems).where(eq(reviewItems.id, id));
+    return item;
+  }
+  
+  async getSubmissionReviewItems(submissionId: number): Promise<ReviewItem[]> {
+    return this.db
+      .select()
+      .from(reviewItems)
+      .where(eq(reviewItems.submissionId, submissionId))
+      .orderBy(asc(reviewItems.id));
+  }
+  
+  async getOpenReviewItems(): Promise<ReviewItem[]> {
+    return this.db
+      .select()
+      .from(reviewItems)
+      .where(eq(reviewItems.status, "open"))
+      .orderBy(asc(reviewItems.id));
+  }
+  
+  async resolveReviewItem(id: number, resolvedAnswer: string | null): Promise<ReviewItem> {
+    const [updatedItem] = await this.db
+      .update(reviewItems)
+      .set({ status: "resolved", resolvedAnswer, resolvedAt: new Date() })
+      .where(eq(reviewItems.id, id))
+      .returning();
+    
+    if (!updatedItem) {
+      throw new Error(`Review item with id ${id} not found`);
+    }
+    console.log(`Resolved review item ${id}`);
+    return updatedItem;
+  }
+  
+  async supersedePageReviewItems(pageId: number): Promise<void> {
+    await this.db.transaction(async tx => {
+      await tx
+        .delete(reviewItems)
+        .where(and(eq(reviewItems.pageId, pageId), eq(reviewItems.status, "open")));
+      await tx
+        .update(reviewItems)
+        .set({ status: "superseded" })
+        .where(and(eq(reviewItems.pageId, pageId), eq(reviewItems.status, "resolved")));
+    });
+  }
+  
+  // Answer override operations
+  async addAnswerOverride(override: InsertAnswerOverride): Promise<AnswerOverride> {
+    const [newOverride] = await this.db.insert(answerOverrides).values(override).returning();
+    console.log(`${newOverride.changedBy} changed Q${newOverride.questionNumber} of submission ${newOverride.submissionId} from "${newOverride.previousAnswer}" to "${newOverride.newAnswer}"`);
+    return newOverride;
+  }
+  
+  async getAnswerOverrides(submissionId: number): Promise<AnswerOverride[]> {
+    return this.db
+      .select()
+      .from(answerOverrides)
+      .where(eq(answerOverrides.submissionId, submissionId))
+      .orderBy(asc(answerOverrides.id));
+  }
+  
+  // Rubric grade operations
+  async addRubricGrade(grade: InsertRubricGrade): Promise<RubricGrade> {
+    const [newGrade] = await this.db.insert(rubricGrades).values(grade).returning();
+    console.log(`Rubric grade for Q${newGrade.questionNumber} of submission ${newGrade.submissionId}: ${newGrade.pointsAwarded} points (${newGrade.gradedBy})`);
+    return newGrade;
+  }
+  
+  async getRubricGrades(submissionId: number): Promise<RubricGrade[]> {
+    return this.db
+      .select()
+      .from(rubricGrades)
+      .where(eq(rubricGrades.submissionId, submissionId))
+      .orderBy(asc(rubricGrades.id));
+  }
+  
+  // Results operations
+  async addResult(result: InsertResult): Promise<Result> {
+    const [newResult] = await this.db.insert(results).values(result).returning();
+    console.log(`Added result ${newResult.id} for test ${newResult.testId}`);
+    return newResult;
+  }
+  
+  async getResult(testId: number): Promise<Result | undefined> {
+    const [result] = await this.db
+      .select()
+      .from(results)
+      .where(eq(results.testId, testId))
+      .orderBy(asc(results.id))
+      .limit(1);
+    return result;
+  }
+  
+  async getDetailedResults(testId: number): Promise<ResultItem[]> {
+    const result = await this.getResult(testId);
+    if (!result) {
+      return [];
+    }
+    
+    if (result.items) {
+      return result.items;
+    }
+    
+    const { markScheme, rules } = await this.getResultGrading(result);
+    return gradeAnswers(testId, markScheme, result.studentAnswers, rules).items;
+  }
+  
+  async getSubmissionResult(submissionId: number): Promise<Result | undefined> {
+    // A submission can be re-graded, so the most recent result wins
+    const [result] = await this.db
+      .select()
+      .from(results)
+      .where(eq(results.submissionId, submissionId))
+      .orderBy(desc(results.id))
+      .limit(1);
+    return result;
+  }
+  
+  async getSubmissionDetailedResults(submissionId: number): Promise<ResultItem[]> {
+    const result = await this.getSubmissionResult(submissionId);
+    if (!result) {
+      return [];
+    }
+    
+    if (result.items) {
+      return result.items;
+    }
+    
+    // Results stored before their breakdown was kept are re-graded against the version they were graded with
+    const { markScheme, rules } = await this.getResultGrading(result);
+    const writtenGrades = toWrittenGrades(await this.getRubricGrades(submissionId));
+    return gradeAnswers(result.testId, markScheme, result.studentAnswers, rules, writtenGrades).items;
+  }
+  
+  /**
+   * Get the mark scheme and rules a result was graded against
+   * @param result Stored result
+   * @returns Its recorded version's entries and rules; the test's current ones for whatever wasn't recorded
+   */
+  private async getResultGrading(result: Result): Promise<{ markScheme: MarkSchemeEntry[]; rules: GradingRules }> {
+    const version = (await this.getMarkSchemeVersions(result.testId))
+      .find(candidate => candidate.version === result.markSchemeVersion);
+    const test = await this.getTest(result.testId);
+    return {
+      markScheme: version?.entries ?? await this.getMarkScheme(result.testId),
+      rules: {
+        answerRules: version?.answerRules ?? test?.answerRules,
+        scoringPolicy: version?.scoringPolicy ?? test?.scoringPolicy
+      }
+    };
+  }
+  
+  async getResults(testId: number): Promise<Result[]> {
+    return this.db
+      .select()
+      .from(results)
+      .where(eq(results.testId, testId))
+      .orderBy(asc(results.id));
+  }
+  
+  async updateResultScaling(id: number, scaledPercentage: number, letterGrade: string | null): Promise<Result> {
+    const [updatedResult] = await this.db
+      .update(results)
+      .set({ scaledPercentage, letterGrade })
+      .where(eq(results.id, id))
+      .returning();
+    
+    if (!updatedResult) {
+      throw new Error(`Result with id ${id} not found`);
+    }
+    return updatedResult;
+  }
+  
+  // Column mapping profile operations
+  async getColumnMappingProfiles(): Promise<ColumnMappingProfile[]> {
+    return this.db.select().from(columnMappingProfiles).orderBy(asc(columnMappingProfiles.name));
+  }
+  
+  async getColumnMappingProfile(id: number): Promise<ColumnMappingProfile | undefined> {
+    const [profile] = await this.db.select().from(columnMappingProfiles).where(eq(columnMappingProfiles.id, id));
+    return profile;
+  }
+  
+  async getColumnMappingProfileBySignature(headerSignature: string): Promise<ColumnMappingProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(columnMappingProfiles)
+      .where(eq(columnMappingProfiles.headerSignature, headerSignature));
+    return profile;
+  }
+  
+  async saveColumnMappingProfile(profile: InsertColumnMappingProfile, headerSignature: string): Promise<ColumnMappingProfile> {
+    // One profile per set of headers: saving again replaces the mapping
+    const [saved] = await this.db
+      .insert(columnMappingProfiles)
+      .values({ ...profile, headerSignature })
+      .onConflictDoUpdate({
+        target: columnMappingProfiles.headerSignature,
+        set: { ...profile, updatedAt: new Date() }
+      })
+      .returning();
+    console.log(`Saved column mapping profile "${saved.name}"`);
+    return saved;
+  }
+  
+  async deleteColumnMappingProfile(id: number): Promise<void> {
+    await this.db.delete(columnMappingProfiles).where(eq(columnMappingProfiles.id, id));
+  }
+  
+  // Settings operations
+  async getSettings(): Promise<Settings> {
+    const [existing] = await this.db.select().from(settings).orderBy(asc(settings.id)).limit(1);
+    if (existing) {
+      return existing;
+    }
+    
+    // First run against an empty database: seed the default settings row
+    const { id: _id, ...defaults } = defaultSettings;
+    const [created] = await this.db.insert(settings).values(defaults).returning();
+    return created;
+  }
+  
+  async updateSettings(updates: Partial<InsertSettings>): Promise<Settings> {
+    const current = await this.getSettings();
+    const [updated] = await this.db
+      .update(settings)
+      .set(updates)
+      .where(eq(settings.id, current.id))
+      .returning();
+    return updated;
+  }
+}
+
+// Use Postgres when a database is provisioned, otherwise fall back to in-memory storage
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    console.log("DATABASE_URL is set, using Postgres storage");
+    return new DrizzleStorage(createDatabase(process.env.DATABASE_URL));
+  }
+  
+  console.log("DATABASE_URL is not set, using in-memory storage");
+  return new MemStorage();
+}
+
 // Export an instance of the storage
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { MarkSchemeEntry, Result, ReviewItem, Submission } from "@shared/schema";
+import { storage } from "./storage";
+import { gradeAnswers } from "./grading";
+import { gradeWrittenAnswers } from "./rubric";
+import { applyGradingScale } from "./curving";
+
+// Grading either produces a result or is held until the open review items are resolved
+export type SubmissionGradingOutcome =
+  | { status: "graded"; result: Result }
+  | { status: "needs_review"; reviewItems: ReviewItem[] };
+
+/**
+ * Grade a submission from its pages, unless parts of it still need review
+ * @param submission Submission to grade
+ * @param markScheme Mark scheme entries for its test (must not be empty)
+ * @returns The stored result, or the open review items holding grading back
+ */
+export async function gradeSubmission(
+  submission: Submission,
+  markScheme: MarkSchemeEntry[]
+): Promise<SubmissionGradingOutcome> {
+  // Merge answers from every page in page order; later pages win on conflicts
+  const pages = await storage.getSubmissionPages(submission.id);
+  const studentAnswers = pages.reduce<Record<string, string>>(
+    (acc, page) => ({ ...acc, ...(page.extractedAnswers ?? {}) }),
+    {}
+  );
+  
+  // Answers changed by hand after grading; the latest change to a question wins
+  const overrides = (await storage.getAnswerOverrides(submission.id)).reduce<Record<string, string>>(
+    (acc, override) => ({ ...acc, [override.questionNumber.toString()]: override.newAnswer }),
+    {}
+  );
+  
+  let reviewItems = await storage.getSubmissionReviewItems(submission.id);
+  
+  // A question no page has an answer for is a blank the reviewer should confirm
+  for (const item of reviewItems) {
+    const key = item.questionNumber?.toString();
+    if (item.status === "open" && item.pageId === null && key && studentAnswers[key]) {
+      await storage.resolveReviewItem(item.id, studentAnswers[key]);
+    }
+  }
+  const missing = markScheme.filter(entry =>
+    !entry.voided &&
+    !studentAnswers[entry.questionNumber.toString()] &&
+    !(entry.questionNumber.toString() in overrides) &&
+    !reviewItems.some(item => item.questionNumber === entry.questionNumber && item.status !== "superseded")
+  );
+  await storage.addReviewItems(missing.map(entry => ({
+    submissionId: submission.id,
+    pageId: null,
+    questionNumber: entry.questionNumber,
+    reason: "blank" as const
+  })));
+  
+  reviewItems = await storage.getSubmissionReviewItems(submission.id);
+  const openItems = reviewItems.filter(item => item.status === "open");
+  if (openItems.length > 0) {
+    await storage.updateSubmissionStatus(submission.id, "needs_review");
+    console.log(`Submission ${submission.id} held for review (${openItems.length} items)`);
+    return { status: "needs_review", reviewItems: openItems };
+  }
+  
+  // Reviewers' corrections take precedence over what was extracted, and manual overrides over both
+  for (const item of reviewItems) {
+    if (item.status === "resolved" && item.questionNumber !== null && item.resolvedAnswer !== null) {
+      studentAnswers[item.questionNumber.toString()] = item.resolvedAnswer;
+    }
+  }
+  Object.assign(studentAnswers, overrides);
+  
+  const test = await storage.getTest(submission.testId);
+  const writtenGrades = await gradeWrittenAnswers(markScheme, studentAnswers, submission.id);
+  const { result: gradedResult } = gradeAnswers(submission.testId, markScheme, studentAnswers, test, writtenGrades);
+  const version = await storage.getLatestMarkSchemeVersion(submission.testId);
+  const result = await storage.addResult({
+    ...gradedResult,
+    submissionId: submission.id,
+    markSchemeVersion: version?.version ?? null
+  });
+  await storage.updateSubmissionStatus(submission.id, "graded");
+  
+  // A new score can move the curve, so the whole cohort is re-scaled
+  const scaled = (await applyGradingScale(submission.testId)).find(item => item.id === result.id);
+  return { status: "graded", result: scaled ?? result };
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { storage } from "../storage";
+import { generateAnswerSheetPdf } from "../answer-sheet";
+import { bulkIngest, IngestProgress, isIngestFinished } from "../ingest";
+import { getSheetLayout, getSheetOptions, getStudentIdLayout } from "../omr";
+import { buildScanPdf, fillBubbles, renderAnswerSheets } from "./sheets";
+
+/**
+ * Wait for a bulk upload to complete or fail
+ * @param id Upload ID
+ * @returns The final progress
+ */
+function waitForIngest(id: number): Promise<IngestProgress> {
+  return new Promise(resolve => {
+    const unsubscribe = bulkIngest.subscribe(id, progress => {
+      if (isIngestFinished(progress)) {
+        unsubscribe();
+        resolve(progress);
+      }
+    });
+  });
+}
+
+/**
+ * Create a test with a five-question key and a class of two students for it
+ * @returns The test, its mark scheme and the students
+ */
+async function createQuizAndClass() {
+  const test = await storage.createTest({ name: "Unit quiz", totalQuestions: 5, totalPoints: 5 });
+  const markScheme = await storage.addMarkSchemeEntries(
+    ["A", "C", "B", "D", "A"].map((expectedAnswer, index) => ({ testId: test.id, questionNumber: index + 1, expectedAnswer, points: 1 }))
+  );
+  const schoolClass = await storage.createClass({ name: "8A" });
+  // Student numbers fill the sheet's eight-digit ID grid and must be unique across the shared storage
+  const students = await storage.addStudents(["Ada Park", "Ben Ortiz"].map((name, index) => (
+    { classId: schoolClass.id, name, studentNumber: String(test.id * 10 + index).padStart(8, "0") }
+  )));
+  return { test, markScheme, students };
+}
+
+describe("bulk upload", () => {
+  before(async () => {
+    await storage.updateSettings({ recognitionProvider: "omr" });
+  });
+
+  it("files the pages of a printed sheet PDF by their QR codes", async () => {
+    const { test, markScheme, students } = await createQuizAndClass();
+
+    const started = bulkIngest.start(test.id, "sheets.pdf", generateAnswerSheetPdf(test, markScheme, students), { grouping: "markers" });
+    const final = await waitForIngest(started.id);
+
+    assert.equal(final.status, "completed", final.errors.join("; "));
+    assert.equal(final.routedPages, 2);
+    assert.equal(final.triagedPages, 0);
+    const submissions = await storage.getSubmissions(test.id);
+    assert.deepEqual(submissions.map(submission => submission.studentId).sort(), students.map(student => student.id).sort());
+  });
+
+  it("files a PDF of completed blank sheets under each student by their bubbled IDs and grades them", async () => {
+    const { test, markScheme, students } = await createQuizAndClass();
+    const [sheet] = await renderAnswerSheets(test, markScheme);
+
+    // Ada gets everything right; Ben gets the last two wrong
+    const layout = getSheetLayout(5, getSheetOptions(markScheme), 1);
+    const answers = [["A", "C", "B", "D", "A"], ["A", "C", "B", "A", "B"]];
+    const scans = await Promise.all(students.map((student, index) => fillBubbles(sheet, [
+      ...getStudentIdLayout().map(column => column.bubbles.find(bubble => bubble.digit === student.studentNumber[column.position])!),
+      ...layout.questions.map(question => question.bubbles.find(bubble => bubble.option === answers[index][question.questionNumber - 1])!)
+    ])));
+
+    const started = bulkIngest.start(test.id, "period-3.pdf", buildScanPdf(scans), { grouping: "markers" });
+    const final = await waitForIngest(started.id);
+
+    assert.equal(final.status, "completed", final.errors.join("; "));
+    assert.equal(final.routedPages, 2);
+    assert.equal(final.triagedPages, 0);
+    assert.equal(final.gradedSubmissions, 2);
+
+    const submissions = await storage.getSubmissions(test.id);
+    const scores = await Promise.all(students.map(async student => {
+      const submission = submissions.find(candidate => candidate.studentId === student.id);
+      assert.ok(submission, `${student.name} has a paper`);
+      assert.equal(submission.status, "graded");
+      return (await storage.getSubmissionResult(submission.id))?.pointsEarned;
+    }));
+    assert.deepEqual(scores, [5, 3]);
+  });
+});
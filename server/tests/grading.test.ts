@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultScoringPolicy } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { gradeAnswers } from "../grading";
+
+describe("gradeAnswers", () => {
+  it("leaves a voided question out of the total and adds full credit for it on top", async () => {
+    const storage = new MemStorage();
+    const markScheme = await storage.addMarkSchemeEntries([
+      { testId: 1, questionNumber: 1, expectedAnswer: "A", points: 2 },
+      { testId: 1, questionNumber: 2, expectedAnswer: "B", points: 2 },
+      { testId: 1, questionNumber: 3, expectedAnswer: "C", points: 1, voided: true }
+    ]);
+    const answers = { "1": "A", "2": "B", "3": "D" };
+
+    const none = gradeAnswers(1, markScheme, answers, { scoringPolicy: { ...defaultScoringPolicy, voidedCredit: "none" } }).result;
+    const full = gradeAnswers(1, markScheme, answers, { scoringPolicy: { ...defaultScoringPolicy, voidedCredit: "full" } }).result;
+
+    assert.deepEqual([none.totalPoints, none.pointsEarned, none.scorePercentage], [4, 4, 100]);
+    assert.deepEqual([full.totalPoints, full.pointsEarned, full.scorePercentage], [4, 5, 125]);
+  });
+});
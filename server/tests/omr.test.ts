@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MemStorage } from "../storage";
+import { extractPdfPages } from "../ingest/pdf";
+import { getStudentIdLayout, identifySheet } from "../omr";
+import { buildScanPdf, fillBubbles, renderAnswerSheets } from "./sheets";
+
+/**
+ * Create a test with a ten-question multiple choice mark scheme
+ * @param storage Storage to create it in
+ * @returns The test and its mark scheme
+ */
+async function createQuiz(storage: MemStorage) {
+  const test = await storage.createTest({ name: "Quiz", totalQuestions: 10, totalPoints: 10 });
+  const markScheme = await storage.addMarkSchemeEntries(
+    Array.from({ length: 10 }, (_, index) => ({ testId: test.id, questionNumber: index + 1, expectedAnswer: "A", points: 1 }))
+  );
+  return { test, markScheme };
+}
+
+describe("identifySheet", () => {
+  it("reads the QR code on a printed sheet rendered at upload resolution", async () => {
+    const storage = new MemStorage();
+    const { test, markScheme } = await createQuiz(storage);
+    const [page] = await renderAnswerSheets(test, markScheme);
+
+    const identity = identifySheet(page);
+
+    assert.deepEqual(identity.code, { testId: test.id, page: 1, studentId: undefined });
+  });
+
+  it("reads the student on personalised sheets after a scan round trip", async () => {
+    const storage = new MemStorage();
+    const { test, markScheme } = await createQuiz(storage);
+    const schoolClass = await storage.createClass({ name: "7B" });
+    const [student] = await storage.addStudents([{ classId: schoolClass.id, name: "Sam Lee", studentNumber: "00012345" }]);
+    const printed = await renderAnswerSheets(test, markScheme, [student]);
+
+    const [scanned] = await extractPdfPages(buildScanPdf(printed));
+
+    assert.deepEqual(identifySheet(scanned.imageData!).code, { testId: test.id, page: 1, studentId: student.id });
+  });
+
+  it("reads the student number bubbled on a blank sheet", async () => {
+    const storage = new MemStorage();
+    const { test, markScheme } = await createQuiz(storage);
+    const [page] = await renderAnswerSheets(test, markScheme);
+    const digits = getStudentIdLayout().map((column, index) => column.bubbles.find(bubble => bubble.digit === "20240517"[index])!);
+
+    const identity = identifySheet(await fillBubbles(page, digits));
+
+    assert.deepEqual(identity.code, { testId: test.id, page: 1, studentId: undefined });
+    assert.equal(identity.studentNumber, "20240517");
+  });
+});
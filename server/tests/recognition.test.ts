@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { InsertMarkSchemeEntry } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { gradeAnswers } from "../grading";
+import { getSheetLayout, getSheetOptions } from "../omr";
+import { getProvider } from "../recognition";
+import { fillBubbles, renderAnswerSheets } from "./sheets";
+
+/**
+ * Create a test with the given mark scheme and one page to read for it
+ * @param rows Mark scheme entries, without the test ID
+ * @returns Everything a provider is given, plus the storage it came from
+ */
+async function createPaper(rows: Omit<InsertMarkSchemeEntry, "testId">[]) {
+  const storage = new MemStorage();
+  const test = await storage.createTest({ name: "Mixed quiz", totalQuestions: rows.length, totalPoints: rows.length });
+  const markScheme = await storage.addMarkSchemeEntries(rows.map(row => ({ ...row, testId: test.id })));
+  const page = await storage.addPage({ imageData: "data:image/png;base64,AA==", pageNumber: 1, testId: test.id });
+  return { test, markScheme, page, settings: await storage.getSettings() };
+}
+
+describe("mock provider", () => {
+  it("answers every question in a way its key accepts", async () => {
+    const { test, markScheme, page, settings } = await createPaper([
+      { questionNumber: 1, expectedAnswer: "B|D", points: 1 },
+      { questionNumber: 2, expectedAnswer: "either A or C", points: 1 },
+      { questionNumber: 3, expectedAnswer: "A,C", points: 1, questionType: "multi_select" },
+      { questionNumber: 4, expectedAnswer: "True", points: 1, questionType: "true_false" },
+      { questionNumber: 5, expectedAnswer: "3.5", points: 1, questionType: "numeric", tolerance: 0.1 },
+      { questionNumber: 6, expectedAnswer: "photosynthesis|photo-synthesis", points: 1, questionType: "short_text" }
+    ]);
+
+    const { answers } = await getProvider("mock")!.extractAnswers(page.imageData, { settings, page, test, markScheme });
+    const { result } = gradeAnswers(test.id, markScheme, answers);
+
+    assert.deepEqual(answers, { "1": "B", "2": "A", "3": "A,C", "4": "True", "5": "3.5", "6": "photosynthesis" });
+    assert.equal(result.pointsEarned, 6);
+  });
+});
+
+describe("omr provider", () => {
+  it("reads and grades the bubbles filled on a printed answer sheet", async () => {
+    const keys = ["A", "C", "B", "D", "E", "A|B", "T", "F"];
+    const { test, markScheme, page, settings } = await createPaper(keys.map((expectedAnswer, index) => ({
+      questionNumber: index + 1,
+      expectedAnswer,
+      points: 1,
+      questionType: index >= 6 ? "true_false" : "single_choice"
+    })));
+    const [sheet] = await renderAnswerSheets(test, markScheme);
+
+    // Right on everything but question 4; question 6 accepts either bubble, and true/false use the first two bubbles
+    const marked = ["A", "C", "B", "A", "E", "B", "A", "B"];
+    const layout = getSheetLayout(keys.length, getSheetOptions(markScheme), 1);
+    const scan = await fillBubbles(sheet, layout.questions.map(question =>
+      question.bubbles.find(bubble => bubble.option === marked[question.questionNumber - 1])!
+    ));
+
+    const reading = await getProvider("omr")!.extractAnswers(scan, { settings, page, test, markScheme });
+    const { result } = gradeAnswers(test.id, markScheme, reading.answers);
+
+    assert.deepEqual(reading.answers, { "1": "A", "2": "C", "3": "B", "4": "A", "5": "E", "6": "B", "7": "T", "8": "F" });
+    assert.ok(Object.values(reading.questions ?? {}).every(question => question.status === "marked"));
+    assert.equal(result.pointsEarned, 7);
+  });
+});
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { storage } from "../storage";
+import { processPage } from "../page-processing";
+import { gradeSubmission } from "../submission-grading";
+import { AnswerExtractionResponse, RecognitionProvider } from "../recognition";
+
+/**
+ * Make a provider that reads every page the same way
+ * @param extraction What it reads
+ * @returns The provider
+ */
+function fixedProvider(extraction: AnswerExtractionResponse): RecognitionProvider {
+  return {
+    id: "fixed",
+    name: "Fixed",
+    description: "Returns the same answers for every page",
+    checkAvailability: () => ({ available: true }),
+    extractAnswers: async () => extraction
+  };
+}
+
+describe("review queue", () => {
+  it("stops applying a reviewer's correction once its page is read again", async () => {
+    const test = await storage.createTest({ name: "Review quiz", totalQuestions: 2, totalPoints: 2 });
+    const markScheme = await storage.addMarkSchemeEntries([
+      { testId: test.id, questionNumber: 1, expectedAnswer: "A", points: 1 },
+      { testId: test.id, questionNumber: 2, expectedAnswer: "B", points: 1 }
+    ]);
+    const submission = await storage.createSubmission({ testId: test.id, label: "Smudged paper" });
+    const page = await storage.addPage({ imageData: "data:image/png;base64,AA==", pageNumber: 1, testId: test.id, submissionId: submission.id });
+    const settings = await storage.getSettings();
+
+    // Question 2 is smudged, so it is held for a reviewer, who reads it as D
+    const first = await processPage(page, fixedProvider({
+      answers: { "1": "A", "2": "C" },
+      confidence: 0.9,
+      questions: { "1": { confidence: 0.9, status: "marked" }, "2": { confidence: 0.1, status: "marked" } }
+    }), settings);
+    assert.deepEqual(first.reviewItems.map(item => item.questionNumber), [2]);
+    assert.equal((await gradeSubmission(submission, markScheme)).status, "needs_review");
+    await storage.resolveReviewItem(first.reviewItems[0].id, "D");
+    const corrected = await gradeSubmission(submission, markScheme);
+    assert.equal(corrected.status === "graded" && corrected.result.pointsEarned, 1);
+
+    // A clean rescan reads question 2 as B
+    const second = await processPage(await storage.getPage(page.id), fixedProvider({
+      answers: { "1": "A", "2": "B" },
+      confidence: 0.95,
+      questions: { "1": { confidence: 0.95, status: "marked" }, "2": { confidence: 0.95, status: "marked" } }
+    }), settings);
+    assert.deepEqual(second.reviewItems, []);
+
+    const regraded = await gradeSubmission(submission, markScheme);
+    assert.equal(regraded.status === "graded" && regraded.result.studentAnswers["2"], "B");
+    assert.equal(regraded.status === "graded" && regraded.result.pointsEarned, 2);
+    assert.deepEqual((await storage.getSubmissionReviewItems(submission.id)).map(item => item.status), ["superseded"]);
+  });
+});
@@ -0,0 +1,60 @@
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import { jsPDF } from "jspdf";
+import { MarkSchemeEntry, Student, Test } from "@shared/schema";
+import { generateAnswerSheetPdf } from "../answer-sheet";
+import { extractPdfPages } from "../ingest/pdf";
+import { BUBBLE_RADIUS_MM, PAGE_HEIGHT_MM, PAGE_WIDTH_MM, Point } from "../omr";
+
+/**
+ * Print answer sheets and turn them into page images the way a bulk upload would
+ * @param test Test the sheets are for
+ * @param markScheme Mark scheme the sheets are laid out from
+ * @param students Students to print personalised sheets for
+ * @returns One JPEG data URL per printed page
+ */
+export async function renderAnswerSheets(test: Test, markScheme: MarkSchemeEntry[], students: Student[] = []): Promise<string[]> {
+  const pages = await extractPdfPages(generateAnswerSheetPdf(test, markScheme, students));
+  return pages.map(page => {
+    if (!page.imageData) throw new Error(page.error ?? `${page.source} was not rendered`);
+    return page.imageData;
+  });
+}
+
+/**
+ * Fill in bubbles on a page image with dark ink, as a student would with a pen
+ * @param imageData JPEG or PNG data URL of a whole sheet page
+ * @param bubbles Centres of the bubbles to fill, in mm from the top-left of the page
+ * @returns JPEG data URL of the filled page
+ */
+export async function fillBubbles(imageData: string, bubbles: Point[]): Promise<string> {
+  const image = await loadImage(Buffer.from(imageData.split(",")[1], "base64"));
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext("2d");
+  context.drawImage(image, 0, 0);
+
+  const scaleX = image.width / PAGE_WIDTH_MM;
+  const scaleY = image.height / PAGE_HEIGHT_MM;
+  context.fillStyle = "#1a1a1a";
+  for (const bubble of bubbles) {
+    context.beginPath();
+    context.arc(bubble.x * scaleX, bubble.y * scaleY, BUBBLE_RADIUS_MM * 0.9 * scaleX, 0, Math.PI * 2);
+    context.fill();
+  }
+
+  const jpeg = await canvas.encode("jpeg", 90);
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
+
+/**
+ * Bind page images into one PDF, like a scanner's multi-page output
+ * @param images JPEG data URLs, one per A4 page
+ * @returns PDF file contents
+ */
+export function buildScanPdf(images: string[]): Buffer {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  images.forEach((image, index) => {
+    if (index > 0) doc.addPage();
+    doc.addImage(image, "JPEG", 0, 0, PAGE_WIDTH_MM, PAGE_HEIGHT_MM);
+  });
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { DrizzleStorage } from "../storage";
+import { gradeAnswers } from "../grading";
+
+// An in-process Postgres, migrated the same way as a real database
+const client = new PGlite();
+const db = drizzle({ client, schema });
+const storage = new DrizzleStorage(db);
+
+/**
+ * Create a test with a three-question mark scheme saved as its first version
+ * @returns The test and its mark scheme
+ */
+async function createQuiz() {
+  const { id } = await storage.createTest({ name: "Fractions", totalQuestions: 0, totalPoints: 0 });
+  return storage.changeMarkScheme(id, async store => {
+    const markScheme = await store.replaceMarkScheme(id, ["A", "B", "C"].map((expectedAnswer, index) => (
+      { testId: id, questionNumber: index + 1, expectedAnswer, points: 1 }
+    )));
+    const test = await store.commitMarkSchemeVersion(
+      { testId: id, entries: markScheme, summary: "Uploaded 3 questions" },
+      { totalQuestions: 3, totalPoints: 3 }
+    );
+    return { test: test!, markScheme };
+  });
+}
+
+describe("DrizzleStorage", () => {
+  before(async () => {
+    await migrate(db, { migrationsFolder: "migrations" });
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  describe("getPage", () => {
+    it("returns a stored page and rejects an unknown one", async () => {
+      const { test } = await createQuiz();
+      const added = await storage.addPage({ imageData: "data:image/png;base64,AA==", pageNumber: 1, testId: test.id });
+
+      const page = await storage.getPage(added.id);
+
+      assert.equal(page.testId, test.id);
+      assert.equal(page.processed, false);
+      assert.deepEqual(page.extractedAnswers, {});
+      await assert.rejects(storage.getPage(added.id + 1000), /not found/);
+    });
+  });
+
+  describe("changeMarkScheme", () => {
+    it("saves the replaced mark scheme, its version and the test's totals together", async () => {
+      const { test } = await createQuiz();
+
+      const updated = await storage.changeMarkScheme(test.id, async store => {
+        const entries = await store.replaceMarkScheme(test.id, [{ testId: test.id, questionNumber: 1, expectedAnswer: "D", points: 4 }]);
+        return store.commitMarkSchemeVersion({ testId: test.id, entries, summary: "Saved 1 question" }, { totalQuestions: 1, totalPoints: 4 });
+      });
+
+      assert.equal(updated?.totalPoints, 4);
+      assert.deepEqual((await storage.getMarkScheme(test.id)).map(entry => entry.expectedAnswer), ["D"]);
+      const versions = await storage.getMarkSchemeVersions(test.id);
+      assert.deepEqual(versions.map(version => version.version), [1, 2]);
+      assert.deepEqual(versions[1].entries.map(entry => entry.expectedAnswer), ["D"]);
+    });
+
+    it("keeps the old mark scheme and versions when saving the version fails", async () => {
+      const { test } = await createQuiz();
+
+      await assert.rejects(storage.changeMarkScheme(test.id, async store => {
+        await store.replaceMarkScheme(test.id, [{ testId: test.id, questionNumber: 1, expectedAnswer: "D", points: 4 }]);
+        throw new Error("Version could not be saved");
+      }), /Version could not be saved/);
+
+      assert.deepEqual((await storage.getMarkScheme(test.id)).map(entry => entry.expectedAnswer), ["A", "B", "C"]);
+      assert.equal((await storage.getMarkSchemeVersions(test.id)).length, 1);
+      assert.equal((await storage.getTest(test.id))?.totalPoints, 3);
+    });
+
+    it("numbers versions in the order concurrent changes commit", async () => {
+      const { test } = await createQuiz();
+
+      await Promise.all(["Changed answer rules", "Changed scoring policy"].map(summary =>
+        storage.changeMarkScheme(test.id, async store => {
+          const entries = await store.getMarkScheme(test.id);
+          return store.commitMarkSchemeVersion({ testId: test.id, entries, summary }, { totalQuestions: 3, totalPoints: 3 });
+        })
+      ));
+
+      assert.deepEqual((await storage.getMarkSchemeVersions(test.id)).map(version => version.version), [1, 2, 3]);
+    });
+
+    it("refuses a second copy of a version number", async () => {
+      const { test, markScheme } = await createQuiz();
+
+      await assert.rejects(
+        db.insert(schema.markSchemeVersions).values({ testId: test.id, version: 1, entries: markScheme, summary: "Duplicate" }),
+        /mark_scheme_versions_test_id_version_unique/
+      );
+    });
+  });
+
+  describe("supersedePageReviewItems", () => {
+    it("drops a page's open items and keeps its resolved ones only for the record", async () => {
+      const { test } = await createQuiz();
+      const submission = await storage.createSubmission({ testId: test.id, label: "Paper 3" });
+      const page = await storage.addPage({ imageData: "data:image/png;base64,AA==", pageNumber: 1, testId: test.id, submissionId: submission.id });
+      const [resolved] = await storage.addReviewItems([1, 2].map(questionNumber => (
+        { submissionId: submission.id, pageId: page.id, questionNumber, reason: "low_confidence" as const }
+      )));
+      await storage.resolveReviewItem(resolved.id, "B");
+
+      await storage.supersedePageReviewItems(page.id);
+
+      const items = await storage.getSubmissionReviewItems(submission.id);
+      assert.deepEqual(items.map(item => [item.questionNumber, item.status, item.resolvedAnswer]), [[1, "superseded", "B"]]);
+    });
+  });
+
+  describe("result history", () => {
+    it("keeps each result's breakdown as graded after the mark scheme changes", async () => {
+      const { test, markScheme } = await createQuiz();
+      const submission = await storage.createSubmission({ testId: test.id, label: "Paper 1" });
+      const answers = { "1": "A", "2": "B", "3": "D" };
+      const first = await storage.addResult({
+        ...gradeAnswers(test.id, markScheme, answers).result,
+        submissionId: submission.id,
+        markSchemeVersion: 1
+      });
+
+      // The key for question 3 is corrected to D and the paper is re-graded
+      const corrected = await storage.changeMarkScheme(test.id, async store => {
+        const entries = await store.replaceMarkScheme(test.id, ["A", "B", "D"].map((expectedAnswer, index) => (
+          { testId: test.id, questionNumber: index + 1, expectedAnswer, points: 1 }
+        )));
+        await store.commitMarkSchemeVersion({ testId: test.id, entries, summary: "Edited question 3" }, { totalQuestions: 3, totalPoints: 3 });
+        return entries;
+      });
+      const second = await storage.addResult({
+        ...gradeAnswers(test.id, corrected, answers).result,
+        submissionId: submission.id,
+        markSchemeVersion: 2
+      });
+
+      assert.deepEqual((await storage.getResults(test.id)).map(result => result.pointsEarned), [2, 3]);
+      assert.equal((await storage.getSubmissionResult(submission.id))?.id, second.id);
+      assert.deepEqual((await storage.getSubmissionDetailedResults(submission.id)).map(item => item.correct), [true, true, true]);
+      assert.deepEqual(first.items?.map(item => item.correct), [true, true, false]);
+    });
+
+    it("re-grades a result stored without its breakdown against the version it was graded with", async () => {
+      const { test, markScheme } = await createQuiz();
+      const submission = await storage.createSubmission({ testId: test.id, label: "Paper 2" });
+      const { items: _items, ...graded } = gradeAnswers(test.id, markScheme, { "1": "A", "2": "B", "3": "C" }).result;
+      await storage.addResult({ ...graded, submissionId: submission.id, markSchemeVersion: 1 });
+
+      await storage.changeMarkScheme(test.id, async store => {
+        const entries = await store.replaceMarkScheme(test.id, ["D", "D", "D"].map((expectedAnswer, index) => (
+          { testId: test.id, questionNumber: index + 1, expectedAnswer, points: 1 }
+        )));
+        return store.commitMarkSchemeVersion({ testId: test.id, entries, summary: "Saved 3 questions in the editor" }, { totalQuestions: 3, totalPoints: 3 });
+      });
+
+      assert.deepEqual((await storage.getSubmissionDetailedResults(submission.id)).map(item => item.correct), [true, true, true]);
+    });
+  });
+});
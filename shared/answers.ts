@@ -0,0 +1,155 @@
+import type { QuestionType, RubricCriterion } from "./schema";
+
+// Answer helpers shared by the Excel mapper in the browser and the grader on the server
+
+// Spellings accepted in the "type" column of a mark scheme spreadsheet
+const QUESTION_TYPE_ALIASES: Record<string, QuestionType> = {
+  "single": "single_choice",
+  "single choice": "single_choice",
+  "single_choice": "single_choice",
+  "mcq": "single_choice",
+  "multiple choice": "single_choice",
+  "multi": "multi_select",
+  "multi select": "multi_select",
+  "multi-select": "multi_select",
+  "multi_select": "multi_select",
+  "multiple select": "multi_select",
+  "tf": "true_false",
+  "t/f": "true_false",
+  "true/false": "true_false",
+  "true false": "true_false",
+  "true_false": "true_false",
+  "numeric": "numeric",
+  "number": "numeric",
+  "text": "short_text",
+  "short text": "short_text",
+  "short_text": "short_text",
+  "short answer": "short_text",
+  "written": "written",
+  "essay": "written",
+  "free response": "written",
+  "long answer": "written",
+};
+
+/**
+ * Split a mark scheme answer into the answers it accepts
+ * Alternatives are written as "B|D" or "either A or C"
+ * @param expectedAnswer Answer from the mark scheme
+ * @returns Each accepted answer, trimmed; a blank key accepts only a blank answer
+ */
+export function parseAcceptedAnswers(expectedAnswer: string | null | undefined): string[] {
+  let answer = String(expectedAnswer ?? "").trim();
+  const either = answer.match(/^either\s+(.+)$/i);
+  if (either) {
+    answer = either[1].split(/\s+or\s+|\s*,\s*/i).join("|");
+  }
+
+  const accepted = answer.split("|").map(alternative => alternative.trim()).filter(Boolean);
+  return accepted.length > 0 ? accepted : [""];
+}
+
+/**
+ * Read a question type as written in a spreadsheet
+ * @param value Cell contents, e.g. "MCQ", "T/F" or "numeric"
+ * @returns The question type, or undefined if it isn't recognised
+ */
+export function parseQuestionType(value: string): QuestionType | undefined {
+  return QUESTION_TYPE_ALIASES[value.trim().toLowerCase().replace(/\s+/g, " ")];
+}
+
+/**
+ * Read a rubric as written in a spreadsheet cell
+ * Criteria are separated by new lines or semicolons and written as "Names the organelle (1)" or "1: Names the organelle"
+ * @param value Cell contents
+ * @returns The criteria; a criterion without points is worth 1
+ */
+export function parseRubric(value: string): RubricCriterion[] {
+  return value
+    .split(/[\n;]/)
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const trailing = item.match(/^(.+?)\s*\(\s*(\d+(?:\.\d+)?)\s*(?:points?|pts?|marks?)?\s*\)$/i);
+      if (trailing) {
+        return { description: trailing[1].trim(), points: parseFloat(trailing[2]) };
+      }
+      const leading = item.match(/^(\d+(?:\.\d+)?)\s*(?:points?|pts?|marks?)?\s*[:\-–]\s*(.+)$/i);
+      if (leading) {
+        return { description: leading[2].trim(), points: parseFloat(leading[1]) };
+      }
+      return { description: item, points: 1 };
+    });
+}
+
+/**
+ * Guess a question's type from its expected answer, for mark schemes without a type column
+ * @param expectedAnswer Answer from the mark scheme
+ * @returns Multi-select for several letters, numeric for numbers, short text for words, single choice otherwise
+ */
+export function inferQuestionType(expectedAnswer: string): QuestionType {
+  const accepted = parseAcceptedAnswers(expectedAnswer);
+  if (accepted.every(answer => /^[A-Za-z]?$/.test(answer))) {
+    return "single_choice";
+  }
+  // Only upper-case runs of the first eight letters, so acronyms like "DNA" stay text
+  if (accepted.every(answer => /^[A-H](\s*,?\s*[A-H])+$/.test(answer))) {
+    return "multi_select";
+  }
+  if (accepted.every(answer => parseNumber(answer) !== null)) {
+    return "numeric";
+  }
+  return "short_text";
+}
+
+/**
+ * Read a true/false answer in any of its usual spellings
+ * @param answer Answer as written or extracted
+ * @returns "TRUE", "FALSE", or null if the answer is neither
+ */
+export function normalizeTrueFalse(answer: string): "TRUE" | "FALSE" | null {
+  const value = answer.trim().toUpperCase();
+  if (["T", "TRUE", "Y", "YES", "✓"].includes(value)) return "TRUE";
+  if (["F", "FALSE", "N", "NO", "✗", "X"].includes(value)) return "FALSE";
+  return null;
+}
+
+/**
+ * Read a number from an answer, ignoring thousands separators and spaces
+ * @param answer Answer as written or extracted
+ * @returns The number, or null if the answer isn't one
+ */
+export function parseNumber(answer: string): number | null {
+  const value = answer.replace(/[\s,]/g, "");
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(value) ? parseFloat(value) : null;
+}
+
+/**
+ * Check that a mark scheme answer makes sense for its question type
+ * @param expectedAnswer Answer from the mark scheme
+ * @param questionType Type of the question
+ * @returns A description of the problem, or null if the answer is valid
+ */
+export function validateExpectedAnswer(expectedAnswer: string, questionType: QuestionType): string | null {
+  const accepted = parseAcceptedAnswers(expectedAnswer).filter(Boolean);
+
+  switch (questionType) {
+    case "single_choice":
+      return accepted.every(answer => /^[A-Za-z]$/.test(answer))
+        ? null
+        : "Single-choice answers must be one option letter, e.g. \"B\" or \"B|D\"";
+    case "multi_select":
+      return accepted.every(answer => /^[A-Za-z](\s*,?\s*[A-Za-z])*$/.test(answer))
+        ? null
+        : "Multi-select answers must be option letters, e.g. \"ACD\"";
+    case "true_false":
+      return accepted.every(answer => normalizeTrueFalse(answer) !== null)
+        ? null
+        : "True/false answers must be True or False";
+    case "numeric":
+      return accepted.every(answer => parseNumber(answer) !== null)
+        ? null
+        : "Numeric answers must be numbers";
+    default:
+      return null;
+  }
+}
@@ -1,6 +1,24 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, real, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { validateExpectedAnswer } from "./answers";
+
+// The kinds of question a mark scheme entry can be
+export const questionTypes = ["single_choice", "multi_select", "true_false", "numeric", "short_text", "written"] as const;
+export type QuestionType = typeof questionTypes[number];
+
+// One thing a written answer is marked on, and what it is worth
+export const rubricCriterionSchema = z.object({
+  description: z.string().trim().min(1),
+  points: z.number().nonnegative(),
+});
+
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+
+// How a written answer did on one rubric criterion
+export interface RubricCriterionScore extends RubricCriterion {
+  pointsAwarded: number;
+}
 
 // Define the schema for mark scheme entries
 export const markSchemeEntries = pgTable("mark_scheme_entries", {
@@ -9,14 +27,115 @@ export const markSchemeEntries = pgTable("mark_scheme_entries", {
   expectedAnswer: text("expected_answer").notNull(),
   points: integer("points").notNull(),
   testId: integer("test_id").notNull(),
+  questionType: text("question_type").$type<QuestionType>().notNull().default("single_choice"),
+  tolerance: real("tolerance"), // Allowed difference either side of a numeric answer
+  rubric: jsonb("rubric").$type<RubricCriterion[]>(), // Written questions; expectedAnswer holds the model answer
+  voided: boolean("voided").notNull().default(false), // Thrown out: left out of the test's total points
+  bonus: boolean("bonus").notNull().default(false), // Left out of the total points but can add to what is earned
+});
+
+// Rules deciding when a student's answer counts as the same as an accepted answer
+export const answerRulesSchema = z.object({
+  ignoreCase: z.boolean().default(true),
+  ignoreWhitespace: z.boolean().default(false), // Otherwise runs of spaces count as one
+  ignorePunctuation: z.boolean().default(false),
+  synonyms: z.array(z.array(z.string().trim().min(1)).min(2)).default([]), // Groups of interchangeable answers
+});
+
+export type AnswerRules = z.infer<typeof answerRulesSchema>;
+
+export const defaultAnswerRules: AnswerRules = {
+  ignoreCase: true,
+  ignoreWhitespace: false,
+  ignorePunctuation: false,
+  synonyms: [],
+};
+
+// How points are awarded and taken away when grading a test
+export const blankHandlings = ["zero", "penalize"] as const;
+export const partialCreditFormulas = ["none", "proportional", "right_minus_wrong"] as const;
+export const voidedCredits = ["none", "full"] as const;
+
+export const scoringPolicySchema = z.object({
+  wrongPenalty: z.number().min(0).max(1).default(0), // Fraction of a question's points taken off for a wrong answer
+  blankHandling: z.enum(blankHandlings).default("zero"), // "penalize" treats a blank like a wrong answer
+  floorAtZero: z.boolean().default(true), // Never let a total go below zero
+  partialCredit: z.enum(partialCreditFormulas).default("none"), // For multi-select answers such as "ACD"
+  // A voided question is never part of the total; "full" gives everyone its points like a bonus question,
+  // so a student who got everything else right can score over 100%
+  voidedCredit: z.enum(voidedCredits).default("none"),
+});
+
+export type ScoringPolicy = z.infer<typeof scoringPolicySchema>;
+
+export const defaultScoringPolicy: ScoringPolicy = {
+  wrongPenalty: 0,
+  blankHandling: "zero",
+  floorAtZero: true,
+  partialCredit: "none",
+  voidedCredit: "none",
+};
+
+// Letter grades and the curve applied to raw percentages before they are assigned
+export const curveMethods = ["none", "linear", "square_root", "top_score"] as const;
+
+export const gradeBoundarySchema = z.object({
+  grade: z.string().trim().min(1).max(10), // e.g. "A" or "B+"
+  minPercentage: z.number().min(0).max(100), // Lowest scaled percentage that earns the grade
 });
 
+export type GradeBoundary = z.infer<typeof gradeBoundarySchema>;
+
+export const gradingScaleSchema = z.object({
+  boundaries: z.array(gradeBoundarySchema).default([]).refine(
+    boundaries => new Set(boundaries.map(boundary => boundary.grade)).size === boundaries.length,
+    "Each grade can only appear once"
+  ),
+  curve: z.enum(curveMethods).default("none"),
+  targetMean: z.number().min(1).max(100).default(75), // For the linear curve
+});
+
+export type GradingScale = z.infer<typeof gradingScaleSchema>;
+
+export const defaultGradingScale: GradingScale = {
+  boundaries: [],
+  curve: "none",
+  targetMean: 75,
+};
+
 // Define the schema for test sessions
 export const tests = pgTable("tests", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   totalQuestions: integer("total_questions").notNull(),
   totalPoints: integer("total_points").notNull(),
+  answerRules: jsonb("answer_rules").$type<AnswerRules>().notNull().default(defaultAnswerRules),
+  scoringPolicy: jsonb("scoring_policy").$type<ScoringPolicy>().notNull().default(defaultScoringPolicy),
+  gradingScale: jsonb("grading_scale").$type<GradingScale>().notNull().default(defaultGradingScale),
+});
+
+// Define the schema for classes (a roster of students)
+export const classes = pgTable("classes", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+});
+
+// Define the schema for students on a class roster
+export const students = pgTable("students", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull(),
+  name: text("name").notNull(),
+  studentNumber: text("student_number").notNull().default(""), // School-issued ID
+});
+
+// Define the schema for submissions (one student's paper for a test)
+export const submissions = pgTable("submissions", {
+  id: serial("id").primaryKey(),
+  testId: integer("test_id").notNull(),
+  studentId: integer("student_id"),
+  label: text("label").notNull().default(""),
+  status: text("status").$type<SubmissionStatus>().notNull().default("pending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Define the schema for captured pages
@@ -25,18 +144,128 @@ export const pages = pgTable("pages", {
   imageData: text("image_data").notNull(), // Base64 encoded image
   pageNumber: integer("page_number").notNull(),
   testId: integer("test_id").notNull(),
+  submissionId: integer("submission_id"),
   processed: boolean("processed").default(false),
   extractedAnswers: jsonb("extracted_answers").$type<Record<string, string>>().default({}),
 });
 
+// Define the schema for the triage queue: captured pages that could not be routed automatically
+export const triagePages = pgTable("triage_pages", {
+  id: serial("id").primaryKey(),
+  imageData: text("image_data").notNull(), // Base64 encoded image
+  reason: text("reason").notNull(),
+  testId: integer("test_id"), // Whatever could be read from the page, to pre-fill manual assignment
+  pageNumber: integer("page_number"),
+  studentNumber: text("student_number"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Define the schema for background processing jobs (a batch of pages)
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  testId: integer("test_id").notNull(),
+  submissionId: integer("submission_id"),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  totalItems: integer("total_items").notNull(),
+  completedItems: integer("completed_items").notNull().default(0),
+  failedItems: integer("failed_items").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Define the schema for the pages within a job
+export const jobItems = pgTable("job_items", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  pageId: integer("page_id").notNull(),
+  status: text("status").$type<JobItemStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+});
+
+// Why an extraction was sent for review
+export const reviewReasons = ["low_confidence", "blank", "ambiguous", "invalid_option"] as const;
+
+// Define the schema for the review queue: extractions a person should check before grading
+export const reviewItems = pgTable("review_items", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(),
+  pageId: integer("page_id"), // Null for questions missing from every page
+  questionNumber: integer("question_number"), // Null when the whole page is flagged
+  reason: text("reason").$type<ReviewReason>().notNull(),
+  extractedAnswer: text("extracted_answer").notNull().default(""),
+  confidence: real("confidence"),
+  status: text("status").$type<ReviewItemStatus>().notNull().default("open"),
+  resolvedAnswer: text("resolved_answer"), // Corrected answer; null for page-level items
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// Define the schema for the audit trail of answers changed by hand after grading
+export const answerOverrides = pgTable("answer_overrides", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(),
+  questionNumber: integer("question_number").notNull(),
+  previousAnswer: text("previous_answer").notNull().default(""),
+  newAnswer: text("new_answer").notNull(),
+  changedBy: text("changed_by").notNull(),
+  reason: text("reason").notNull().default(""),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Define the schema for rubric scores given to written answers
+export const rubricGrades = pgTable("rubric_grades", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").notNull(),
+  questionNumber: integer("question_number").notNull(),
+  answer: text("answer").notNull(), // The transcription that was scored
+  pointsAwarded: real("points_awarded").notNull(),
+  rationale: text("rationale").notNull(),
+  criteria: jsonb("criteria").$type<RubricCriterionScore[]>().notNull().default([]),
+  gradedBy: text("graded_by").notNull(), // Provider ID, or "local" for the built-in rubric grader
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Define the schema for saved versions of a test's mark scheme; every edit adds one
+export const markSchemeVersions = pgTable("mark_scheme_versions", {
+  id: serial("id").primaryKey(),
+  testId: integer("test_id").notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... within the test
+  entries: jsonb("entries").$type<MarkSchemeEntry[]>().notNull(), // The whole mark scheme as it was
+  // The test's rules at the time, which decide grades as much as the entries; null on versions saved before they were kept
+  answerRules: jsonb("answer_rules").$type<AnswerRules>(),
+  scoringPolicy: jsonb("scoring_policy").$type<ScoringPolicy>(),
+  summary: text("summary").notNull(), // What changed, e.g. "Edited question 4"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  // A second writer numbering the same version fails instead of leaving two copies of it
+  uniqueIndex("mark_scheme_versions_test_id_version_unique").on(table.testId, table.version),
+]);
+
 // Define the schema for test results
 export const results = pgTable("results", {
   id: serial("id").primaryKey(),
   testId: integer("test_id").notNull(),
+  submissionId: integer("submission_id"),
   studentAnswers: jsonb("student_answers").$type<Record<string, string>>().notNull(),
-  pointsEarned: integer("points_earned").notNull(),
+  pointsEarned: real("points_earned").notNull(),
   totalPoints: integer("total_points").notNull(),
   scorePercentage: integer("score_percentage").notNull(),
+  markSchemeVersion: integer("mark_scheme_version"), // Version graded against; null if the test had no saved versions
+  scaledPercentage: real("scaled_percentage"), // After the test's curve; scorePercentage keeps the raw score
+  letterGrade: text("letter_grade"), // Null when the test has no grade boundaries
+  items: jsonb("items").$type<ResultItem[]>(), // Per-question breakdown as graded; null on results stored before it was kept
+});
+
+// Define the schema for saved spreadsheet column mappings, reused for files with the same headers
+export const columnMappingProfiles = pgTable("column_mapping_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. "AQA Biology"
+  headerSignature: text("header_signature").notNull().unique(), // Normalized, sorted headers the profile applies to
+  columns: jsonb("columns").$type<string[]>().notNull(), // Headers as they appeared in the file it was saved from
+  columnMap: jsonb("column_map").$type<ExcelColumnMap>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Define the settings schema
@@ -45,17 +274,41 @@ export const settings = pgTable("settings", {
   answerRecognitionInstructions: text("answer_recognition_instructions").default(""),
   enhancedRecognition: boolean("enhanced_recognition").default(true),
   confidenceThreshold: integer("confidence_threshold").default(21),
-  temperature: integer("temperature").default(0.1), // Added temperature
-  topP: integer("top_p").default(1), // Added top_p
+  temperature: real("temperature").default(0.1), // Added temperature
+  topP: real("top_p").default(1), // Added top_p
+  recognitionProvider: text("recognition_provider").default("openai"), // ID of the answer-recognition provider
+  processingConcurrency: integer("processing_concurrency").default(2), // Pages processed in parallel by the job queue
+  processingMaxAttempts: integer("processing_max_attempts").default(3), // Tries per page before it is marked failed
 });
 
 // Create insert schemas using drizzle-zod
 export const insertMarkSchemeEntrySchema = createInsertSchema(markSchemeEntries).omit({
   id: true,
+}).extend({
+  questionType: z.enum(questionTypes).optional(),
+  rubric: z.array(rubricCriterionSchema).nullable().optional(),
 });
 
 export const insertTestSchema = createInsertSchema(tests).omit({
   id: true,
+}).extend({
+  answerRules: answerRulesSchema.optional(),
+  scoringPolicy: scoringPolicySchema.optional(),
+  gradingScale: gradingScaleSchema.optional(),
+});
+
+export const insertClassSchema = createInsertSchema(classes).omit({
+  id: true,
+});
+
+export const insertStudentSchema = createInsertSchema(students).omit({
+  id: true,
+});
+
+export const insertSubmissionSchema = createInsertSchema(submissions).omit({
+  id: true,
+  status: true,
+  createdAt: true,
 });
 
 export const insertPageSchema = createInsertSchema(pages).omit({
@@ -64,8 +317,52 @@ export const insertPageSchema = createInsertSchema(pages).omit({
   extractedAnswers: true,
 });
 
+export const insertTriagePageSchema = createInsertSchema(triagePages).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  testId: true,
+  submissionId: true,
+  totalItems: true,
+});
+
+export const insertReviewItemSchema = createInsertSchema(reviewItems).omit({
+  id: true,
+  status: true,
+  resolvedAnswer: true,
+  createdAt: true,
+  resolvedAt: true,
+}).extend({
+  reason: z.enum(reviewReasons),
+});
+
+export const insertRubricGradeSchema = createInsertSchema(rubricGrades).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  criteria: z.array(rubricCriterionSchema.extend({ pointsAwarded: z.number() })).optional(),
+});
+
+export const insertAnswerOverrideSchema = createInsertSchema(answerOverrides).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMarkSchemeVersionSchema = createInsertSchema(markSchemeVersions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  entries: z.array(z.custom<MarkSchemeEntry>()),
+  answerRules: answerRulesSchema.nullable().optional(),
+  scoringPolicy: scoringPolicySchema.nullable().optional(),
+});
+
 export const insertResultSchema = createInsertSchema(results).omit({
   id: true,
+}).extend({
+  items: z.array(z.custom<ResultItem>()).nullable().optional(),
 });
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({
@@ -79,20 +376,88 @@ export type InsertMarkSchemeEntry = z.infer<typeof insertMarkSchemeEntrySchema>;
 export type Test = typeof tests.$inferSelect;
 export type InsertTest = z.infer<typeof insertTestSchema>;
 
+export type Class = typeof classes.$inferSelect;
+export type InsertClass = z.infer<typeof insertClassSchema>;
+
+export type Student = typeof students.$inferSelect;
+export type InsertStudent = z.infer<typeof insertStudentSchema>;
+
+export type SubmissionStatus = "pending" | "needs_review" | "graded";
+export type Submission = typeof submissions.$inferSelect;
+export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
+
 export type Page = typeof pages.$inferSelect;
 export type InsertPage = z.infer<typeof insertPageSchema>;
 
+export type TriagePage = typeof triagePages.$inferSelect;
+export type InsertTriagePage = z.infer<typeof insertTriagePageSchema>;
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+export type JobItemStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+export type JobItem = typeof jobItems.$inferSelect;
+
+export type ReviewReason = typeof reviewReasons[number];
+// Superseded items were resolved against an extraction that has since been redone; they are kept for the record only
+export type ReviewItemStatus = "open" | "resolved" | "superseded";
+export type ReviewItem = typeof reviewItems.$inferSelect;
+export type InsertReviewItem = z.infer<typeof insertReviewItemSchema>;
+
+export type RubricGrade = typeof rubricGrades.$inferSelect;
+export type InsertRubricGrade = z.infer<typeof insertRubricGradeSchema>;
+
+export type AnswerOverride = typeof answerOverrides.$inferSelect;
+export type InsertAnswerOverride = z.infer<typeof insertAnswerOverrideSchema>;
+
+export type MarkSchemeVersion = typeof markSchemeVersions.$inferSelect;
+export type InsertMarkSchemeVersion = z.infer<typeof insertMarkSchemeVersionSchema>;
+
 export type Result = typeof results.$inferSelect;
 export type InsertResult = z.infer<typeof insertResultSchema>;
 
+export type ColumnMappingProfile = typeof columnMappingProfiles.$inferSelect;
+
 export type Settings = typeof settings.$inferSelect;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 
+// Schema for a roster row imported from CSV/Excel
+export const rosterRowSchema = z.object({
+  name: z.string().trim().min(1),
+  studentNumber: z.string().trim().default(""),
+});
+
+export type RosterRow = z.infer<typeof rosterRowSchema>;
+
 // Create a common type for mark scheme data from Excel
 export const markSchemeRowSchema = z.object({
   questionNumber: z.number().int().positive(),
-  expectedAnswer: z.string(), // Allow empty strings for blank answers
+  expectedAnswer: z.string(), // Allow empty strings for blank answers; alternatives as "B|D" or "either A or C"
   points: z.number().int().nonnegative(),
+  questionType: z.enum(questionTypes).optional(), // Guessed from the expected answer when missing
+  tolerance: z.number().nonnegative().nullable().optional(),
+  rubric: z.array(rubricCriterionSchema).nullable().optional(),
+  voided: z.boolean().optional(),
+  bonus: z.boolean().optional(),
+}).superRefine((row, ctx) => {
+  if (row.voided && row.bonus) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bonus"], message: `Question ${row.questionNumber}: a voided question can't also be a bonus question` });
+  }
+  
+  const problem = row.questionType ? validateExpectedAnswer(row.expectedAnswer, row.questionType) : null;
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expectedAnswer"], message: `Question ${row.questionNumber}: ${problem}` });
+  }
+  
+  const rubricPoints = (row.rubric ?? []).reduce((sum, criterion) => sum + criterion.points, 0);
+  if (rubricPoints > row.points) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["rubric"],
+      message: `Question ${row.questionNumber}: the rubric is worth ${rubricPoints} points but the question is worth ${row.points}`
+    });
+  }
 });
 
 export type MarkSchemeRow = z.infer<typeof markSchemeRowSchema>;
@@ -111,21 +476,127 @@ export const resultItemSchema = z.object({
   studentAnswer: z.string(),
   expectedAnswer: z.string(),
   points: z.number().int().nonnegative(),
-  earnedPoints: z.number().int().nonnegative(),
+  earnedPoints: z.number(), // Fractional with partial credit, negative with a wrong-answer penalty
   correct: z.boolean(),
+  voided: z.boolean().optional(),
+  bonus: z.boolean().optional(),
+  rationale: z.string().optional(), // Why a written answer got its points
 });
 
 export type ResultItem = z.infer<typeof resultItemSchema>;
 
+// Schema for a page upload; test, page number and submission are read from the sheet's QR code when present
+export const pageUploadSchema = z.object({
+  imageData: z.string().min(1),
+  testId: z.number().int().positive().optional(),
+  pageNumber: z.number().int().positive().optional(),
+  submissionId: z.number().int().positive().nullish(),
+});
+
+export type PageUpload = z.infer<typeof pageUploadSchema>;
+
+// How a bulk upload is split into papers: by each sheet's QR code, or every so many pages
+export const bulkUploadGroupings = ["markers", "page_count"] as const;
+
+// Schema for the options of a bulk upload (sent as form fields alongside the file)
+export const bulkUploadOptionsSchema = z.object({
+  grouping: z.enum(bulkUploadGroupings).default("markers"),
+  pagesPerSubmission: z.coerce.number().int().positive().max(100).optional(),
+}).refine(options => options.grouping !== "page_count" || options.pagesPerSubmission, {
+  message: "Say how many pages each paper has",
+  path: ["pagesPerSubmission"],
+});
+
+export type BulkUploadOptions = z.infer<typeof bulkUploadOptionsSchema>;
+
+// Schema for manually assigning a triaged page
+export const assignTriagePageSchema = z.object({
+  testId: z.number().int().positive(),
+  pageNumber: z.number().int().positive(),
+  submissionId: z.number().int().positive().nullish(),
+});
+
+export type AssignTriagePage = z.infer<typeof assignTriagePageSchema>;
+
+// Schema for starting a processing job: explicit pages, or every page of a submission
+export const createJobSchema = z.object({
+  submissionId: z.number().int().positive().optional(),
+  pageIds: z.array(z.number().int().positive()).optional(),
+}).refine(data => data.submissionId || (data.pageIds && data.pageIds.length > 0), {
+  message: "Provide a submissionId or at least one pageId",
+});
+
+export type CreateJobRequest = z.infer<typeof createJobSchema>;
+
+// Schema for resolving a review item; answer is omitted for page-level items
+export const resolveReviewItemSchema = z.object({
+  answer: z.string().trim().optional(),
+});
+
+export type ResolveReviewItem = z.infer<typeof resolveReviewItemSchema>;
+
+// Schema for overriding one answer on a graded submission
+export const answerOverrideRequestSchema = z.object({
+  answer: z.string().trim().max(100),
+  changedBy: z.string().trim().min(1, "Say who is making the change"),
+  reason: z.string().trim().default(""),
+});
+
+export type AnswerOverrideRequest = z.infer<typeof answerOverrideRequestSchema>;
+
+// Schema for a grading request: the server computes the score from the mark scheme
+export const gradeResultRequestSchema = z.object({
+  testId: z.number().int().positive(),
+  studentAnswers: z.record(z.string(), z.string()),
+});
+
+export type GradeResultRequest = z.infer<typeof gradeResultRequestSchema>;
+
+// Which score an LMS export sends for each student
+export const lmsScoreFields = ["points", "percentage", "scaled"] as const;
+
+// Schema for the options of an LMS gradebook export (sent as query parameters)
+export const lmsExportOptionsSchema = z.object({
+  assignmentName: z.string().trim().max(200).optional(), // Defaults to the test name
+  score: z.enum(lmsScoreFields).default("points"),
+  emailDomain: z.string().trim().regex(/^[a-z0-9.-]+\.[a-z]{2,}$/i, "Enter a domain such as school.org").optional(), // Turns student numbers into emails
+});
+
+export type LmsExportOptions = z.infer<typeof lmsExportOptionsSchema>;
+
 // Schema for Excel column mapping
 export const excelColumnMapSchema = z.object({
   questionNumberCol: z.string(),
   expectedAnswerCol: z.string(),
   pointsCol: z.string(),
+  alternativeAnswersCol: z.string().optional(), // Extra accepted answers, separated by "|" or commas
+  questionTypeCol: z.string().optional(), // Single choice, multi-select, true/false, numeric, short text or written
+  rubricCol: z.string().optional(), // Rubric criteria for written answers, e.g. "Names the organelle (1); Explains its role (2)"
 });
 
 export type ExcelColumnMap = z.infer<typeof excelColumnMapSchema>;
 
+// Schema for saving a column mapping profile; the server works out the header signature
+export const insertColumnMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, "Give the profile a name").max(100),
+  columns: z.array(z.string()).min(1),
+  columnMap: excelColumnMapSchema,
+}).superRefine((profile, ctx) => {
+  const mapped = Object.entries(profile.columnMap).filter(([, column]) => column);
+  for (const [field, column] of mapped) {
+    if (!profile.columns.includes(column!)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["columnMap", field], message: `"${column}" is not one of the file's columns` });
+    }
+  }
+});
+
+export type InsertColumnMappingProfile = z.infer<typeof insertColumnMappingProfileSchema>;
+
+// Schema for looking up the profile that fits a file's headers
+export const matchColumnMappingProfileSchema = z.object({
+  columns: z.array(z.string()).min(1),
+});
+
 // Schema for Excel preview data
 export const excelPreviewRowSchema = z.record(z.string(), z.union([z.string(), z.number()]));
 export type ExcelPreviewRow = z.infer<typeof excelPreviewRowSchema>;
\ No newline at end of file